@@ -0,0 +1,58 @@
+/**
+ * Headless balance report
+ * Runs batches of seeded battles (role vs role, rarity vs rarity, team vs dungeon rooms)
+ * and prints win rates, draw rates, average turns and damage/heal share per role.
+ *
+ * Run with: npm run balance -- [content.json] [--battles N] [--seed S] [--level L] [--team id1,id2,...] [--trigger energy|random]
+ * Without a content file, the built-in characters and abilities are used (no dungeons).
+ */
+
+import { readFileSync } from 'node:fs';
+import { CHARACTER_DEFINITIONS } from '../src/lib/game/characters';
+import { DEFAULT_ABILITIES } from '../src/lib/game/abilities';
+import { formatBalanceReport, runBalanceReport } from '../src/lib/game/balanceSimulation';
+import { CURRENT_CONTENT_VERSION, type GameContent } from '../src/lib/admin/adminTypes';
+import { migrateContent } from '../src/lib/admin/contentMigration';
+
+const args = process.argv.slice(2);
+
+function flag(name: string): string | undefined {
+  const idx = args.indexOf(`--${name}`);
+  return idx !== -1 ? args[idx + 1] : undefined;
+}
+
+/** Read a content file and migrate it to the current version, like the admin import does */
+function loadContentFile(path: string): GameContent {
+  const migrated = migrateContent(JSON.parse(readFileSync(path, 'utf-8')));
+  if (typeof migrated === 'string') {
+    console.error(`${path}: ${migrated}`);
+    process.exit(1);
+  }
+  if (migrated.changes.length > 0) {
+    console.log(`Content migrated from v${migrated.fromVersion}:\n${migrated.changes.map((c) => `  - ${c}`).join('\n')}\n`);
+  }
+  return migrated.content;
+}
+
+const contentPath = args.find((a, i) => !a.startsWith('--') && !args[i - 1]?.startsWith('--'));
+const content: GameContent = contentPath
+  ? loadContentFile(contentPath)
+  : {
+      version: CURRENT_CONTENT_VERSION,
+      characters: [...CHARACTER_DEFINITIONS],
+      enemies: [],
+      dungeons: [],
+      abilities: [...DEFAULT_ABILITIES],
+    };
+
+const battles = Number(flag('battles') ?? 50);
+const baseSeed = Number(flag('seed') ?? 1);
+const level = Number(flag('level') ?? 10);
+const team = flag('team')?.split(',').filter(Boolean);
+const trigger = flag('trigger');
+if (trigger === 'energy' || trigger === 'random') content.abilityTrigger = trigger;
+
+const started = performance.now();
+const report = runBalanceReport(content, { battles, baseSeed, level, roomTeamIds: team });
+console.log(formatBalanceReport(report));
+console.log(`\nDone in ${((performance.now() - started) / 1000).toFixed(1)}s`);
@@ -3,8 +3,14 @@
  * Extends core game types with editor-specific data
  */
 
-import type { CharacterDefinition, Role, Rarity, SpriteSet, BaseStats, DisplaySize } from '../game/types';
+import type { AbilityTriggerMode, CharacterDefinition, Role, Rarity, SpriteSet, BaseStats, DisplaySize } from '../game/types';
 import type { AbilityDefinition } from '../game/abilities';
+import type { Resistances } from '../game/elements';
+import type { GearConfig } from '../game/gear';
+import type { PassiveTrait } from '../game/traits';
+import type { SynergyDefinition } from '../game/synergies';
+import type { BossEnrage, BossPhase } from '../game/bossPhases';
+import { createDefaultGambit, type AbilityGambit } from '../game/gambits';
 
 /** Pity guarantee: after N pulls without the target rarity, guarantee it */
 export interface PityRule {
@@ -30,6 +36,26 @@ export interface GachaConfig {
   initialBonusPulls?: number;
 }
 
+/** A limited gacha banner with its own pool, rates and pity counters */
+export interface GachaBanner {
+  id: string;
+  name: string;
+  /** IDs of characters available on this banner */
+  characterPool: string[];
+  /** Pull rates per rarity (must sum to 1.0) */
+  rates: Record<Rarity, number>;
+  /** Pity rules, counted separately from other banners */
+  pityRules?: PityRule[];
+  /** Rate-up characters (must be in the pool) */
+  featuredIds?: string[];
+  /** Share of pulls of a featured character's rarity that go to featured characters (default 0.5) */
+  featuredRate?: number;
+  /** Opening time (ms since epoch; open right away when missing) */
+  startsAt?: number;
+  /** Closing time (ms since epoch; never closes when missing) */
+  endsAt?: number;
+}
+
 /** Enemy template for dungeon encounters */
 export interface EnemyTemplate {
   id: string;
@@ -38,12 +64,20 @@ export interface EnemyTemplate {
   rarity: Rarity;
   level: number;
   ascension: number;
-  /** Reference to ability ID from the abilities list */
-  abilityId: string;
-  /** Whether this enemy is a boss (occupies 3x3, can have multiple abilities) */
+  /** Ordered ability list with conditions (empty = the role's default ability) */
+  abilities: AbilityGambit[];
+  /** Resistances and weaknesses per damage type */
+  resistances?: Resistances;
+  /** Passive traits fired by battle events */
+  traits?: PassiveTrait[];
+  /** Faction tags counted by faction synergies */
+  factions?: string[];
+  /** Whether this enemy is a boss (spans the 3x3 grid, up to MAX_BOSSES per room) */
   isBoss?: boolean;
-  /** Multiple ability IDs for bosses (used instead of abilityId when isBoss) */
-  abilityIds?: string[];
+  /** Boss only: phases started at HP thresholds */
+  phases?: BossPhase[];
+  /** Boss only: enrage timer */
+  enrage?: BossEnrage;
   /** Sprite images per animation state */
   sprites?: SpriteSet;
   /** @deprecated Use sprites.idle instead — kept for migration */
@@ -170,8 +204,14 @@ export interface GameContent {
   roleStats?: Partial<Record<Role, BaseStats>>;
   /** Gacha system configuration */
   gachaConfig?: GachaConfig;
+  /** Limited gacha banners, pulled from alongside the standard pool of gachaConfig */
+  gachaBanners?: GachaBanner[];
   /** Expedition system configuration */
   expeditionConfig?: ExpeditionConfig;
+  /** Gear item bases, affix pool and drop rates (built-in defaults when missing) */
+  gearConfig?: GearConfig;
+  /** Role and faction synergies (built-in defaults when missing) */
+  synergies?: SynergyDefinition[];
   /** ID of the dungeon used as today's daily dungeon (admin picks) */
   dailyDungeonId?: string;
   /** Calendar schedule: date (YYYY-MM-DD) → dungeon ID */
@@ -184,9 +224,11 @@ export interface GameContent {
   levelThresholds?: number[];
   /** Stat multiplier per rarity tier (applied to base stats before level/ascension scaling) */
   rarityMultipliers?: Record<Rarity, number>;
+  /** How abilities trigger in battle (default 'energy'; 'random' keeps the legacy coin flip) */
+  abilityTrigger?: AbilityTriggerMode;
 }
 
-export const CURRENT_CONTENT_VERSION = 3;
+export const CURRENT_CONTENT_VERSION = 4;
 
 /** Generate a unique ID */
 export function generateId(prefix: string): string {
@@ -214,7 +256,7 @@ export function createBlankEnemy(): EnemyTemplate {
     rarity: 'common',
     level: 1,
     ascension: 0,
-    abilityId: 'ability_cleave',
+    abilities: [createDefaultGambit('ability_cleave')],
   };
 }
 
@@ -267,6 +309,21 @@ export function createBlankTower(): Tower {
   };
 }
 
+/** Create a blank gacha banner copying the standard rates, open for two weeks from now */
+export function createBlankBanner(rates: Record<Rarity, number>): GachaBanner {
+  const startsAt = Date.now();
+  return {
+    id: generateId('banner'),
+    name: '',
+    characterPool: [],
+    rates: { ...rates },
+    featuredIds: [],
+    featuredRate: 0.5,
+    startsAt,
+    endsAt: startsAt + 14 * 24 * 3600 * 1000,
+  };
+}
+
 /** Create default expedition config */
 export function createDefaultExpeditionConfig(): ExpeditionConfig {
   return {
@@ -0,0 +1,154 @@
+/**
+ * Content migrations
+ * Ordered chain of per-version steps that upgrade a stored or imported
+ * content bundle to CURRENT_CONTENT_VERSION. Steps only touch the fields they
+ * migrate, so unknown and newer fields (towers, gacha config, ...) survive.
+ */
+
+import { CHARACTER_DEFINITIONS } from '../game/characters';
+import { DEFAULT_ABILITIES, type AbilityDefinition } from '../game/abilities';
+import { createDefaultGambit } from '../game/gambits';
+import type { Role } from '../game/types';
+import { CURRENT_CONTENT_VERSION, type GameContent } from './adminTypes';
+
+/** Content as read from JSON, before migration */
+export type RawContent = Record<string, unknown>;
+
+/** Upgrade from one content version to the next */
+export interface ContentMigrationStep {
+  /** Version this step upgrades from (to from + 1) */
+  from: number;
+  description: string;
+  /**
+   * Migrate content in place (it is a private copy)
+   * @returns human-readable descriptions of what changed
+   */
+  migrate: (content: RawContent) => string[];
+}
+
+export interface ContentMigrationResult {
+  content: GameContent;
+  /** Version the content had before migration */
+  fromVersion: number;
+  /** What was changed, in order (empty when the content was already current) */
+  changes: string[];
+}
+
+/** Every migration step, in version order */
+export const CONTENT_MIGRATIONS: ContentMigrationStep[] = [
+  {
+    from: 1,
+    description: 'Abilities become editable content',
+    migrate: (content) => {
+      if (Array.isArray(content.abilities)) return [];
+      content.abilities = structuredClone(DEFAULT_ABILITIES);
+      return [`Added the ${DEFAULT_ABILITIES.length} built-in abilities`];
+    },
+  },
+  {
+    from: 2,
+    description: 'Standalone dungeon rooms move into dungeons',
+    migrate: (content) => {
+      const rooms = content.dungeonRooms;
+      const hasDungeons = Array.isArray(content.dungeons) && content.dungeons.length > 0;
+      // Content that already has dungeons keeps its rooms list untouched
+      if (!Array.isArray(rooms) || rooms.length === 0 || hasDungeons) return [];
+      delete content.dungeonRooms;
+      content.dungeons = [{
+        id: 'dungeon_migrated',
+        name: 'Migrated Dungeon',
+        description: 'Auto-migrated from standalone rooms',
+        rooms,
+      }];
+      return [`Moved ${rooms.length} standalone room(s) into "Migrated Dungeon"`];
+    },
+  },
+  {
+    from: 3,
+    description: 'Single abilities become ordered ability lists',
+    migrate: (content) => {
+      const changes: string[] = [];
+      const abilities = (Array.isArray(content.abilities) ? content.abilities : []) as AbilityDefinition[];
+
+      // Enemies: abilityId (or a boss's abilityIds) keeps its old 25% trigger chance
+      const enemies = (Array.isArray(content.enemies) ? content.enemies : []) as Record<string, unknown>[];
+      let enemyCount = 0;
+      for (const enemy of enemies) {
+        if (Array.isArray(enemy.abilities)) continue;
+        const bossIds = enemy.isBoss && Array.isArray(enemy.abilityIds) ? enemy.abilityIds as string[] : [];
+        const ids = bossIds.length > 0 ? bossIds : typeof enemy.abilityId === 'string' && enemy.abilityId ? [enemy.abilityId] : [];
+        enemy.abilities = ids.map(createDefaultGambit);
+        delete enemy.abilityId;
+        delete enemy.abilityIds;
+        enemyCount++;
+      }
+      if (enemyCount > 0) changes.push(`Converted the abilities of ${enemyCount} enemy template(s) into ability lists`);
+
+      // Characters: the ability named by abilityName, preferring one allowed for the role
+      const characters = (Array.isArray(content.characters) ? content.characters : []) as Record<string, unknown>[];
+      let characterCount = 0;
+      for (const char of characters) {
+        if (Array.isArray(char.abilities) || typeof char.abilityName !== 'string') continue;
+        const name = char.abilityName.trim().toLowerCase();
+        const named = abilities.filter((a) => a.name.toLowerCase() === name);
+        const ability = named.find((a) => a.allowedRoles.includes(char.role as Role)) ?? named[0];
+        if (!ability) continue;
+        char.abilities = [createDefaultGambit(ability.id)];
+        characterCount++;
+      }
+      if (characterCount > 0) changes.push(`Converted the ability of ${characterCount} character(s) into ability lists`);
+      return changes;
+    },
+  },
+];
+
+/** Fill in required lists that are missing, whatever the version */
+function repairRequiredLists(content: RawContent): string[] {
+  const changes: string[] = [];
+  if (!Array.isArray(content.characters)) {
+    content.characters = structuredClone(CHARACTER_DEFINITIONS);
+    changes.push('Restored the built-in characters (characters list was missing)');
+  }
+  if (!Array.isArray(content.enemies)) {
+    content.enemies = [];
+    changes.push('Added an empty enemies list');
+  }
+  if (!Array.isArray(content.dungeons)) {
+    content.dungeons = [];
+    changes.push('Added an empty dungeons list');
+  }
+  if (!Array.isArray(content.abilities)) {
+    content.abilities = structuredClone(DEFAULT_ABILITIES);
+    changes.push('Restored the built-in abilities (abilities list was missing)');
+  }
+  return changes;
+}
+
+/**
+ * Upgrade content to CURRENT_CONTENT_VERSION
+ * Content without a version is treated as v1. The input is not modified.
+ * @returns the migrated content with a change report, or an error message
+ */
+export function migrateContent(raw: RawContent): ContentMigrationResult | string {
+  const fromVersion = raw.version === undefined ? 1 : raw.version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    return `Invalid content version: ${JSON.stringify(raw.version)}`;
+  }
+  if (fromVersion > CURRENT_CONTENT_VERSION) {
+    return `Content v${fromVersion} was made by a newer version of the game (this one reads up to v${CURRENT_CONTENT_VERSION})`;
+  }
+
+  const content = structuredClone(raw);
+  const changes: string[] = [];
+  for (let version = fromVersion; version < CURRENT_CONTENT_VERSION; version++) {
+    const step = CONTENT_MIGRATIONS.find((s) => s.from === version);
+    if (!step) return `No content migration from v${version} to v${version + 1}`;
+    for (const change of step.migrate(content)) {
+      changes.push(`v${version}→v${version + 1}: ${change}`);
+    }
+    content.version = version + 1;
+  }
+  changes.push(...repairRequiredLists(content));
+
+  return { content: content as unknown as GameContent, fromVersion, changes };
+}
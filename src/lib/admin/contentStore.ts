@@ -5,14 +5,17 @@
 import type { CharacterDefinition } from '../game/types';
 import { CHARACTER_DEFINITIONS } from '../game/characters';
 import { DEFAULT_ABILITIES, type AbilityDefinition } from '../game/abilities';
+import { createDefaultGearConfig } from '../game/gear';
+import { createDefaultSynergies } from '../game/synergies';
 import {
   type GameContent,
   type EnemyTemplate,
-  type DungeonRoom,
   type Dungeon,
   type Tower,
   CURRENT_CONTENT_VERSION,
 } from './adminTypes';
+import { validateContent } from './contentValidation';
+import { migrateContent, type ContentMigrationResult, type RawContent } from './contentMigration';
 
 const STORAGE_KEY = 'dungeon-gacha-content';
 
@@ -24,59 +27,42 @@ function createDefaultContent(): GameContent {
     enemies: [],
     dungeons: [],
     abilities: [...DEFAULT_ABILITIES],
+    gearConfig: createDefaultGearConfig(),
+    synergies: createDefaultSynergies(),
   };
 }
 
-/** Migrate older content to current version */
-function migrateContent(parsed: Record<string, unknown>): GameContent {
-  const content = parsed as Partial<GameContent> & { dungeonRooms?: DungeonRoom[] };
-
-  // Migrate standalone dungeonRooms (v2) into a single dungeon (v3)
-  let dungeons: Dungeon[] = [];
-  if (Array.isArray(content.dungeons) && content.dungeons.length > 0) {
-    dungeons = content.dungeons;
-  } else if (Array.isArray(content.dungeonRooms) && content.dungeonRooms.length > 0) {
-    // Wrap old standalone rooms into one dungeon
-    dungeons = [{
-      id: 'dungeon_migrated',
-      name: 'Migrated Dungeon',
-      description: 'Auto-migrated from standalone rooms',
-      rooms: content.dungeonRooms,
-    }];
-  }
-
-  return {
-    version: CURRENT_CONTENT_VERSION,
-    characters: Array.isArray(content.characters) ? content.characters : [...CHARACTER_DEFINITIONS],
-    enemies: Array.isArray(content.enemies) ? content.enemies : [],
-    dungeons,
-    abilities: Array.isArray(content.abilities) ? content.abilities : [...DEFAULT_ABILITIES],
-  };
+/** Content loaded from storage, with what loading had to do to it */
+export interface ContentLoadResult {
+  content: GameContent;
+  /** Migration report of the stored content (empty when it was already current) */
+  changes: string[];
+  /** Why the stored content was ignored, when the defaults were used instead */
+  error?: string;
 }
 
-/** Load content from localStorage, falling back to defaults */
-export function loadContent(): GameContent {
+/** Load content from localStorage (migrated to the current version), falling back to defaults */
+export function loadContentWithReport(): ContentLoadResult {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (raw) {
-      const parsed = JSON.parse(raw);
-      if (parsed.version === CURRENT_CONTENT_VERSION && Array.isArray(parsed.dungeons)) {
-        // Ensure abilities array exists
-        if (!Array.isArray(parsed.abilities)) {
-          parsed.abilities = [...DEFAULT_ABILITIES];
-        }
-        return parsed as GameContent;
+      const migrated = migrateContent(JSON.parse(raw));
+      if (typeof migrated === 'string') {
+        return { content: createDefaultContent(), changes: [], error: `Stored content ignored: ${migrated}` };
       }
-      // Migrate older versions
-      const migrated = migrateContent(parsed);
-      saveContent(migrated);
-      return migrated;
+      if (migrated.changes.length > 0) saveContent(migrated.content);
+      return { content: migrated.content, changes: migrated.changes };
     }
   } catch {
     // Ignore parse errors
   }
 
-  return createDefaultContent();
+  return { content: createDefaultContent(), changes: [] };
+}
+
+/** Load content from localStorage, without the migration report */
+export function loadContent(): GameContent {
+  return loadContentWithReport().content;
 }
 
 /** Save content to localStorage */
@@ -99,8 +85,11 @@ export function exportContentAsJson(content: GameContent): void {
   URL.revokeObjectURL(url);
 }
 
-/** Import content from JSON file. Returns parsed content or error message. */
-export function parseImportedJson(jsonString: string): GameContent | string {
+/**
+ * Import content from a JSON file
+ * @returns the content migrated to the current version with its change report, or an error message
+ */
+export function parseImportedJson(jsonString: string): ContentMigrationResult | string {
   try {
     const parsed = JSON.parse(jsonString);
 
@@ -114,7 +103,6 @@ export function parseImportedJson(jsonString: string): GameContent | string {
       }
     }
 
-    // Migrate if needed
     return migrateContent(parsed);
   } catch (e) {
     return `JSON parse error: ${e instanceof Error ? e.message : String(e)}`;
@@ -170,11 +158,20 @@ export function clearGitHubToken(): void {
   sessionStorage.removeItem(GITHUB_TOKEN_KEY);
 }
 
-/** Publish content to GitHub repo as a static JSON file */
+/** Publish content to GitHub repo as a static JSON file (refused while validateContent reports errors) */
 export async function publishContentOnline(
   content: GameContent,
   token: string,
 ): Promise<{ success: true; publishedAt: number } | { success: false; error: string }> {
+  const { errors } = validateContent(content);
+  if (errors.length > 0) {
+    const first = errors[0];
+    return {
+      success: false,
+      error: `Content has ${errors.length} error(s), fix them before publishing. First: ${first.path}: ${first.message}`,
+    };
+  }
+
   try {
     const publishedAt = Date.now();
     const published = { ...content, publishedAt };
@@ -230,14 +227,14 @@ export async function publishContentOnline(
 
 const PUBLISHED_CONTENT_URL = import.meta.env.BASE_URL + 'data/content.json';
 
-/** Fetch the latest published content from the static file */
-export async function fetchPublishedContent(): Promise<GameContent | null> {
+/** Fetch the latest published content from the static file (not migrated yet) */
+export async function fetchPublishedContent(): Promise<RawContent | null> {
   try {
     const res = await fetch(PUBLISHED_CONTENT_URL, { cache: 'no-cache' });
     if (!res.ok) return null;
     const data = await res.json();
     if (!data.version || !Array.isArray(data.characters)) return null;
-    return data as GameContent;
+    return data as RawContent;
   } catch {
     return null;
   }
@@ -246,21 +243,23 @@ export async function fetchPublishedContent(): Promise<GameContent | null> {
 /**
  * Load content with online sync: fetch published content and use it
  * if it's newer than what's in localStorage.
+ * @returns the content with the migration report of whichever copy was used
  */
-export async function loadContentWithSync(): Promise<GameContent> {
-  const local = loadContent();
+export async function loadContentWithSync(): Promise<ContentLoadResult> {
+  const local = loadContentWithReport();
   const remote = await fetchPublishedContent();
 
-  if (!remote || !remote.publishedAt) return local;
+  if (!remote || typeof remote.publishedAt !== 'number') return local;
 
-  const localPublishedAt = local.publishedAt ?? 0;
+  const localPublishedAt = local.content.publishedAt ?? 0;
   if (remote.publishedAt > localPublishedAt) {
     // Remote is newer — migrate if needed and save locally
-    const migrated = remote.version === CURRENT_CONTENT_VERSION && Array.isArray(remote.dungeons)
-      ? remote
-      : migrateContent(remote as unknown as Record<string, unknown>);
-    saveContent(migrated);
-    return migrated;
+    const migrated = migrateContent(remote);
+    if (typeof migrated === 'string') {
+      return { ...local, error: `Published content ignored: ${migrated}` };
+    }
+    saveContent(migrated.content);
+    return { content: migrated.content, changes: migrated.changes };
   }
 
   return local;
@@ -0,0 +1,479 @@
+/**
+ * Content validation
+ * Referential-integrity and sanity checks for a GameContent bundle.
+ * Errors break the game (dangling references, impossible gacha rates);
+ * warnings are suspicious but playable.
+ */
+
+import type { EnemyTemplate, GachaBanner, GameContent } from './adminTypes';
+import { COMBAT_CONSTANTS, ROLE_BASE_STATS, type CharacterDefinition, type Rarity } from '../game/types';
+import { getAbilitiesForRole } from '../game/abilities';
+import { validateRoomFormation } from '../game/formation';
+import { DAMAGE_TYPES, MAX_RESISTANCE, MIN_RESISTANCE, type Resistances } from '../game/elements';
+import type { AbilityGambit } from '../game/gambits';
+import { GEAR_SLOTS, GEAR_STATS, isPercentGearStat, type GearStat } from '../game/gear';
+import {
+  TRAIT_EFFECTS,
+  TRAIT_STATS,
+  TRAIT_TRIGGERS,
+  isTraitCombinationValid,
+  type PassiveTrait,
+} from '../game/traits';
+import { SYNERGY_STATS, type SynergyStat } from '../game/synergies';
+
+export type ContentIssueSeverity = 'error' | 'warning';
+
+/** A single validation finding */
+export interface ContentIssue {
+  severity: ContentIssueSeverity;
+  /** Location in the content, e.g. `dungeons[0].rooms[2].enemies[1].enemyTemplateId` */
+  path: string;
+  message: string;
+}
+
+export interface ContentValidationResult {
+  errors: ContentIssue[];
+  warnings: ContentIssue[];
+}
+
+const RARITIES: Rarity[] = ['common', 'rare', 'epic', 'legendary'];
+
+/** Tolerance for floating-point sums of gacha rates */
+const RATE_SUM_EPSILON = 1e-6;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Collects issues while the checks walk the content */
+class IssueCollector {
+  readonly errors: ContentIssue[] = [];
+  readonly warnings: ContentIssue[] = [];
+
+  error(path: string, message: string): void {
+    this.errors.push({ severity: 'error', path, message });
+  }
+
+  warn(path: string, message: string): void {
+    this.warnings.push({ severity: 'warning', path, message });
+  }
+
+  /** Report empty and duplicate IDs in a list of entities */
+  checkIds(items: { id: string; name?: string }[], listPath: string, label: string): void {
+    const seen = new Map<string, number>();
+    items.forEach((item, i) => {
+      if (!item.id) {
+        this.error(`${listPath}[${i}].id`, `${label} has no ID`);
+        return;
+      }
+      const first = seen.get(item.id);
+      if (first !== undefined) {
+        this.error(`${listPath}[${i}].id`, `Duplicate ${label.toLowerCase()} ID "${item.id}" (also ${listPath}[${first}])`);
+      } else {
+        seen.set(item.id, i);
+      }
+      if (item.name !== undefined && !item.name.trim()) {
+        this.warn(`${listPath}[${i}].name`, `${label} "${item.id}" has no name`);
+      }
+    });
+  }
+
+  /** Report gambits referencing missing abilities or with out-of-range condition values */
+  checkGambits(gambits: AbilityGambit[], path: string, owner: string, abilityIds: Set<string>): void {
+    gambits.forEach((gambit, j) => {
+      const gambitPath = `${path}.abilities[${j}]`;
+      if (!abilityIds.has(gambit.abilityId)) {
+        this.error(`${gambitPath}.abilityId`, `${owner}: ability "${gambit.abilityId}" does not exist`);
+      }
+      gambit.conditions.forEach((condition, k) => {
+        const { type, value } = condition;
+        const isFraction = type === 'chance' || type === 'self_hp_below' || type === 'ally_hp_below';
+        if (isFraction && !(value > 0 && value <= 1)) {
+          this.error(`${gambitPath}.conditions[${k}].value`, `${owner}: ${type} must be between 0 and 1 (got ${value})`);
+        } else if (type === 'enemies_alive_at_least' && !(Number.isInteger(value) && value >= 1)) {
+          this.error(`${gambitPath}.conditions[${k}].value`, `${owner}: enemy count must be a whole number of at least 1 (got ${value})`);
+        }
+      });
+    });
+  }
+
+  /** Report missing pool characters, impossible rates and invalid pity rules of a gacha pool */
+  checkGachaPool(
+    pool: Pick<GachaBanner, 'characterPool' | 'rates' | 'pityRules'>,
+    path: string,
+    label: string,
+    characters: CharacterDefinition[]
+  ): void {
+    pool.characterPool.forEach((id, i) => {
+      if (!characters.some((c) => c.id === id)) {
+        this.error(`${path}.characterPool[${i}]`, `${label} pool character "${id}" does not exist`);
+      }
+    });
+    if (pool.characterPool.length === 0) {
+      this.warn(`${path}.characterPool`, `${label} pool is empty`);
+    }
+
+    let rateSum = 0;
+    for (const rarity of RARITIES) {
+      const rate = pool.rates[rarity] ?? 0;
+      if (rate < 0) this.error(`${path}.rates.${rarity}`, `${label} rate for ${rarity} is negative`);
+      rateSum += rate;
+    }
+    if (Math.abs(rateSum - 1) > RATE_SUM_EPSILON) {
+      this.error(`${path}.rates`, `${label} rates sum to ${rateSum.toFixed(4)} instead of 1`);
+    }
+    for (const rarity of RARITIES) {
+      if ((pool.rates[rarity] ?? 0) > 0 && !characters.some((c) => c.rarity === rarity && pool.characterPool.includes(c.id))) {
+        this.warn(`${path}.rates.${rarity}`, `${label} pool has no ${rarity} character but its rate is above 0`);
+      }
+    }
+
+    (pool.pityRules ?? []).forEach((rule, i) => {
+      if (rule.pullsRequired < 1) {
+        this.error(`${path}.pityRules[${i}].pullsRequired`, `${label} pity for ${rule.rarity} must require at least 1 pull`);
+      }
+    });
+  }
+
+  /** Report unknown damage types and out-of-range resistance values */
+  checkResistances(resistances: Resistances | undefined, path: string, owner: string): void {
+    for (const [type, value] of Object.entries(resistances ?? {})) {
+      const valuePath = `${path}.resistances.${type}`;
+      if (!DAMAGE_TYPES.includes(type as never)) {
+        this.error(valuePath, `${owner}: unknown damage type "${type}"`);
+      } else if (!(typeof value === 'number' && value >= MIN_RESISTANCE && value <= MAX_RESISTANCE)) {
+        this.error(valuePath, `${owner}: ${type} resistance must be between ${MIN_RESISTANCE} and ${MAX_RESISTANCE} (got ${value})`);
+      }
+    }
+  }
+
+  /** Report unknown triggers or effects, impossible combinations and out-of-range trait values */
+  checkTraits(traits: PassiveTrait[] | undefined, path: string, owner: string): void {
+    if (!traits) return;
+    this.checkIds(traits, `${path}.traits`, `${owner} trait`);
+    traits.forEach((trait, j) => {
+      const traitPath = `${path}.traits[${j}]`;
+      const label = `${owner}: trait "${trait.name || trait.id}"`;
+      if (!TRAIT_TRIGGERS.includes(trait.trigger)) {
+        this.error(`${traitPath}.trigger`, `${label} has an unknown trigger "${trait.trigger}"`);
+      } else if (!TRAIT_EFFECTS.includes(trait.effect)) {
+        this.error(`${traitPath}.effect`, `${label} has an unknown effect "${trait.effect}"`);
+      } else if (!isTraitCombinationValid(trait.trigger, trait.effect)) {
+        this.error(`${traitPath}.effect`, `${label} cannot ${trait.effect} on ${trait.trigger}`);
+      }
+      if (!(trait.value > 0)) {
+        this.error(`${traitPath}.value`, `${label} value must be positive (got ${trait.value})`);
+      }
+      if (trait.stat !== undefined && !TRAIT_STATS.includes(trait.stat)) {
+        this.error(`${traitPath}.stat`, `${label} has an unknown stat "${trait.stat}"`);
+      }
+      if (trait.duration !== undefined && !(Number.isInteger(trait.duration) && trait.duration >= 1)) {
+        this.error(`${traitPath}.duration`, `${label} duration must be a whole number of at least 1 (got ${trait.duration})`);
+      }
+      if (trait.threshold !== undefined && !(trait.threshold > 0 && trait.threshold < 1)) {
+        this.error(`${traitPath}.threshold`, `${label} HP threshold must be between 0 and 1 (got ${trait.threshold})`);
+      }
+      if (trait.chance !== undefined && !(trait.chance > 0 && trait.chance <= 1)) {
+        this.error(`${traitPath}.chance`, `${label} chance must be between 0 and 1 (got ${trait.chance})`);
+      }
+      if (trait.maxTriggers !== undefined && !(Number.isInteger(trait.maxTriggers) && trait.maxTriggers >= 1)) {
+        this.error(`${traitPath}.maxTriggers`, `${label} max triggers must be a whole number of at least 1 (got ${trait.maxTriggers})`);
+      }
+    });
+  }
+
+  /** Report broken boss phases and enrage timers (ignored on non-boss enemies) */
+  checkBossScript(enemy: EnemyTemplate, path: string, enemyIds: Set<string>, abilityIds: Set<string>): void {
+    if (!enemy.isBoss) {
+      if ((enemy.phases ?? []).length > 0 || enemy.enrage) {
+        this.warn(`${path}.phases`, `${enemy.name} has boss phases or an enrage timer but is not a boss (they are ignored)`);
+      }
+      return;
+    }
+    const phases = enemy.phases ?? [];
+    this.checkIds(phases, `${path}.phases`, `${enemy.name} phase`);
+    phases.forEach((phase, j) => {
+      const phasePath = `${path}.phases[${j}]`;
+      const label = `${enemy.name}: phase "${phase.name || phase.id}"`;
+      if (!(phase.hpThreshold > 0 && phase.hpThreshold < 1)) {
+        this.error(`${phasePath}.hpThreshold`, `${label} HP threshold must be between 0 and 1 (got ${phase.hpThreshold})`);
+      }
+      (phase.summonIds ?? []).forEach((sid, k) => {
+        if (!enemyIds.has(sid)) this.error(`${phasePath}.summonIds[${k}]`, `${label}: summon "${sid}" does not exist`);
+      });
+      this.checkGambits(phase.abilities ?? [], phasePath, label, abilityIds);
+      if (phase.shield !== undefined && !(phase.shield > 0)) {
+        this.error(`${phasePath}.shield`, `${label} shield must be positive (got ${phase.shield})`);
+      }
+    });
+    if (enemy.enrage) {
+      if (!(Number.isInteger(enemy.enrage.turn) && enemy.enrage.turn >= 1)) {
+        this.error(`${path}.enrage.turn`, `${enemy.name}: enrage turn must be a whole number of at least 1 (got ${enemy.enrage.turn})`);
+      }
+      if (!(enemy.enrage.atkMultiplier > 0)) {
+        this.error(`${path}.enrage.atkMultiplier`, `${enemy.name}: enrage ATK multiplier must be positive (got ${enemy.enrage.atkMultiplier})`);
+      }
+    }
+  }
+}
+
+/**
+ * Check a content bundle for dangling references and invalid settings
+ * @returns errors (must be fixed before publishing) and warnings, each with a path
+ */
+export function validateContent(content: GameContent): ContentValidationResult {
+  const issues = new IssueCollector();
+  const characterIds = new Set(content.characters.map((c) => c.id));
+  const enemyIds = new Set(content.enemies.map((e) => e.id));
+  const abilityIds = new Set(content.abilities.map((a) => a.id));
+  const dungeonIds = new Set(content.dungeons.map((d) => d.id));
+
+  issues.checkIds(content.characters, 'characters', 'Character');
+  issues.checkIds(content.enemies, 'enemies', 'Enemy');
+  issues.checkIds(content.abilities, 'abilities', 'Ability');
+  issues.checkIds(content.dungeons, 'dungeons', 'Dungeon');
+  issues.checkIds(content.towers ?? [], 'towers', 'Tower');
+  issues.checkIds(content.gachaBanners ?? [], 'gachaBanners', 'Banner');
+
+  // Abilities
+  content.abilities.forEach((ability, i) => {
+    const path = `abilities[${i}]`;
+    if (ability.allowedRoles.length === 0) {
+      issues.warn(`${path}.allowedRoles`, `${ability.name || ability.id} is not allowed for any role`);
+    }
+    if (ability.targetCount < 1) {
+      issues.error(`${path}.targetCount`, `${ability.name || ability.id} must target at least 1 unit`);
+    }
+    if ((ability.cooldown ?? 0) < 0) {
+      issues.error(`${path}.cooldown`, `${ability.name || ability.id} has a negative cooldown`);
+    }
+    const energyCost = ability.energyCost ?? COMBAT_CONSTANTS.MAX_ENERGY;
+    if (energyCost < 0 || energyCost > COMBAT_CONSTANTS.MAX_ENERGY) {
+      issues.error(`${path}.energyCost`, `${ability.name || ability.id} energy cost must be between 0 and ${COMBAT_CONSTANTS.MAX_ENERGY}`);
+    }
+    if (ability.damageType !== undefined && !DAMAGE_TYPES.includes(ability.damageType)) {
+      issues.error(`${path}.damageType`, `${ability.name || ability.id} has an unknown damage type "${ability.damageType}"`);
+    }
+  });
+
+  // Characters
+  content.characters.forEach((char, i) => {
+    const path = `characters[${i}]`;
+    const abilityName = (char.abilityName ?? '').trim().toLowerCase();
+    if (char.abilities && char.abilities.length > 0) {
+      // With an ability list, abilityName is display text only
+      issues.checkGambits(char.abilities, path, char.name, abilityIds);
+    } else if (abilityName && !content.abilities.some((a) => a.name.toLowerCase() === abilityName)) {
+      issues.error(`${path}.abilityName`, `${char.name}: ability "${char.abilityName}" does not exist`);
+    } else if (!abilityName && getAbilitiesForRole(content.abilities, char.role).length === 0) {
+      issues.warn(`${path}.role`, `${char.name}: no ability is available for role ${char.role}`);
+    }
+    issues.checkResistances(char.resistances, path, char.name);
+    issues.checkTraits(char.traits, path, char.name);
+
+    (char.summonIds ?? []).forEach((sid, j) => {
+      if (!characterIds.has(sid)) {
+        issues.error(`${path}.summonIds[${j}]`, `${char.name}: summon "${sid}" does not exist`);
+      }
+    });
+    if (char.role === 'summoner' && (char.summonIds ?? []).length === 0) {
+      issues.warn(`${path}.summonIds`, `${char.name} is a summoner without summons`);
+    } else if (char.role !== 'summoner' && (char.summonIds ?? []).length > 0) {
+      issues.warn(`${path}.summonIds`, `${char.name} has summons but is not a summoner (they are ignored)`);
+    }
+  });
+
+  // Enemies
+  content.enemies.forEach((enemy, i) => {
+    const path = `enemies[${i}]`;
+    issues.checkGambits(enemy.abilities ?? [], path, enemy.name, abilityIds);
+    issues.checkResistances(enemy.resistances, path, enemy.name);
+    issues.checkTraits(enemy.traits, path, enemy.name);
+    issues.checkBossScript(enemy, path, enemyIds, abilityIds);
+    (enemy.summonIds ?? []).forEach((sid, j) => {
+      if (!enemyIds.has(sid)) {
+        issues.error(`${path}.summonIds[${j}]`, `${enemy.name}: summon "${sid}" does not exist`);
+      }
+    });
+    if (enemy.role === 'summoner' && (enemy.summonIds ?? []).length === 0) {
+      issues.warn(`${path}.summonIds`, `${enemy.name} is a summoner without summons`);
+    }
+    if (enemy.level < 1) {
+      issues.error(`${path}.level`, `${enemy.name}: level must be at least 1`);
+    }
+  });
+
+  // Dungeons
+  content.dungeons.forEach((dungeon, i) => {
+    const path = `dungeons[${i}]`;
+    if (dungeon.rooms.length === 0) {
+      issues.warn(`${path}.rooms`, `${dungeon.name || dungeon.id} has no rooms`);
+    }
+    dungeon.rooms.forEach((room, j) => {
+      const roomPath = `${path}.rooms[${j}]`;
+      const roomLabel = `${dungeon.name || dungeon.id} / ${room.name}`;
+      if (room.enemies.length === 0) {
+        issues.warn(`${roomPath}.enemies`, `${roomLabel} has no enemies`);
+      }
+      room.enemies.forEach((re, k) => {
+        if (!enemyIds.has(re.enemyTemplateId)) {
+          issues.error(`${roomPath}.enemies[${k}].enemyTemplateId`, `${roomLabel}: enemy "${re.enemyTemplateId}" does not exist`);
+        }
+      });
+      const formationError = validateRoomFormation(room, content.enemies);
+      if (formationError) {
+        issues.error(`${roomPath}.enemies`, `${roomLabel}: ${formationError}`);
+      }
+      if (room.difficultyMult <= 0) {
+        issues.error(`${roomPath}.difficultyMult`, `${roomLabel}: difficulty multiplier must be positive`);
+      }
+    });
+  });
+
+  // Towers
+  (content.towers ?? []).forEach((tower, i) => {
+    const stageNumbers = new Set<number>();
+    tower.stages.forEach((stage, j) => {
+      const path = `towers[${i}].stages[${j}]`;
+      if (!dungeonIds.has(stage.dungeonId)) {
+        issues.error(`${path}.dungeonId`, `${tower.name || tower.id} stage ${stage.stageNumber}: dungeon "${stage.dungeonId}" does not exist`);
+      }
+      if (stageNumbers.has(stage.stageNumber)) {
+        issues.warn(`${path}.stageNumber`, `${tower.name || tower.id}: stage number ${stage.stageNumber} is used twice`);
+      }
+      stageNumbers.add(stage.stageNumber);
+    });
+  });
+
+  // Gacha
+  const gacha = content.gachaConfig;
+  if (gacha) {
+    issues.checkGachaPool(gacha, 'gachaConfig', 'Gacha', content.characters);
+    gacha.ascensionCosts.forEach((cost, i) => {
+      if (cost < 0) issues.error(`gachaConfig.ascensionCosts[${i}]`, `Ascension cost ${i + 1} is negative`);
+    });
+  }
+  (content.gachaBanners ?? []).forEach((banner, i) => {
+    const path = `gachaBanners[${i}]`;
+    const label = `Banner "${banner.name || banner.id}"`;
+    issues.checkGachaPool(banner, path, label, content.characters);
+    (banner.featuredIds ?? []).forEach((id, j) => {
+      if (!banner.characterPool.includes(id)) {
+        issues.warn(`${path}.featuredIds[${j}]`, `${label}: featured character "${id}" is not in its pool`);
+      }
+    });
+    if (banner.featuredRate !== undefined && !(banner.featuredRate >= 0 && banner.featuredRate <= 1)) {
+      issues.error(`${path}.featuredRate`, `${label}: featured rate must be between 0 and 1 (got ${banner.featuredRate})`);
+    }
+    if (banner.startsAt !== undefined && banner.endsAt !== undefined && banner.endsAt <= banner.startsAt) {
+      issues.error(`${path}.endsAt`, `${label} ends before it starts`);
+    }
+  });
+
+  // Gear
+  const gear = content.gearConfig;
+  if (gear) {
+    const isValidStat = (stat: string) => GEAR_STATS.includes(stat as GearStat);
+    issues.checkIds(gear.itemBases, 'gearConfig.itemBases', 'Item base');
+    gear.itemBases.forEach((base, i) => {
+      const path = `gearConfig.itemBases[${i}]`;
+      if (!GEAR_SLOTS.includes(base.slot)) issues.error(`${path}.slot`, `${base.name || base.id}: unknown slot "${base.slot}"`);
+      if (!isValidStat(base.mainStat)) {
+        issues.error(`${path}.mainStat`, `${base.name || base.id}: unknown stat "${base.mainStat}"`);
+      } else if (!(base.mainValue > 0)) {
+        issues.error(`${path}.mainValue`, `${base.name || base.id}: main stat value must be positive`);
+      }
+    });
+    if (gear.itemBases.length === 0) {
+      issues.warn('gearConfig.itemBases', 'No item bases: gear never drops');
+    }
+
+    issues.checkIds(gear.affixes, 'gearConfig.affixes', 'Affix');
+    gear.affixes.forEach((affix, i) => {
+      const path = `gearConfig.affixes[${i}]`;
+      if (!isValidStat(affix.stat)) {
+        issues.error(`${path}.stat`, `Affix "${affix.id}": unknown stat "${affix.stat}"`);
+      } else if (!(affix.min > 0 && affix.min <= affix.max)) {
+        issues.error(`${path}.min`, `Affix "${affix.id}": range must be positive with min ≤ max (got ${affix.min}–${affix.max})`);
+      } else if (isPercentGearStat(affix.stat) && affix.max >= 1) {
+        issues.warn(`${path}.max`, `Affix "${affix.id}": ${affix.stat} is a fraction, ${affix.max} means +${affix.max * 100}%`);
+      }
+      (affix.slots ?? []).forEach((slot, j) => {
+        if (!GEAR_SLOTS.includes(slot)) issues.error(`${path}.slots[${j}]`, `Affix "${affix.id}": unknown slot "${slot}"`);
+      });
+      if (affix.weight !== undefined && !(affix.weight >= 0)) {
+        issues.error(`${path}.weight`, `Affix "${affix.id}": weight must not be negative`);
+      }
+    });
+
+    let rateSum = 0;
+    for (const rarity of RARITIES) {
+      const rate = gear.rarityRates[rarity] ?? 0;
+      if (rate < 0) issues.error(`gearConfig.rarityRates.${rarity}`, `Gear rate for ${rarity} is negative`);
+      rateSum += rate;
+    }
+    if (Math.abs(rateSum - 1) > RATE_SUM_EPSILON) {
+      issues.error('gearConfig.rarityRates', `Gear rarity rates sum to ${rateSum.toFixed(4)} instead of 1`);
+    }
+    for (const key of ['roomDropChance', 'bossRoomDropChance', 'expeditionDropChancePerWave'] as const) {
+      if (!(gear[key] >= 0 && gear[key] <= 1)) {
+        issues.error(`gearConfig.${key}`, `Gear ${key} must be between 0 and 1 (got ${gear[key]})`);
+      }
+    }
+  }
+
+  // Synergies
+  if (content.synergies) {
+    const factions = new Set([...content.characters, ...content.enemies].flatMap((u) => u.factions ?? []));
+    issues.checkIds(content.synergies, 'synergies', 'Synergy');
+    content.synergies.forEach((synergy, i) => {
+      const path = `synergies[${i}]`;
+      const label = synergy.name || synergy.id;
+      if (synergy.type === 'role') {
+        if (!(synergy.key in ROLE_BASE_STATS)) issues.error(`${path}.key`, `${label}: unknown role "${synergy.key}"`);
+      } else if (synergy.type === 'faction') {
+        if (!synergy.key) issues.error(`${path}.key`, `${label}: faction tag is empty`);
+        else if (!factions.has(synergy.key)) issues.warn(`${path}.key`, `${label}: no character or enemy has faction "${synergy.key}"`);
+      } else {
+        issues.error(`${path}.type`, `${label}: unknown type "${synergy.type}"`);
+      }
+      if (synergy.tiers.length === 0) issues.warn(`${path}.tiers`, `${label} has no tiers and never activates`);
+      synergy.tiers.forEach((tier, j) => {
+        const tierPath = `${path}.tiers[${j}]`;
+        if (!(Number.isInteger(tier.count) && tier.count >= 1)) {
+          issues.error(`${tierPath}.count`, `${label}: unit count must be a whole number of at least 1 (got ${tier.count})`);
+        }
+        if (!SYNERGY_STATS.includes(tier.stat as SynergyStat)) {
+          issues.error(`${tierPath}.stat`, `${label}: unknown stat "${tier.stat}"`);
+        } else if (!(tier.value > 0) || (tier.stat === 'lifesteal' && tier.value > 1)) {
+          issues.error(`${tierPath}.value`, `${label}: ${tier.stat} bonus must be positive${tier.stat === 'lifesteal' ? ' and at most 1' : ''} (got ${tier.value})`);
+        }
+      });
+    });
+  }
+
+  // Daily dungeon
+  if (content.dailyDungeonId && !dungeonIds.has(content.dailyDungeonId)) {
+    issues.error('dailyDungeonId', `Daily dungeon "${content.dailyDungeonId}" does not exist`);
+  }
+  for (const [date, dungeonId] of Object.entries(content.dailyDungeonSchedule ?? {})) {
+    const path = `dailyDungeonSchedule.${date}`;
+    if (!DATE_KEY_PATTERN.test(date)) {
+      issues.warn(path, `Schedule date "${date}" is not YYYY-MM-DD and will never match`);
+    }
+    if (!dungeonIds.has(dungeonId)) {
+      issues.error(path, `Scheduled dungeon "${dungeonId}" for ${date} does not exist`);
+    }
+  }
+
+  // Progression
+  (content.levelThresholds ?? []).forEach((xp, i) => {
+    if (!(xp > 0)) issues.error(`levelThresholds[${i}]`, `XP threshold for level ${i + 2} must be positive`);
+  });
+
+  return { errors: issues.errors, warnings: issues.warnings };
+}
+
+/** One-line summary of a validation result, e.g. "2 errors, 1 warning" */
+export function summarizeValidation(result: ContentValidationResult): string {
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  return `${plural(result.errors.length, 'error')}, ${plural(result.warnings.length, 'warning')}`;
+}
@@ -0,0 +1,22 @@
+/**
+ * Replay download
+ * Browser-only helper that saves a battle replay as a JSON file (kept out of
+ * src/lib/game so the engine stays DOM-free for headless scripts).
+ */
+
+import type { BattleReplay } from '../game/replay';
+
+/** Download a replay as a JSON file */
+export function downloadReplay(replay: BattleReplay, filename?: string): void {
+  const json = JSON.stringify(replay, null, 2);
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename ?? `battle-replay-${replay.seed}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
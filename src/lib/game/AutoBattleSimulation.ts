@@ -1,16 +1,71 @@
 import { Character } from './Character';
 import { SeededRNG } from './rng';
-import type { AbilityDefinition } from './abilities';
+import { assignFormation } from './formation';
+import { getColumnUnits, getFrontRowUnits, getReachableUnits, rowDepth } from './positioning';
 import {
+  DEFAULT_ABILITIES,
+  getAbilitiesForRole,
+  type AbilityDefinition,
+  type AbilityEffect,
+} from './abilities';
+import {
+  getDamageTypeMultiplier,
+  getEffectiveness,
+  type DamageType,
+  type HitEffectiveness,
+  type Resistances,
+} from './elements';
+import {
+  checkGambitConditions,
+  createDefaultGambit,
+  requiresBossTarget,
+  type AbilityGambit,
+  type GambitContext,
+} from './gambits';
+import { createUnitBattleStats, type UnitBattleStats } from './battleStats';
+import { BATTLE_SNAPSHOT_INTERVAL } from './battleLog';
+import {
+  BOSS_PHASE_SHIELD_DURATION,
+  getPhasesToEnter,
+  sortBossPhases,
+  type BossEnrage,
+  type BossPhase,
+} from './bossPhases';
+import {
+  applySynergyStats,
+  getSynergyBonuses,
+  getTeamSynergies,
+  type ActiveSynergy,
+  type SynergyDefinition,
+} from './synergies';
+import {
+  TRAIT_BOOST_DURATION,
+  TRAIT_BOOST_MAX_STACKS,
+  TRAIT_LOW_HP_THRESHOLD,
+  getTraitTriggerLimit,
+  type PassiveTrait,
+  type TraitTrigger,
+} from './traits';
+import {
+  type AbilityTriggerMode,
+  type ActionDelta,
+  type ActiveStatusEffect,
+  type BattleSnapshot,
   type CombatState,
   type CombatAction,
   type BattleResult,
   type Position,
   type Role,
   type SpriteSet,
+  type SpriteSource,
+  type StatusEffectType,
+  type TurnOrderEntry,
+  type UnitSnapshot,
   COMBAT_CONSTANTS,
+  ROLE_ATTACK_REACH,
   ROLE_BASE_STATS,
   ROLE_PREFERRED_ROW,
+  STATUS_EFFECT_LABELS,
 } from './types';
 
 /** Summon template data passed into the simulation */
@@ -21,6 +76,10 @@ export interface SummonTemplate {
   level: number;
   ascension: number;
   sprites?: SpriteSet;
+  /** Ordered ability list (defaults to the role's ability) */
+  abilities?: AbilityGambit[];
+  resistances?: Resistances;
+  traits?: PassiveTrait[];
   statOverrides?: {
     hpMult?: number;
     atkMult?: number;
@@ -29,6 +88,79 @@ export interface SummonTemplate {
   };
 }
 
+/** A boss phase as run by the simulation (summon IDs resolved to templates) */
+export interface BattleBossPhase extends Omit<BossPhase, 'summonIds'> {
+  summons?: SummonTemplate[];
+}
+
+/** Boss script passed into the simulation */
+export interface BossScript {
+  phases: BattleBossPhase[];
+  enrage?: BossEnrage;
+}
+
+/** A player request recorded in manual mode: the unit casts an ability on its next action */
+export interface ManualInput {
+  /** Steps taken when the request was queued */
+  step: number;
+  unitId: string;
+}
+
+/** One unit turn of a stepwise battle */
+export interface BattleStep {
+  /** Unit that took the turn */
+  unitId: string;
+  /** Actions logged during the turn (the first step also carries battle-start traits) */
+  actions: CombatAction[];
+  /** Copies of every unit's combat state after the turn, player units first */
+  units: CombatState[];
+}
+
+/**
+ * Battle engine version — bump whenever a change alters the action log produced
+ * for the same teams, options and seed, so stored replays can detect it
+ */
+export const BATTLE_ENGINE_VERSION = 7;
+
+/** Optional battle configuration passed to the simulation */
+export interface BattleOptions {
+  /** Summoner configs: characterId -> { templates, maxSummons } */
+  summonerConfigs?: Map<string, { templates: SummonTemplate[]; maxSummons: number }>;
+  /** Custom role base stats */
+  customRoleStats?: Partial<Record<Role, { hp: number; atk: number; def: number; spd: number }>>;
+  /** Ability definitions (defaults to DEFAULT_ABILITIES when empty) */
+  abilityDefs?: AbilityDefinition[];
+  /**
+   * Ability ID override: characterId -> abilityId(s), each cast with the default
+   * trigger chance (takes precedence over the definition's ability list)
+   */
+  characterAbilityIds?: Map<string, string[]>;
+  /** IDs of boss units (span the 3x3 grid, at most MAX_BOSSES per team) */
+  bossIds?: Set<string>;
+  /** Boss scripts: characterId -> HP-threshold phases and enrage timer */
+  bossScripts?: Map<string, BossScript>;
+  /**
+   * HP overrides for player units (carry-over from previous rooms), before
+   * synergy bonuses: an active HP synergy scales both values
+   */
+  playerHpOverrides?: Map<string, { currentHp: number; maxHp: number }>;
+  /**
+   * Explicit player positions: characterId -> grid position (others are auto-placed)
+   * Check with validateFormation first: invalid or colliding positions make the constructor throw
+   */
+  playerPositions?: Map<string, Position>;
+  /** Explicit enemy positions: characterId -> grid position (same rules as playerPositions) */
+  enemyPositions?: Map<string, Position>;
+  /** How abilities trigger (default 'energy') */
+  abilityTrigger?: AbilityTriggerMode;
+  /** Team synergies, activated from each team's composition at battle start */
+  synergies?: SynergyDefinition[];
+  /** Manual mode: player units only cast abilities queued with queueAbility (enemies keep their AI) */
+  manualAbilities?: boolean;
+  /** Requests to replay in manual mode, each queued once its step is reached */
+  manualInputs?: ManualInput[];
+}
+
 /**
  * Auto-chess battle simulation engine
  * Deterministic combat using seeded RNG for reproducibility
@@ -41,11 +173,24 @@ export class AutoBattleSimulation {
   private characterNames: Map<string, string> = new Map();
   private characterRoles: Map<string, Role> = new Map();
   private characterSprites: Map<string, SpriteSet | undefined> = new Map();
+  /** Ability name from the character definition (legacy fallback when there is no ability list) */
+  private characterAbilityNames: Map<string, string> = new Map();
+  /** Ordered ability list from the character definition or summon template */
+  private characterGambits: Map<string, AbilityGambit[]> = new Map();
+  /** Damage type resistances from the character definition or summon template */
+  private characterResistances: Map<string, Resistances> = new Map();
+  /** Passive traits from the character definition or summon template */
+  private characterTraits: Map<string, PassiveTrait[]> = new Map();
+  /** Times each trait has fired: characterId -> traitId -> count */
+  private traitUses: Map<string, Map<string, number>> = new Map();
   private actionLog: CombatAction[] = [];
+  private turnOrder: TurnOrderEntry[] = [];
   private currentTurn: number = 0;
+  /** Current timeline tick */
+  private currentTick: number = 0;
 
-  /** Boss ability lists: characterId -> ability role keys */
-  private bossAbilityRoles: Map<string, Role[]> = new Map();
+  /** Action gauge per unit: characterId -> charge (the unit acts at ACTION_GAUGE_FULL) */
+  private actionGauge: Map<string, number> = new Map();
 
   /** Summoner data: characterId -> { summonTemplates, maxSummons, activeSummonIds } */
   private summonerData: Map<string, {
@@ -57,43 +202,94 @@ export class AutoBattleSimulation {
   /** Custom role base stats (overrides ROLE_BASE_STATS) */
   private customRoleStats?: Partial<Record<Role, { hp: number; atk: number; def: number; spd: number }>>;
 
-  /** Ability definitions for cooldown lookup */
+  /** Ability definitions used to resolve and execute unit abilities */
   private abilityDefs: AbilityDefinition[] = [];
 
-  /** Cooldown tracker: characterId -> turns remaining until ability is available (0 = ready) */
-  private cooldownTracker: Map<string, number> = new Map();
+  /** Cooldown tracker: characterId -> abilityId -> own turns remaining until available (0 = ready) */
+  private cooldownTracker: Map<string, Map<string, number>> = new Map();
 
   /** Character ability ID mapping: characterId -> abilityId(s) */
   private characterAbilityIds: Map<string, string[]> = new Map();
 
+  /** Resolved ability list per unit (lazily filled by getUnitGambits) */
+  private unitGambits: Map<string, { gambit: AbilityGambit; ability: AbilityDefinition }[]> = new Map();
+
+  /** Active status effects per unit: characterId -> effects */
+  private statusEffects: Map<string, ActiveStatusEffect[]> = new Map();
+
+  /** Number of units summoned so far (keeps summon IDs unique and deterministic) */
+  private summonCount: number = 0;
+
+  private readonly abilityTrigger: AbilityTriggerMode;
+
+  /** Energy changed since the last logged action: characterId -> new energy */
+  private pendingEnergy: Map<string, number> = new Map();
+
+  /** Cooldowns changed since the last logged action: characterId -> abilityId -> turns remaining */
+  private pendingCooldowns: Map<string, Record<string, number>> = new Map();
+
+  /** Unit state as of the last logged action, diffed into each action's delta */
+  private loggedStates: Map<string, { hp: number; isAlive: boolean; atk: number }> = new Map();
+
+  /** Full states taken every BATTLE_SNAPSHOT_INTERVAL actions (and before the first one) */
+  private snapshots: BattleSnapshot[] = [];
+
+  /** Synergies each team activated (set when synergies are configured) */
+  private activeSynergies?: { player: ActiveSynergy[]; enemy: ActiveSynergy[] };
+
+  /** Lifesteal from synergies: characterId -> fraction of damage dealt healed */
+  private lifesteal: Map<string, number> = new Map();
+
+  /** Boss scripts with phases sorted by HP threshold: characterId -> script */
+  private bossScripts: Map<string, BossScript> = new Map();
+
+  /** Boss phases started so far: characterId -> count */
+  private bossPhasesEntered: Map<string, number> = new Map();
+
+  /** Bosses that have enraged */
+  private enraged: Set<string> = new Set();
+
+  /** Combat totals: characterId -> stats */
+  private unitStats: Map<string, UnitBattleStats> = new Map();
+
+  /** Battle turn each unit entered and (once defeated) left the field: characterId -> turns */
+  private lifespans: Map<string, { joined: number; died?: number }> = new Map();
+
+  private readonly manualAbilities: boolean;
+
+  /** Recorded requests to replay, from BattleOptions.manualInputs */
+  private readonly scheduledInputs: ManualInput[];
+
+  /** Requests queued so far (recorded for replays) */
+  private manualInputs: ManualInput[] = [];
+
+  /** Player units with an ability queued for their next action */
+  private queuedAbilities: Set<string> = new Set();
+
+  /** Unit turns taken so far */
+  private stepCount = 0;
+
+  private started = false;
+  private finished = false;
+
   constructor(
     playerTeam: Character[],
     enemyTeam: Character[],
     seed: number,
-    options?: {
-      /** Boss ability role lists: characterId -> array of Role keys for ability selection */
-      bossAbilities?: Map<string, Role[]>;
-      /** Summoner configs: characterId -> { templates, maxSummons } */
-      summonerConfigs?: Map<string, { templates: SummonTemplate[]; maxSummons: number }>;
-      /** Custom role base stats */
-      customRoleStats?: Partial<Record<Role, { hp: number; atk: number; def: number; spd: number }>>;
-      /** Ability definitions (for cooldown lookup) */
-      abilityDefs?: AbilityDefinition[];
-      /** Character ability ID mapping: characterId -> abilityId(s) */
-      characterAbilityIds?: Map<string, string[]>;
-      /** IDs of boss units (occupy 3x3 visually) */
-      bossIds?: Set<string>;
-      /** HP overrides for player units (carry-over from previous rooms) */
-      playerHpOverrides?: Map<string, { currentHp: number; maxHp: number }>;
-    }
+    options?: BattleOptions
   ) {
     this.seed = seed;
     this.rng = new SeededRNG(seed);
     this.customRoleStats = options?.customRoleStats;
-    this.abilityDefs = options?.abilityDefs ?? [];
-    this.initializeTeams(playerTeam, enemyTeam, options?.bossIds);
-
-    // Apply HP overrides for player units (dungeon carry-over)
+    this.abilityTrigger = options?.abilityTrigger ?? 'energy';
+    this.manualAbilities = options?.manualAbilities ?? false;
+    this.scheduledInputs = options?.manualInputs ?? [];
+    this.abilityDefs = options?.abilityDefs && options.abilityDefs.length > 0
+      ? options.abilityDefs
+      : DEFAULT_ABILITIES;
+    this.initializeTeams(playerTeam, enemyTeam, options);
+
+    // Apply HP overrides for player units (dungeon carry-over) before synergies scale them
     if (options?.playerHpOverrides) {
       for (const [charId, hp] of options.playerHpOverrides) {
         const unit = this.playerUnits.get(charId);
@@ -104,9 +300,13 @@ export class AutoBattleSimulation {
       }
     }
 
-    if (options?.bossAbilities) {
-      this.bossAbilityRoles = options.bossAbilities;
+    if (options?.synergies) {
+      this.activeSynergies = {
+        player: this.applySynergies(playerTeam, options.synergies),
+        enemy: this.applySynergies(enemyTeam, options.synergies),
+      };
     }
+
     if (options?.summonerConfigs) {
       for (const [id, cfg] of options.summonerConfigs) {
         this.summonerData.set(id, {
@@ -119,63 +319,108 @@ export class AutoBattleSimulation {
     if (options?.characterAbilityIds) {
       this.characterAbilityIds = options.characterAbilityIds;
     }
+    for (const [id, script] of options?.bossScripts ?? []) {
+      this.bossScripts.set(id, { ...script, phases: sortBossPhases(script.phases) });
+    }
   }
 
-  /** Check if a unit's ability is off cooldown */
-  private isAbilityReady(characterId: string): boolean {
-    const cd = this.cooldownTracker.get(characterId);
+  /** Check if one of a unit's abilities is off cooldown */
+  private isAbilityReady(characterId: string, abilityId: string): boolean {
+    const cd = this.cooldownTracker.get(characterId)?.get(abilityId);
     return cd === undefined || cd <= 0;
   }
 
-  /** Set cooldown after ability use, based on the character's ability definition */
-  private setAbilityCooldown(characterId: string): void {
-    const abilityIds = this.characterAbilityIds.get(characterId);
-    if (!abilityIds || abilityIds.length === 0) return;
-    // Use the max cooldown from any of the character's abilities
-    let maxCd = 0;
-    for (const aid of abilityIds) {
-      const def = this.abilityDefs.find((a) => a.id === aid);
-      if (def?.cooldown && def.cooldown > maxCd) maxCd = def.cooldown;
-    }
-    if (maxCd > 0) {
-      this.cooldownTracker.set(characterId, maxCd);
+  /** Set cooldown after ability use, based on the used ability's definition */
+  private setAbilityCooldown(characterId: string, ability: AbilityDefinition): void {
+    if (ability.cooldown && ability.cooldown > 0) {
+      const cooldowns = this.cooldownTracker.get(characterId) ?? new Map<string, number>();
+      cooldowns.set(ability.id, ability.cooldown);
+      this.cooldownTracker.set(characterId, cooldowns);
+      this.markCooldown(characterId, ability.id, ability.cooldown);
     }
   }
 
-  /** Attach ability sprites to the most recent ability/heal/summon action log entry for a character */
-  private attachAbilitySprites(characterId: string): void {
-    // Search backwards for the most recent action with abilityUsed from this actor
-    // (death actions from checkDeath may have been appended after the ability action)
-    let last: CombatAction | undefined;
-    for (let i = this.actionLog.length - 1; i >= 0; i--) {
-      const entry = this.actionLog[i];
-      if (entry.actorId === characterId && entry.abilityUsed) {
-        last = entry;
-        break;
-      }
+  /**
+   * Resolve the ability list a unit casts from, in priority order:
+   * 1. explicit characterAbilityIds option (default trigger chance)
+   * 2. ability list of the character definition or summon template
+   * 3. ability matching the character definition's abilityName and role
+   * 4. first ability allowed for the unit's role
+   * Gambits referencing unknown abilities are dropped.
+   */
+  private getUnitGambits(characterId: string): { gambit: AbilityGambit; ability: AbilityDefinition }[] {
+    const cached = this.unitGambits.get(characterId);
+    if (cached) return cached;
+
+    const role = this.characterRoles.get(characterId)!;
+    const resolve = (gambits: AbilityGambit[]) => gambits.flatMap((gambit) => {
+      const ability = this.abilityDefs.find((a) => a.id === gambit.abilityId);
+      return ability ? [{ gambit, ability }] : [];
+    });
+
+    let resolved = resolve((this.characterAbilityIds.get(characterId) ?? []).map(createDefaultGambit));
+    if (resolved.length === 0) {
+      resolved = resolve(this.characterGambits.get(characterId) ?? []);
     }
-    if (!last) return;
 
-    // First try by explicit characterAbilityIds mapping
-    const abilityIds = this.characterAbilityIds.get(characterId);
-    if (abilityIds && abilityIds.length > 0) {
-      for (const aid of abilityIds) {
-        const def = this.abilityDefs.find((a) => a.id === aid);
-        if (def && (def.casterSprite || def.targetSprite)) {
-          if (def.casterSprite) last.abilityCasterSprite = def.casterSprite;
-          if (def.targetSprite) last.abilityTargetSprite = def.targetSprite;
-          return;
-        }
-      }
+    if (resolved.length === 0) {
+      const abilityName = this.characterAbilityNames.get(characterId)?.toLowerCase();
+      const byName = abilityName
+        ? this.abilityDefs.find((a) => a.name.toLowerCase() === abilityName && a.allowedRoles.includes(role))
+          ?? this.abilityDefs.find((a) => a.name.toLowerCase() === abilityName)
+        : undefined;
+      const fallback = byName ?? getAbilitiesForRole(this.abilityDefs, role)[0];
+      if (fallback) resolved = [{ gambit: createDefaultGambit(fallback.id), ability: fallback }];
     }
 
-    // Fallback: match by ability name (for built-in abilities like Taunt, Cleave, etc.)
-    const abilityName = last.abilityUsed!.toLowerCase();
-    const def = this.abilityDefs.find((a) => a.name.toLowerCase() === abilityName);
-    if (def) {
-      if (def.casterSprite) last.abilityCasterSprite = def.casterSprite;
-      if (def.targetSprite) last.abilityTargetSprite = def.targetSprite;
+    this.unitGambits.set(characterId, resolved);
+    return resolved;
+  }
+
+  /** Register a unit's combat state and display metadata */
+  private registerUnit(
+    state: CombatState,
+    name: string,
+    role: Role,
+    sprites: SpriteSet | undefined,
+    abilityName?: string,
+    gambits?: AbilityGambit[],
+    resistances?: Resistances,
+    traits?: PassiveTrait[]
+  ): void {
+    const units = state.team === 'player' ? this.playerUnits : this.enemyUnits;
+    units.set(state.characterId, state);
+    this.characterNames.set(state.characterId, name);
+    this.characterRoles.set(state.characterId, role);
+    this.characterSprites.set(state.characterId, sprites);
+    if (abilityName) this.characterAbilityNames.set(state.characterId, abilityName);
+    if (gambits && gambits.length > 0) this.characterGambits.set(state.characterId, gambits);
+    if (resistances) this.characterResistances.set(state.characterId, resistances);
+    if (traits && traits.length > 0) this.characterTraits.set(state.characterId, traits);
+    this.unitStats.set(state.characterId, createUnitBattleStats(state.characterId, name, state.team, state.isSummoned));
+    this.lifespans.set(state.characterId, { joined: this.currentTurn });
+  }
+
+  /**
+   * Activate a team's synergies: stat bonuses are folded into the combat
+   * states, lifesteal is tracked per unit
+   * @returns the active synergies
+   */
+  private applySynergies(team: Character[], synergies: SynergyDefinition[]): ActiveSynergy[] {
+    const active = getTeamSynergies(team, synergies);
+    for (const [id, bonuses] of getSynergyBonuses(active)) {
+      const state = this.playerUnits.get(id) ?? this.enemyUnits.get(id);
+      if (!state) continue;
+      const stats = applySynergyStats({ hp: state.maxHp, atk: state.atk, def: state.def, spd: state.spd }, bonuses);
+      // Carried-over HP keeps its share of the boosted maximum
+      state.currentHp = Math.floor((state.currentHp * stats.hp) / state.maxHp);
+      state.maxHp = stats.hp;
+      state.atk = stats.atk;
+      state.def = stats.def;
+      state.spd = stats.spd;
+      if (bonuses.lifesteal) this.lifesteal.set(id, bonuses.lifesteal);
     }
+    return active;
   }
 
   /** Get base stats for a role (custom or default) */
@@ -185,156 +430,209 @@ export class AutoBattleSimulation {
 
   /**
    * Initialize combat states for both teams
-   * Assigns positions based on role preferences
+   * Honors explicit positions, auto-places the rest by role preference
    */
-  private initializeTeams(playerTeam: Character[], enemyTeam: Character[], bossIds?: Set<string>): void {
+  private initializeTeams(
+    playerTeam: Character[],
+    enemyTeam: Character[],
+    options?: BattleOptions
+  ): void {
+    const bossIds = options?.bossIds;
     const assignPositions = (
       team: Character[],
-      teamType: 'player' | 'enemy'
+      teamType: 'player' | 'enemy',
+      positions?: Map<string, Position>
     ): void => {
-      // Sort by preferred row for better positioning
+      const teamBossIds = teamType === 'enemy' ? bossIds : undefined;
+      const placement = assignFormation(team, positions, teamBossIds);
+      if (typeof placement === 'string') {
+        throw new Error(`Invalid ${teamType} formation: ${placement}`);
+      }
+
+      // Register in role order (bosses first) so turn order ties stay stable
       const sorted = [...team].sort(
         (a, b) => ROLE_PREFERRED_ROW[a.role] - ROLE_PREFERRED_ROW[b.role]
       );
-
-      const usedPositions = new Set<string>();
-      const hasBoss = teamType === 'enemy' && bossIds && bossIds.size > 0;
-
-      // If enemy team has a boss, place boss at (0,0) and reserve rows 0-2
-      if (hasBoss) {
-        const bossChars = sorted.filter(c => bossIds.has(c.id));
-        const nonBoss = sorted.filter(c => !bossIds.has(c.id));
-
-        for (const char of bossChars) {
-          const position: Position = { row: 0, col: 0 };
-          // Mark rows 0-2 as used (boss visual 3x3 area)
-          for (let r = 0; r <= 2; r++) {
-            for (let c = 0; c <= 2; c++) {
-              usedPositions.add(`${r},${c}`);
-            }
-          }
-          const state = char.createCombatState(teamType, position);
-          state.isBoss = true;
-          const units = this.enemyUnits;
-          units.set(char.id, state);
-          this.characterNames.set(char.id, char.name);
-          this.characterRoles.set(char.id, char.role);
-          this.characterSprites.set(char.id, char.definition.sprites);
-        }
-
-        // Non-boss enemies go to row 3
-        for (const char of nonBoss) {
-          let position: Position | null = null;
-          for (let col = 0; col <= 2 && !position; col++) {
-            const posKey = `3,${col}`;
-            if (!usedPositions.has(posKey)) {
-              position = { row: 3, col: col as 0 | 1 | 2 };
-              usedPositions.add(posKey);
-            }
-          }
-          if (position) {
-            const state = char.createCombatState(teamType, position);
-            const units = this.enemyUnits;
-            units.set(char.id, state);
-            this.characterNames.set(char.id, char.name);
-            this.characterRoles.set(char.id, char.role);
-            this.characterSprites.set(char.id, char.definition.sprites);
-          }
-        }
-        return;
+      const ordered = teamBossIds && teamBossIds.size > 0
+        ? [...sorted.filter(c => teamBossIds.has(c.id)), ...sorted.filter(c => !teamBossIds.has(c.id))]
+        : sorted;
+
+      for (const char of ordered) {
+        const position = placement.get(char.id);
+        if (!position) continue;
+        const state = char.createCombatState(teamType, position);
+        if (teamBossIds?.has(char.id)) state.isBoss = true;
+        const def = char.definition;
+        this.registerUnit(state, char.name, char.role, def.sprites, def.abilityName, def.abilities, def.resistances, def.traits);
       }
-
-      sorted.forEach((char, index) => {
-        const preferredRow = char.preferredRow;
-        let position: Position | null = null;
-
-        // Try to place in preferred row first
-        for (let col = 0; col <= 2 && !position; col++) {
-          const posKey = `${preferredRow},${col}`;
-          if (!usedPositions.has(posKey)) {
-            position = { row: preferredRow, col: col as 0 | 1 | 2 };
-            usedPositions.add(posKey);
-          }
-        }
-
-        // If preferred row is full, find any available position
-        if (!position) {
-          for (let row = 0; row <= 2 && !position; row++) {
-            for (let col = 0; col <= 2 && !position; col++) {
-              const posKey = `${row},${col}`;
-              if (!usedPositions.has(posKey)) {
-                position = { row: row as 0 | 1 | 2, col: col as 0 | 1 | 2 };
-                usedPositions.add(posKey);
-              }
-            }
-          }
-        }
-
-        if (position) {
-          const state = char.createCombatState(teamType, position);
-          const units = teamType === 'player' ? this.playerUnits : this.enemyUnits;
-          units.set(char.id, state);
-          this.characterNames.set(char.id, char.name);
-          this.characterRoles.set(char.id, char.role);
-          this.characterSprites.set(char.id, char.definition.sprites);
-        }
-      });
     };
 
-    assignPositions(playerTeam, 'player');
-    assignPositions(enemyTeam, 'enemy');
+    assignPositions(playerTeam, 'player', options?.playerPositions);
+    assignPositions(enemyTeam, 'enemy', options?.enemyPositions);
   }
 
   /**
    * Run the complete battle simulation
+   * Units act on a shared timeline until one side falls or the time budget
+   * (MAX_TURNS turns of TICKS_PER_TURN ticks) runs out.
    */
   simulate(): BattleResult {
-    while (this.currentTurn < COMBAT_CONSTANTS.MAX_TURNS) {
-      this.currentTurn++;
+    while (this.step()) {
+      // Run every turn
+    }
+    return this.generateResult();
+  }
 
-      const battleContinues = this.executeTurn();
-      if (!battleContinues) {
-        break;
-      }
+  /**
+   * Run the next unit turn (battle-start traits fire before the first one)
+   * Recorded manual inputs due at this step are queued first.
+   * @returns the turn's actions and unit states, or null once the battle is over
+   */
+  step(): BattleStep | null {
+    if (this.finished) return null;
+    const from = this.actionLog.length;
+    if (!this.started) {
+      this.started = true;
+      this.markLogged();
+      this.snapshots.push(this.takeSnapshot());
+      for (const unit of this.getAllAliveUnits()) this.triggerTraits(unit, 'battle_start');
+    }
+    for (const input of this.scheduledInputs) {
+      if (input.step === this.stepCount) this.queueAbility(input.unitId);
+    }
+
+    const actor = this.isBattleOver() ? null : this.advanceTimeline();
+    if (!actor) {
+      this.finished = true;
+      return null;
     }
+    this.executeTurn(actor);
+    this.stepCount++;
+    return {
+      unitId: actor.characterId,
+      actions: this.actionLog.slice(from),
+      units: this.getAllUnits().map((u) => ({ ...u, position: { ...u.position } })),
+    };
+  }
+
+  /** Step through the battle turn by turn, returning the result once it is over */
+  *steps(): Generator<BattleStep, BattleResult> {
+    for (let step = this.step(); step; step = this.step()) yield step;
+    return this.generateResult();
+  }
 
+  /** Whether the battle has ended (steps return null from then on) */
+  get isOver(): boolean {
+    return this.finished;
+  }
+
+  /** Result of the battle so far (final once isOver) */
+  getResult(): BattleResult {
     return this.generateResult();
   }
 
+  /** Player units with an ability queued for their next action */
+  get queuedAbilityIds(): string[] {
+    return [...this.queuedAbilities];
+  }
+
+  /**
+   * Manual mode: make a living player unit cast its first castable ability
+   * on its next action, ignoring gambit conditions (a basic attack if none is castable)
+   * @returns an error message, or null once queued (and recorded for replays)
+   */
+  queueAbility(unitId: string): string | null {
+    if (!this.manualAbilities) return 'Manual abilities are disabled for this battle';
+    if (this.finished) return 'The battle is over';
+    if (!this.playerUnits.get(unitId)?.isAlive) return `No living player unit "${unitId}"`;
+    if (this.queuedAbilities.has(unitId)) return null;
+    this.queuedAbilities.add(unitId);
+    this.manualInputs.push({ step: this.stepCount, unitId });
+    return null;
+  }
+
   /**
-   * Execute a single turn of combat
-   * @returns false if battle should end
+   * Advance time until a unit's action gauge is full
+   * Ties within a tick go to the fullest gauge, then higher SPD, then player
+   * units, then registration order.
+   * @returns the unit to act next, or null once the time budget is spent
    */
-  private executeTurn(): boolean {
-    // Decrement cooldowns for all units at the start of each turn
-    for (const [id, cd] of this.cooldownTracker) {
-      if (cd > 0) this.cooldownTracker.set(id, cd - 1);
+  private advanceTimeline(): CombatState | null {
+    const { ACTION_GAUGE_FULL, MAX_TURNS, TICKS_PER_TURN } = COMBAT_CONSTANTS;
+    const units = this.getAllAliveUnits();
+
+    let wait = Infinity;
+    for (const unit of units) {
+      const spd = this.getEffectiveStat(unit, 'spd');
+      if (spd <= 0) continue;
+      const missing = ACTION_GAUGE_FULL - (this.actionGauge.get(unit.characterId) ?? 0);
+      wait = Math.min(wait, Math.max(0, Math.ceil(missing / spd)));
     }
 
-    // Get all alive units sorted by SPD (initiative)
-    const allUnits = this.getAllAliveUnits();
+    const timeBudget = MAX_TURNS * TICKS_PER_TURN;
+    if (this.currentTick + wait > timeBudget) {
+      this.currentTick = timeBudget;
+      this.currentTurn = MAX_TURNS;
+      return null;
+    }
 
-    if (allUnits.length === 0) return false;
+    if (wait > 0) {
+      for (const unit of units) {
+        const gauge = this.actionGauge.get(unit.characterId) ?? 0;
+        this.actionGauge.set(unit.characterId, gauge + this.getEffectiveStat(unit, 'spd') * wait);
+      }
+      this.currentTick += wait;
+      this.currentTurn = Math.ceil(this.currentTick / TICKS_PER_TURN);
+    }
 
-    // Sort by SPD descending (faster units act first)
-    // Tie-breaker: player units go first
-    allUnits.sort((a, b) => {
-      if (b.spd !== a.spd) return b.spd - a.spd;
-      if (a.team !== b.team) return a.team === 'player' ? -1 : 1;
-      return 0;
-    });
+    let next: CombatState | null = null;
+    let nextGauge = 0;
+    for (const unit of units) {
+      const gauge = this.actionGauge.get(unit.characterId) ?? 0;
+      if (gauge < ACTION_GAUGE_FULL) continue;
+      if (!next || gauge > nextGauge || (gauge === nextGauge && this.actsBefore(unit, next))) {
+        next = unit;
+        nextGauge = gauge;
+      }
+    }
+    return next;
+  }
 
-    for (const unit of allUnits) {
-      // Skip if unit died this turn
-      if (!unit.isAlive) continue;
+  /** Tie-break between two units ready on the same tick with equal gauges */
+  private actsBefore(a: CombatState, b: CombatState): boolean {
+    const spdA = this.getEffectiveStat(a, 'spd');
+    const spdB = this.getEffectiveStat(b, 'spd');
+    if (spdA !== spdB) return spdA > spdB;
+    // getAllAliveUnits lists players first, in registration order
+    return false;
+  }
 
-      // Check if battle is over
-      if (this.isBattleOver()) return false;
+  /**
+   * Take one unit's turn and spend its action gauge
+   * Cooldowns tick down on the unit's own turns, like status effect durations.
+   */
+  private executeTurn(unit: CombatState): void {
+    this.actionGauge.set(
+      unit.characterId,
+      (this.actionGauge.get(unit.characterId) ?? 0) - COMBAT_CONSTANTS.ACTION_GAUGE_FULL
+    );
+    this.turnOrder.push({ tick: this.currentTick, unitId: unit.characterId, actionIndex: this.actionLog.length });
 
-      this.executeAction(unit);
+    const cooldowns = this.cooldownTracker.get(unit.characterId);
+    for (const [abilityId, cd] of cooldowns ?? []) {
+      if (cd <= 0) continue;
+      cooldowns!.set(abilityId, cd - 1);
+      this.markCooldown(unit.characterId, abilityId, cd - 1);
     }
+    this.gainEnergy(unit, COMBAT_CONSTANTS.ENERGY_REGEN_PER_TURN);
+    this.triggerTraits(unit, 'turn_start');
+    this.checkEnrage(unit);
 
-    return !this.isBattleOver();
+    // Damage over time and stun resolve before the unit acts
+    if (this.processTurnStart(unit)) {
+      this.executeAction(unit);
+    }
+    this.processTurnEnd(unit);
   }
 
   /**
@@ -344,58 +642,45 @@ export class AutoBattleSimulation {
     const role = this.characterRoles.get(actor.characterId)!;
     const actorName = this.characterNames.get(actor.characterId)!;
 
-    const abilityReady = this.isAbilityReady(actor.characterId);
-
-    // Summoners try to summon first
-    if (role === 'summoner' && abilityReady) {
-      const sumData = this.summonerData.get(actor.characterId);
-      if (sumData && sumData.templates.length > 0) {
-        // Remove dead summons from active set
-        for (const sid of sumData.activeSummonIds) {
-          const sUnit = this.playerUnits.get(sid) ?? this.enemyUnits.get(sid);
-          if (!sUnit || !sUnit.isAlive) sumData.activeSummonIds.delete(sid);
+    if (this.manualAbilities && actor.team === 'player') {
+      // Player units only cast what the player queued, skipping gambit conditions
+      if (this.queuedAbilities.delete(actor.characterId)) {
+        for (const { ability } of this.getUnitGambits(actor.characterId)) {
+          if (!this.isAbilityReady(actor.characterId, ability.id) || !this.hasEnergyFor(actor, ability)) continue;
+          if (this.executeAbility(actor, ability, actorName)) {
+            this.setAbilityCooldown(actor.characterId, ability);
+            return;
+          }
         }
-        if (sumData.activeSummonIds.size < sumData.maxSummons &&
-            this.rng.chance(COMBAT_CONSTANTS.ABILITY_TRIGGER_CHANCE)) {
-          this.executeSummon(actor, sumData, actorName);
-          this.attachAbilitySprites(actor.characterId);
-          this.setAbilityCooldown(actor.characterId);
+      }
+    } else {
+      // Cast the first ability that is ready, whose conditions hold and that finds a target
+      for (const { gambit, ability } of this.getUnitGambits(actor.characterId)) {
+        if (!this.isAbilityReady(actor.characterId, ability.id) || !this.hasEnergyFor(actor, ability)) continue;
+        if (!checkGambitConditions(gambit, this.getGambitContext(actor))) continue;
+        if (this.executeAbility(actor, ability, actorName, requiresBossTarget(gambit))) {
+          this.setAbilityCooldown(actor.characterId, ability);
           return;
         }
       }
     }
 
-    // Healers try to heal first
-    if (role === 'healer' && abilityReady) {
-      const healTarget = this.findHealTarget(actor);
-      if (healTarget && this.rng.chance(COMBAT_CONSTANTS.ABILITY_TRIGGER_CHANCE)) {
-        this.executeHeal(actor, healTarget, actorName);
-        this.attachAbilitySprites(actor.characterId);
-        this.setAbilityCooldown(actor.characterId);
-        return;
-      }
-    }
-
-    // Find target based on role targeting rules
+    // Fall back to a basic attack using role targeting rules
     const target = this.findTarget(actor, role);
     if (!target) return;
+    this.executeBasicAttack(actor, target, actorName);
+  }
 
-    // Check for ability trigger (only if not on cooldown)
-    const useAbility = abilityReady && this.rng.chance(COMBAT_CONSTANTS.ABILITY_TRIGGER_CHANCE);
-
-    if (useAbility) {
-      // Boss: pick a random ability role from their list
-      const bossRoles = this.bossAbilityRoles.get(actor.characterId);
-      if (bossRoles && bossRoles.length > 0) {
-        const abilityRole = bossRoles[this.rng.randomInt(0, bossRoles.length - 1)];
-        this.executeAbility(actor, target, abilityRole, actorName);
-      } else {
-        this.executeAbility(actor, target, role, actorName);
-      }
-      this.setAbilityCooldown(actor.characterId);
-    } else {
-      this.executeBasicAttack(actor, target, actorName);
-    }
+  /** Battle state a unit's gambit conditions are checked against */
+  private getGambitContext(actor: CombatState): GambitContext {
+    const hpRatio = (u: CombatState) => u.currentHp / u.maxHp;
+    return {
+      selfHpRatio: hpRatio(actor),
+      lowestAllyHpRatio: Math.min(...this.getAllyUnits(actor.team).map(hpRatio)),
+      enemiesAlive: this.getEnemyUnits(actor.team).length,
+      roll: () => this.rng.random(),
+      ignoreChance: this.abilityTrigger === 'energy',
+    };
   }
 
   /**
@@ -407,12 +692,16 @@ export class AutoBattleSimulation {
     actorName: string
   ): void {
     const targetName = this.characterNames.get(target.characterId)!;
-    const { damage, isCritical } = this.calculateDamage(actor.atk, target.def);
-
-    target.currentHp = Math.max(0, target.currentHp - damage);
-
-    this.actionLog.push({
+    const hit = this.calculateHit(this.getEffectiveStat(actor, 'atk'), target, 'physical', false);
+    const { isCritical, effectiveness } = hit;
+    const { damage, absorbed } = this.applyDamage(target, hit.damage);
+    this.recordDamage(actor.characterId, target, damage, hit);
+    const lifesteal = this.drainLife(actor, damage);
+    this.gainEnergy(actor, COMBAT_CONSTANTS.ENERGY_PER_ATTACK);
+
+    this.logAction({
       turn: this.currentTurn,
+      tick: this.currentTick,
       actorId: actor.characterId,
       actorName,
       actionType: 'attack',
@@ -420,227 +709,261 @@ export class AutoBattleSimulation {
       targetName,
       damage,
       isCritical,
-      message: isCritical
+      ...(effectiveness && { effectiveness }),
+      ...(absorbed > 0 && { absorbed }),
+      ...(lifesteal > 0 && { lifesteal }),
+      message: (isCritical
         ? `${actorName} CRITICALLY hits ${targetName} for ${damage} damage!`
-        : `${actorName} attacks ${targetName} for ${damage} damage`,
+        : `${actorName} attacks ${targetName} for ${damage} damage`)
+        + this.formatAbsorbed(absorbed) + this.formatEffectiveness(effectiveness) + this.formatLifesteal(actorName, lifesteal),
     });
 
-    this.checkDeath(target);
+    this.resolveHit(target, actor);
+    this.triggerTraits(target, 'on_hit', actor, damage);
   }
 
   /**
-   * Execute a role-specific ability
+   * Execute an ability from its definition
+   * @param bossOnly only cast if one of the targets is a boss
+   * @returns false if the ability had no valid target (caller tries the next ability)
    */
   private executeAbility(
     actor: CombatState,
-    target: CombatState,
-    role: Role,
-    actorName: string
-  ): void {
-    const targetName = this.characterNames.get(target.characterId)!;
-
-    switch (role) {
-      case 'tank':
-        this.executeTauntAttack(actor, target, actorName, targetName);
-        break;
-      case 'warrior':
-        this.executeCleave(actor, actorName);
-        break;
-      case 'archer':
-        this.executeMultishot(actor, actorName);
+    ability: AbilityDefinition,
+    actorName: string,
+    bossOnly = false
+  ): boolean {
+    let cast: boolean;
+    switch (ability.targeting) {
+      case 'heal_lowest_ally':
+        cast = this.executeHeal(actor, ability, actorName, bossOnly);
         break;
-      case 'mage':
-        this.executeFireball(actor, target, actorName, targetName);
+      case 'summon_unit':
+        cast = !bossOnly && this.executeSummon(actor, ability, actorName);
         break;
-      case 'assassin':
-        this.executeBackstab(actor, target, actorName, targetName);
-        break;
-      case 'summoner':
       default:
-        this.executeBasicAttack(actor, target, actorName);
+        cast = this.executeDamageAbility(actor, ability, actorName, bossOnly);
+    }
+    if (cast) this.unitStats.get(actor.characterId)!.abilitiesCast++;
+    return cast;
+  }
+
+  /**
+   * Select enemy targets for a damaging ability based on its targeting mode
+   */
+  private selectAbilityTargets(actor: CombatState, ability: AbilityDefinition): CombatState[] {
+    const enemies = this.getReachableEnemies(actor);
+    if (enemies.length === 0) return [];
+    const count = Math.max(1, ability.targetCount);
+
+    // Taunting enemies draw every single-target ability
+    const taunter = this.findTauntingUnit(enemies);
+    if (taunter && ability.targeting.startsWith('single_')) return [taunter];
+
+    switch (ability.targeting) {
+      case 'single_closest':
+        return [this.findClosestEnemy(enemies)];
+      case 'single_lowest_hp':
+        return [this.findLowestHpEnemy(enemies)];
+      case 'single_back_row':
+        return [this.findBackRowEnemy(enemies)];
+      case 'aoe_first_n':
+        // Front-most enemies first (row, then column)
+        return enemies
+          .sort((a, b) => rowDepth(a.position) - rowDepth(b.position) || a.position.col - b.position.col)
+          .slice(0, count);
+      case 'aoe_random_n':
+        return this.rng.shuffle([...enemies]).slice(0, count);
+      case 'aoe_column': {
+        // Pierces through the closest enemy's column, past the front line
+        const col = this.findClosestEnemy(enemies).position.col;
+        return getColumnUnits(this.getEnemyUnits(actor.team), col).slice(0, count);
+      }
+      case 'aoe_row':
+        return getFrontRowUnits(enemies)
+          .sort((a, b) => a.position.col - b.position.col)
+          .slice(0, count);
+      default:
+        return [];
     }
-    this.attachAbilitySprites(actor.characterId);
   }
 
-  private executeTauntAttack(
+  /**
+   * Damage ability: single-target modes log target fields, AoE modes log aoeTargets
+   */
+  private executeDamageAbility(
     actor: CombatState,
-    target: CombatState,
+    ability: AbilityDefinition,
     actorName: string,
-    targetName: string
-  ): void {
-    const { damage, isCritical } = this.calculateDamage(actor.atk * 0.7, target.def);
-    target.currentHp = Math.max(0, target.currentHp - damage);
-
-    this.actionLog.push({
-      turn: this.currentTurn,
-      actorId: actor.characterId,
-      actorName,
-      actionType: 'ability',
-      targetId: target.characterId,
-      targetName,
-      damage,
-      isCritical,
-      abilityUsed: 'Taunt',
-      message: `${actorName} uses Taunt on ${targetName} for ${damage} damage and draws attention!`,
+    bossOnly: boolean
+  ): boolean {
+    const targets = this.selectAbilityTargets(actor, ability);
+    if (targets.length === 0 || (bossOnly && !targets.some((t) => t.isBoss))) return false;
+    this.spendEnergy(actor, ability);
+
+    const isAoe = ability.targeting.startsWith('aoe_');
+    const atk = this.getEffectiveStat(actor, 'atk');
+    const hits = targets.map((target) => {
+      const hit = this.calculateHit(atk * ability.powerMultiplier, target, ability.damageType ?? 'physical', ability.ignoreDefense);
+      const { damage, absorbed } = this.applyDamage(target, hit.damage);
+      this.recordDamage(actor.characterId, target, damage, hit);
+      return { target, damage, absorbed, isCritical: hit.isCritical, effectiveness: hit.effectiveness };
     });
+    const lifesteal = this.drainLife(actor, hits.reduce((sum, h) => sum + h.damage, 0));
 
-    this.checkDeath(target);
-  }
-
-  private executeCleave(actor: CombatState, actorName: string): void {
-    const enemies = this.getEnemyUnits(actor.team);
-    const targets = enemies.slice(0, 3); // Hit up to 3 enemies
-
-    let totalDamage = 0;
-    const hitTargets: string[] = [];
-    const aoeTargets: { id: string; damage: number }[] = [];
-
-    for (const target of targets) {
-      const { damage } = this.calculateDamage(actor.atk * 0.6, target.def);
-      target.currentHp = Math.max(0, target.currentHp - damage);
-      totalDamage += damage;
-      hitTargets.push(this.characterNames.get(target.characterId)!);
-      aoeTargets.push({ id: target.characterId, damage });
-      this.checkDeath(target);
+    if (isAoe) {
+      const totalDamage = hits.reduce((sum, h) => sum + h.damage, 0);
+      const totalAbsorbed = hits.reduce((sum, h) => sum + h.absorbed, 0);
+      const hitNames = hits.map((h) => this.characterNames.get(h.target.characterId)!);
+      this.logAction({
+        turn: this.currentTurn,
+        tick: this.currentTick,
+        actorId: actor.characterId,
+        actorName,
+        actionType: 'ability',
+        damage: totalDamage,
+        isCritical: hits.some((h) => h.isCritical),
+        abilityUsed: ability.name,
+        abilityCasterSprite: ability.casterSprite,
+        abilityTargetSprite: ability.targetSprite,
+        ...(totalAbsorbed > 0 && { absorbed: totalAbsorbed }),
+        ...(lifesteal > 0 && { lifesteal }),
+        aoeTargets: hits.map((h) => ({
+          id: h.target.characterId,
+          damage: h.damage,
+          ...(h.absorbed > 0 && { absorbed: h.absorbed }),
+          ...(h.effectiveness && { effectiveness: h.effectiveness }),
+        })),
+        message: `${actorName} uses ${ability.name} hitting ${hitNames.join(', ')} for ${totalDamage} total damage!`
+          + this.formatAbsorbed(totalAbsorbed) + this.formatAoeEffectiveness(hits) + this.formatLifesteal(actorName, lifesteal),
+      });
+    } else {
+      const { target, damage, absorbed, isCritical, effectiveness } = hits[0];
+      const targetName = this.characterNames.get(target.characterId)!;
+      this.logAction({
+        turn: this.currentTurn,
+        tick: this.currentTick,
+        actorId: actor.characterId,
+        actorName,
+        actionType: 'ability',
+        targetId: target.characterId,
+        targetName,
+        damage,
+        isCritical,
+        ...(effectiveness && { effectiveness }),
+        abilityUsed: ability.name,
+        abilityCasterSprite: ability.casterSprite,
+        abilityTargetSprite: ability.targetSprite,
+        ...(absorbed > 0 && { absorbed }),
+        ...(lifesteal > 0 && { lifesteal }),
+        message: `${actorName} uses ${ability.name} on ${targetName} for ${damage} damage${ability.ignoreDefense ? ', ignoring armor' : ''}!`
+          + this.formatAbsorbed(absorbed) + this.formatEffectiveness(effectiveness) + this.formatLifesteal(actorName, lifesteal),
+      });
     }
 
-    this.actionLog.push({
-      turn: this.currentTurn,
-      actorId: actor.characterId,
-      actorName,
-      actionType: 'ability',
-      damage: totalDamage,
-      abilityUsed: 'Cleave',
-      aoeTargets,
-      message: `${actorName} uses Cleave hitting ${hitTargets.join(', ')} for ${totalDamage} total damage!`,
-    });
-  }
-
-  private executeMultishot(actor: CombatState, actorName: string): void {
-    const enemies = this.getEnemyUnits(actor.team);
-    const targets = this.rng.shuffle([...enemies]).slice(0, 2); // Hit 2 random enemies
-
-    let totalDamage = 0;
-    const hitTargets: string[] = [];
-    const aoeTargets: { id: string; damage: number }[] = [];
-
-    for (const target of targets) {
-      const { damage } = this.calculateDamage(actor.atk * 0.7, target.def);
-      target.currentHp = Math.max(0, target.currentHp - damage);
-      totalDamage += damage;
-      hitTargets.push(this.characterNames.get(target.characterId)!);
-      aoeTargets.push({ id: target.characterId, damage });
-      this.checkDeath(target);
+    for (const h of hits) {
+      this.resolveHit(h.target, actor);
+      this.triggerTraits(h.target, 'on_hit', actor, h.damage);
     }
-
-    this.actionLog.push({
-      turn: this.currentTurn,
-      actorId: actor.characterId,
-      actorName,
-      actionType: 'ability',
-      damage: totalDamage,
-      abilityUsed: 'Multi-shot',
-      aoeTargets,
-      message: `${actorName} uses Multi-shot hitting ${hitTargets.join(', ')} for ${totalDamage} total damage!`,
-    });
+    this.applyAbilityEffects(actor, ability, targets);
+    return true;
   }
 
-  private executeFireball(
+  /**
+   * Execute heal ability on the most wounded allies below the heal threshold
+   */
+  private executeHeal(
     actor: CombatState,
-    target: CombatState,
+    ability: AbilityDefinition,
     actorName: string,
-    targetName: string
-  ): void {
-    // Fireball does 1.5x damage
-    const { damage, isCritical } = this.calculateDamage(actor.atk * 1.5, target.def);
-    target.currentHp = Math.max(0, target.currentHp - damage);
-
-    this.actionLog.push({
-      turn: this.currentTurn,
-      actorId: actor.characterId,
-      actorName,
-      actionType: 'ability',
-      targetId: target.characterId,
-      targetName,
-      damage,
-      isCritical,
-      abilityUsed: 'Fireball',
-      message: `${actorName} hurls a Fireball at ${targetName} for ${damage} damage!`,
-    });
+    bossOnly: boolean
+  ): boolean {
+    const targets = this.findHealTargets(actor, ability.healThreshold, Math.max(1, ability.targetCount));
+    if (targets.length === 0 || (bossOnly && !targets.some((t) => t.isBoss))) return false;
+    this.spendEnergy(actor, ability);
 
-    this.checkDeath(target);
-  }
-
-  private executeBackstab(
-    actor: CombatState,
-    target: CombatState,
-    actorName: string,
-    targetName: string
-  ): void {
-    // Backstab ignores defense (def = 0)
-    const { damage, isCritical } = this.calculateDamage(actor.atk, 0);
-    target.currentHp = Math.max(0, target.currentHp - damage);
+    for (const target of targets) {
+      const targetName = this.characterNames.get(target.characterId)!;
+      // Heal amount is based on healer's ATK stat
+      const baseHeal = this.getEffectiveStat(actor, 'atk') * ability.powerMultiplier;
+      const variance = this.rng.randomFloat(0.9, 1.1);
+      const healAmount = Math.floor(baseHeal * variance);
 
-    this.actionLog.push({
-      turn: this.currentTurn,
-      actorId: actor.characterId,
-      actorName,
-      actionType: 'ability',
-      targetId: target.characterId,
-      targetName,
-      damage,
-      isCritical,
-      abilityUsed: 'Backstab',
-      message: `${actorName} Backstabs ${targetName} for ${damage} damage, ignoring armor!`,
-    });
+      const actualHeal = Math.min(healAmount, target.maxHp - target.currentHp);
+      target.currentHp = Math.min(target.maxHp, target.currentHp + healAmount);
+      this.recordHealing(actor.characterId, actualHeal, healAmount - actualHeal);
 
-    this.checkDeath(target);
+      this.logAction({
+        turn: this.currentTurn,
+        tick: this.currentTick,
+        actorId: actor.characterId,
+        actorName,
+        actionType: 'heal',
+        targetId: target.characterId,
+        targetName,
+        healing: actualHeal,
+        abilityUsed: ability.name,
+        abilityCasterSprite: ability.casterSprite,
+        abilityTargetSprite: ability.targetSprite,
+        message: `${actorName} uses ${ability.name} on ${targetName} for ${actualHeal} HP`,
+      });
+    }
+    this.applyAbilityEffects(actor, ability, targets);
+    return true;
   }
 
   /**
-   * Execute heal ability
+   * Execute summon ability — creates up to targetCount new units on the battlefield
    */
-  private executeHeal(
+  private executeSummon(
     actor: CombatState,
-    target: CombatState,
+    ability: AbilityDefinition,
     actorName: string
-  ): void {
-    const targetName = this.characterNames.get(target.characterId)!;
-    // Heal amount is based on healer's ATK stat
-    const baseHeal = actor.atk * 2;
-    const variance = this.rng.randomFloat(0.9, 1.1);
-    const healAmount = Math.floor(baseHeal * variance);
-
-    const actualHeal = Math.min(healAmount, target.maxHp - target.currentHp);
-    target.currentHp = Math.min(target.maxHp, target.currentHp + healAmount);
+  ): boolean {
+    const sumData = this.summonerData.get(actor.characterId);
+    if (!sumData || sumData.templates.length === 0) return false;
+
+    // Remove dead summons from active set
+    for (const sid of sumData.activeSummonIds) {
+      const sUnit = this.playerUnits.get(sid) ?? this.enemyUnits.get(sid);
+      if (!sUnit || !sUnit.isAlive) sumData.activeSummonIds.delete(sid);
+    }
 
-    this.actionLog.push({
-      turn: this.currentTurn,
-      actorId: actor.characterId,
-      actorName,
-      actionType: 'heal',
-      targetId: target.characterId,
-      targetName,
-      healing: actualHeal,
-      abilityUsed: 'Heal',
-      message: `${actorName} heals ${targetName} for ${actualHeal} HP`,
-    });
+    const count = Math.min(
+      Math.max(1, ability.targetCount),
+      sumData.maxSummons - sumData.activeSummonIds.size
+    );
+    if (count <= 0 || !this.findEmptyPosition(actor.team)) return false;
+    this.spendEnergy(actor, ability);
+
+    let summoned = 0;
+    for (let i = 0; i < count; i++) {
+      const template = sumData.templates[this.rng.randomInt(0, sumData.templates.length - 1)];
+      const summon = this.summonUnit(actor, template, actorName, ability);
+      if (!summon) break;
+      sumData.activeSummonIds.add(summon.characterId);
+      summoned++;
+    }
+    if (summoned > 0) this.applyAbilityEffects(actor, ability, []);
+    return summoned > 0;
   }
 
   /**
-   * Execute summon ability — creates a new unit on the battlefield
+   * Summon a single unit from a template next to its summoner
+   * @param source ability (or boss phase) the summon comes from
+   * @returns the summoned unit, or null if there is no space left on the battlefield
    */
-  private executeSummon(
+  private summonUnit(
     actor: CombatState,
-    sumData: { templates: SummonTemplate[]; maxSummons: number; activeSummonIds: Set<string> },
-    actorName: string
-  ): void {
-    const template = sumData.templates[this.rng.randomInt(0, sumData.templates.length - 1)];
-    const summonId = `${template.id}_s${Date.now().toString(36)}_${this.rng.randomInt(0, 9999)}`;
+    template: SummonTemplate,
+    actorName: string,
+    source: { name: string; casterSprite?: SpriteSource }
+  ): CombatState | null {
+    const summonId = `${template.id}_s${++this.summonCount}`;
 
     // Find an empty position on the summoner's side
     const position = this.findEmptyPosition(actor.team);
-    if (!position) return; // No space to summon
+    if (!position) return null; // No space to summon
 
     // Calculate stats from template
     const calcStat = (base: number, mult: number = 1) => {
@@ -668,21 +991,19 @@ export class AutoBattleSimulation {
       level: template.level,
       ascension: template.ascension,
       isSummoned: true,
+      energy: 0,
     };
 
-    const units = actor.team === 'player' ? this.playerUnits : this.enemyUnits;
-    units.set(summonId, state);
-    this.characterNames.set(summonId, template.name);
-    this.characterRoles.set(summonId, template.role);
-    this.characterSprites.set(summonId, template.sprites);
-    sumData.activeSummonIds.add(summonId);
+    this.registerUnit(state, template.name, template.role, template.sprites, undefined, template.abilities, template.resistances, template.traits);
 
-    this.actionLog.push({
+    this.logAction({
       turn: this.currentTurn,
+      tick: this.currentTick,
       actorId: actor.characterId,
       actorName,
       actionType: 'summon',
-      abilityUsed: 'Summon',
+      abilityUsed: source.name,
+      abilityCasterSprite: source.casterSprite,
       message: `${actorName} summons ${template.name}!`,
       summonedUnit: {
         id: summonId,
@@ -697,6 +1018,7 @@ export class AutoBattleSimulation {
         sprites: template.sprites,
       },
     });
+    return state;
   }
 
   /**
@@ -730,12 +1052,30 @@ export class AutoBattleSimulation {
   }
 
   /**
-   * Calculate damage with formula: ATK * (1 - DEF/(DEF+100)) with ±10% variance
+   * Damage of one hit on a target: DEF mitigation (unless ignored), then the
+   * target's resistance to the damage type
+   */
+  private calculateHit(
+    atk: number,
+    target: CombatState,
+    damageType: DamageType,
+    ignoreDefense: boolean
+  ): { damage: number; isCritical: boolean; mitigated: number; effectiveness?: HitEffectiveness } {
+    const multiplier = getDamageTypeMultiplier(this.characterResistances.get(target.characterId), damageType);
+    const hit = this.calculateDamage(atk, ignoreDefense ? 0 : this.getEffectiveStat(target, 'def'), multiplier);
+    return { ...hit, effectiveness: getEffectiveness(multiplier) };
+  }
+
+  /**
+   * Calculate damage with formula: ATK * (1 - DEF/(DEF+100)) * multiplier with ±10% variance
+   * Deals at least 1 damage unless the multiplier is 0 (immune)
+   * @returns the damage, and the damage DEF prevented
    */
   private calculateDamage(
     atk: number,
-    def: number
-  ): { damage: number; isCritical: boolean } {
+    def: number,
+    multiplier = 1
+  ): { damage: number; isCritical: boolean; mitigated: number } {
     // Defense reduction formula
     const defReduction = def / (def + 100);
     const baseDamage = atk * (1 - defReduction);
@@ -746,24 +1086,31 @@ export class AutoBattleSimulation {
       1 + COMBAT_CONSTANTS.DAMAGE_VARIANCE
     );
 
-    let damage = Math.floor(baseDamage * variance);
+    let damage = Math.floor(baseDamage * multiplier * variance);
+    let undefended = atk * multiplier * variance;
 
     // Check for critical hit
     const isCritical = this.rng.chance(COMBAT_CONSTANTS.CRIT_CHANCE);
     if (isCritical) {
       damage = Math.floor(damage * COMBAT_CONSTANTS.CRIT_MULTIPLIER);
+      undefended *= COMBAT_CONSTANTS.CRIT_MULTIPLIER;
     }
 
-    return { damage: Math.max(1, damage), isCritical };
+    damage = Math.max(multiplier > 0 ? 1 : 0, damage);
+    return { damage, isCritical, mitigated: Math.max(0, Math.floor(undefended) - damage) };
   }
 
   /**
    * Find target based on role targeting rules
    */
   private findTarget(actor: CombatState, role: Role): CombatState | null {
-    const enemies = this.getEnemyUnits(actor.team);
+    const enemies = this.getReachableEnemies(actor);
     if (enemies.length === 0) return null;
 
+    // Taunting enemies override role targeting
+    const taunter = this.findTauntingUnit(enemies);
+    if (taunter) return taunter;
+
     switch (role) {
       case 'tank':
       case 'warrior':
@@ -785,12 +1132,21 @@ export class AutoBattleSimulation {
     }
   }
 
+  /**
+   * Find a taunting unit among candidates (lowest HP first when several taunt)
+   */
+  private findTauntingUnit(units: CombatState[]): CombatState | null {
+    const taunters = units.filter((u) => this.hasStatusEffect(u.characterId, 'taunt'));
+    if (taunters.length === 0) return null;
+    return taunters.sort((a, b) => a.currentHp - b.currentHp)[0];
+  }
+
   private findClosestEnemy(enemies: CombatState[]): CombatState {
     // Sort by row (front first), then by HP (focus damaged)
     return enemies.sort((a, b) => {
-      if (a.position.row !== b.position.row) {
-        return a.position.row - b.position.row;
-      }
+      const depthA = rowDepth(a.position);
+      const depthB = rowDepth(b.position);
+      if (depthA !== depthB) return depthA - depthB;
       return a.currentHp - b.currentHp;
     })[0];
   }
@@ -798,9 +1154,9 @@ export class AutoBattleSimulation {
   private findBackRowEnemy(enemies: CombatState[]): CombatState {
     // Sort by row descending (back first), then by HP (focus low HP)
     return enemies.sort((a, b) => {
-      if (a.position.row !== b.position.row) {
-        return b.position.row - a.position.row;
-      }
+      const depthA = rowDepth(a.position);
+      const depthB = rowDepth(b.position);
+      if (depthA !== depthB) return depthB - depthA;
       return a.currentHp - b.currentHp;
     })[0];
   }
@@ -810,15 +1166,13 @@ export class AutoBattleSimulation {
   }
 
   /**
-   * Find ally that needs healing (below 70% HP)
+   * Find allies that need healing (below threshold), most wounded first
    */
-  private findHealTarget(actor: CombatState): CombatState | null {
-    const allies = this.getAllyUnits(actor.team).filter(
-      (u) => u.currentHp < u.maxHp * 0.7
-    );
-    if (allies.length === 0) return null;
-    // Heal lowest HP ally
-    return allies.sort((a, b) => a.currentHp / a.maxHp - b.currentHp / b.maxHp)[0];
+  private findHealTargets(actor: CombatState, threshold: number, count: number): CombatState[] {
+    return this.getAllyUnits(actor.team)
+      .filter((u) => u.currentHp < u.maxHp * threshold)
+      .sort((a, b) => a.currentHp / a.maxHp - b.currentHp / b.maxHp)
+      .slice(0, count);
   }
 
   private getEnemyUnits(myTeam: 'player' | 'enemy'): CombatState[] {
@@ -826,36 +1180,630 @@ export class AutoBattleSimulation {
     return Array.from(units.values()).filter((u) => u.isAlive);
   }
 
+  /** Living enemies within the actor's attack reach (ROLE_ATTACK_REACH) */
+  private getReachableEnemies(actor: CombatState): CombatState[] {
+    const role = this.characterRoles.get(actor.characterId)!;
+    return getReachableUnits(this.getEnemyUnits(actor.team), ROLE_ATTACK_REACH[role]);
+  }
+
   private getAllyUnits(myTeam: 'player' | 'enemy'): CombatState[] {
     const units = myTeam === 'player' ? this.playerUnits : this.enemyUnits;
     return Array.from(units.values()).filter((u) => u.isAlive);
   }
 
+  /** Every unit, dead or alive: player units first, each team in registration order */
+  private getAllUnits(): CombatState[] {
+    return [...this.playerUnits.values(), ...this.enemyUnits.values()];
+  }
+
   private getAllAliveUnits(): CombatState[] {
-    return [
-      ...Array.from(this.playerUnits.values()),
-      ...Array.from(this.enemyUnits.values()),
-    ].filter((u) => u.isAlive);
+    return this.getAllUnits().filter((u) => u.isAlive);
+  }
+
+  private getUnit(characterId: string): CombatState | undefined {
+    return this.playerUnits.get(characterId) ?? this.enemyUnits.get(characterId);
   }
 
   /**
-   * Check if unit died and log death
+   * Check if unit died and log death, then fire on-death, on-ally-death and on-kill traits
+   * @param killer unit credited with the kill, if any
    */
-  private checkDeath(unit: CombatState): void {
+  private checkDeath(unit: CombatState, killer?: CombatState): void {
     if (unit.currentHp <= 0 && unit.isAlive) {
+      this.triggerTraits(unit, 'on_death');
+      if (unit.currentHp > 0) return;
+
       unit.isAlive = false;
+      this.statusEffects.delete(unit.characterId);
+      this.lifespans.get(unit.characterId)!.died = this.currentTurn;
+      if (killer && killer.team !== unit.team) this.unitStats.get(killer.characterId)!.kills++;
       const name = this.characterNames.get(unit.characterId)!;
 
-      this.actionLog.push({
+      this.logAction({
         turn: this.currentTurn,
+        tick: this.currentTick,
         actorId: unit.characterId,
         actorName: name,
         actionType: 'death',
         message: `${name} has been defeated!`,
       });
+
+      for (const ally of this.getAllyUnits(unit.team)) this.triggerTraits(ally, 'on_ally_death');
+      if (killer && killer.team !== unit.team) this.triggerTraits(killer, 'on_kill');
+    }
+  }
+
+  /**
+   * Append an action to the log, with the energy and other state changes since
+   * the previous action (a full snapshot follows every BATTLE_SNAPSHOT_INTERVAL actions)
+   */
+  private logAction(action: CombatAction): void {
+    if (this.pendingEnergy.size > 0) {
+      action.energy = Object.fromEntries(this.pendingEnergy);
+      this.pendingEnergy.clear();
+    }
+    const delta = this.collectDelta() ?? {};
+    if (action.statusEffect && action.targetId && (action.actionType === 'effect_apply' || action.actionType === 'effect_expire')) {
+      delta.effectStacks = this.getEffectStacks(action.targetId, action.statusEffect);
+    }
+    if (Object.keys(delta).length > 0) action.delta = delta;
+    this.actionLog.push(action);
+    if (this.actionLog.length % BATTLE_SNAPSHOT_INTERVAL === 0) this.snapshots.push(this.takeSnapshot());
+  }
+
+  // ── State deltas ────────────────────────────────────────────────
+
+  private markCooldown(characterId: string, abilityId: string, turns: number): void {
+    this.pendingCooldowns.set(characterId, { ...this.pendingCooldowns.get(characterId), [abilityId]: turns });
+  }
+
+  /** Stacks of a status effect a unit currently has */
+  private getEffectStacks(characterId: string, type: StatusEffectType): number {
+    return (this.statusEffects.get(characterId) ?? []).reduce((sum, e) => sum + (e.type === type ? e.stacks : 0), 0);
+  }
+
+  /** Remember the current unit states as logged */
+  private markLogged(): void {
+    for (const unit of this.getAllUnits()) {
+      this.loggedStates.set(unit.characterId, { hp: unit.currentHp, isAlive: unit.isAlive, atk: unit.atk });
+    }
+  }
+
+  /** Unit state changes since the last logged action (undefined when nothing changed) */
+  private collectDelta(): ActionDelta | undefined {
+    const delta: ActionDelta = {};
+    for (const unit of this.getAllUnits()) {
+      const id = unit.characterId;
+      const logged = this.loggedStates.get(id);
+      if (!logged) {
+        (delta.spawned ??= []).push({ ...unit, position: { ...unit.position } });
+        continue;
+      }
+      if (unit.currentHp !== logged.hp) (delta.hp ??= {})[id] = { before: logged.hp, after: unit.currentHp };
+      if (logged.isAlive && !unit.isAlive) (delta.deaths ??= []).push(id);
+      if (unit.atk !== logged.atk) (delta.atk ??= {})[id] = unit.atk;
+    }
+    this.markLogged();
+    if (this.pendingCooldowns.size > 0) {
+      delta.cooldowns = Object.fromEntries(this.pendingCooldowns);
+      this.pendingCooldowns.clear();
+    }
+    return Object.keys(delta).length > 0 ? delta : undefined;
+  }
+
+  /** Full state of every unit at the current point of the log */
+  private takeSnapshot(): BattleSnapshot {
+    const units: UnitSnapshot[] = this.getAllUnits().map((unit) => ({
+      ...unit,
+      position: { ...unit.position },
+      cooldowns: Object.fromEntries(
+        [...(this.cooldownTracker.get(unit.characterId) ?? [])].filter(([, turns]) => turns > 0)
+      ),
+      statusEffects: [...new Set((this.statusEffects.get(unit.characterId) ?? []).map((e) => e.type))],
+    }));
+    return { actionIndex: this.actionLog.length, units };
+  }
+
+  // ── Energy ──────────────────────────────────────────────────────
+
+  /** Energy an ability costs, within [0, MAX_ENERGY] */
+  private getEnergyCost(ability: AbilityDefinition): number {
+    const { MAX_ENERGY } = COMBAT_CONSTANTS;
+    return Math.min(MAX_ENERGY, Math.max(0, ability.energyCost ?? MAX_ENERGY));
+  }
+
+  /** Whether a unit can pay for an ability (always true in random trigger mode) */
+  private hasEnergyFor(unit: CombatState, ability: AbilityDefinition): boolean {
+    return this.abilityTrigger !== 'energy' || unit.energy >= this.getEnergyCost(ability);
+  }
+
+  /** Add energy to a living unit, capped at MAX_ENERGY (no-op in random trigger mode) */
+  private gainEnergy(unit: CombatState, amount: number): void {
+    if (this.abilityTrigger !== 'energy' || !unit.isAlive || unit.currentHp <= 0) return;
+    const energy = Math.min(COMBAT_CONSTANTS.MAX_ENERGY, unit.energy + amount);
+    if (energy === unit.energy) return;
+    unit.energy = energy;
+    this.pendingEnergy.set(unit.characterId, energy);
+  }
+
+  private spendEnergy(unit: CombatState, ability: AbilityDefinition): void {
+    if (this.abilityTrigger !== 'energy') return;
+    const cost = this.getEnergyCost(ability);
+    if (cost === 0) return;
+    unit.energy -= cost;
+    this.pendingEnergy.set(unit.characterId, unit.energy);
+  }
+
+  // ── Status effects ──────────────────────────────────────────────
+
+  private hasStatusEffect(characterId: string, type: StatusEffectType): boolean {
+    return (this.statusEffects.get(characterId) ?? []).some((e) => e.type === type);
+  }
+
+  /**
+   * Stat value after *_up / *_down modifiers (each stack adds its value)
+   */
+  private getEffectiveStat(unit: CombatState, stat: 'atk' | 'def' | 'spd'): number {
+    const effects = this.statusEffects.get(unit.characterId);
+    if (!effects || effects.length === 0) return unit[stat];
+
+    let mult = 1;
+    for (const e of effects) {
+      if (e.type === `${stat}_up`) mult += e.value * e.stacks;
+      else if (e.type === `${stat}_down`) mult -= e.value * e.stacks;
+    }
+    return Math.floor(unit[stat] * Math.max(0, mult));
+  }
+
+  /**
+   * Apply incoming damage, draining shields before HP
+   * @returns HP actually lost and the amount absorbed by shields
+   */
+  private applyDamage(target: CombatState, amount: number): { damage: number; absorbed: number } {
+    let remaining = amount;
+    let absorbed = 0;
+    for (const e of this.statusEffects.get(target.characterId) ?? []) {
+      if (e.type !== 'shield' || remaining <= 0) continue;
+      const take = Math.min(e.value, remaining);
+      e.value -= take;
+      absorbed += take;
+      remaining -= take;
+    }
+    target.currentHp = Math.max(0, target.currentHp - remaining);
+    this.gainEnergy(target, COMBAT_CONSTANTS.ENERGY_PER_HIT_TAKEN);
+    return { damage: remaining, absorbed };
+  }
+
+  /**
+   * Heal an attacker by its lifesteal share of the HP damage it dealt
+   * @returns HP actually healed
+   */
+  private drainLife(actor: CombatState, damage: number): number {
+    const rate = this.lifesteal.get(actor.characterId);
+    if (!rate || damage <= 0 || !actor.isAlive) return 0;
+    const drained = Math.floor(damage * rate);
+    const healed = Math.max(0, Math.min(drained, actor.maxHp - actor.currentHp));
+    actor.currentHp += healed;
+    this.recordHealing(actor.characterId, healed, drained - healed);
+    return healed;
+  }
+
+  /**
+   * Credit HP damage to the unit that took it and the unit that dealt it
+   * @param hit the damage roll, for DEF mitigation and crits (missing for damage over time and reflection)
+   */
+  private recordDamage(
+    sourceId: string,
+    target: CombatState,
+    damage: number,
+    hit?: { isCritical: boolean; mitigated: number }
+  ): void {
+    const taken = this.unitStats.get(target.characterId)!;
+    taken.damageTaken += damage;
+    if (hit) taken.damageMitigated += hit.mitigated;
+    const dealt = this.unitStats.get(sourceId);
+    if (!dealt) return;
+    dealt.damageDealt += damage;
+    if (hit?.isCritical) dealt.crits++;
+  }
+
+  /** Credit healing (and the part lost to full HP) to the healer */
+  private recordHealing(healerId: string, healed: number, overheal: number): void {
+    const stats = this.unitStats.get(healerId)!;
+    stats.healingDone += healed;
+    stats.overheal += Math.max(0, overheal);
+  }
+
+  private formatLifesteal(actorName: string, healed: number): string {
+    return healed > 0 ? ` ${actorName} drains ${healed} HP.` : '';
+  }
+
+  private formatAbsorbed(absorbed: number): string {
+    return absorbed > 0 ? ` (${absorbed} absorbed by shield)` : '';
+  }
+
+  private formatEffectiveness(effectiveness: HitEffectiveness | undefined): string {
+    if (effectiveness === 'super_effective') return " It's super effective!";
+    if (effectiveness === 'resisted') return ' It was resisted.';
+    return '';
+  }
+
+  private formatAoeEffectiveness(hits: { target: CombatState; effectiveness?: HitEffectiveness }[]): string {
+    const names = (effectiveness: HitEffectiveness) => hits
+      .filter((h) => h.effectiveness === effectiveness)
+      .map((h) => this.characterNames.get(h.target.characterId)!);
+    const weak = names('super_effective');
+    const resisted = names('resisted');
+    return (weak.length > 0 ? ` Super effective on ${weak.join(', ')}!` : '')
+      + (resisted.length > 0 ? ` Resisted by ${resisted.join(', ')}.` : '');
+  }
+
+  /**
+   * Resolve the aftermath of a logged hit: remove depleted shields, check for
+   * death, then fire the target's low-HP traits and boss phases
+   */
+  private resolveHit(target: CombatState, attacker: CombatState): void {
+    const effects = this.statusEffects.get(target.characterId);
+    if (effects) {
+      for (const e of effects.filter((e) => e.type === 'shield' && e.value <= 0)) {
+        this.removeStatusEffect(target, e, 'breaks');
+      }
+    }
+    this.checkDeath(target, attacker);
+    this.triggerTraits(target, 'on_low_hp');
+    this.checkBossPhases(target);
+  }
+
+  /**
+   * Apply an ability's status effects to its targets (or its caster)
+   */
+  private applyAbilityEffects(
+    actor: CombatState,
+    ability: AbilityDefinition,
+    targets: CombatState[]
+  ): void {
+    if (!ability.effects) return;
+    for (const effect of ability.effects) {
+      const recipients = effect.target === 'self' ? [actor] : targets;
+      for (const recipient of recipients) {
+        if (!recipient.isAlive) continue;
+        if (effect.chance !== undefined && effect.chance < 1 && !this.rng.chance(effect.chance)) continue;
+        this.addStatusEffect(actor, recipient, effect);
+      }
+    }
+  }
+
+  /**
+   * Add (or refresh/stack) a status effect on a unit and log it
+   * @param fixedValue absolute effect value, instead of one derived from effect.value
+   */
+  private addStatusEffect(source: CombatState, target: CombatState, effect: AbilityEffect, fixedValue?: number): void {
+    // Damage and absorb amounts scale with the caster's ATK at application time
+    let value: number;
+    if (fixedValue !== undefined) {
+      value = fixedValue;
+    } else {
+      switch (effect.type) {
+        case 'poison':
+        case 'burn':
+        case 'shield':
+          value = Math.max(1, Math.floor(this.getEffectiveStat(source, 'atk') * effect.value));
+          break;
+        case 'stun':
+        case 'taunt':
+          value = 0;
+          break;
+        default:
+          value = effect.value;
+      }
+    }
+
+    const duration = Math.max(1, effect.duration);
+    const effects = this.statusEffects.get(target.characterId) ?? [];
+    const existing = effects.find((e) => e.type === effect.type);
+    if (existing) {
+      // Reapplying refreshes the duration, keeps the strongest value and adds a stack if allowed
+      existing.remainingTurns = Math.max(existing.remainingTurns, duration);
+      existing.value = Math.max(existing.value, value);
+      existing.stacks = Math.min(existing.stacks + 1, Math.max(1, effect.maxStacks ?? 1));
+      existing.sourceId = source.characterId;
+    } else {
+      effects.push({
+        type: effect.type,
+        sourceId: source.characterId,
+        remainingTurns: duration,
+        value,
+        stacks: 1,
+      });
+      this.statusEffects.set(target.characterId, effects);
+    }
+
+    const sourceName = this.characterNames.get(source.characterId)!;
+    const targetName = this.characterNames.get(target.characterId)!;
+    const label = STATUS_EFFECT_LABELS[effect.type];
+    const stacks = existing?.stacks ?? 1;
+    this.logAction({
+      turn: this.currentTurn,
+      tick: this.currentTick,
+      actorId: source.characterId,
+      actorName: sourceName,
+      actionType: 'effect_apply',
+      targetId: target.characterId,
+      targetName,
+      statusEffect: effect.type,
+      message: `${targetName} gains ${label}${stacks > 1 ? ` x${stacks}` : ''} (${duration} turns)`,
+    });
+  }
+
+  private removeStatusEffect(unit: CombatState, effect: ActiveStatusEffect, verb: string): void {
+    const effects = this.statusEffects.get(unit.characterId);
+    if (!effects) return;
+    const idx = effects.indexOf(effect);
+    if (idx === -1) return;
+    effects.splice(idx, 1);
+
+    const name = this.characterNames.get(unit.characterId)!;
+    this.logAction({
+      turn: this.currentTurn,
+      tick: this.currentTick,
+      actorId: unit.characterId,
+      actorName: name,
+      actionType: 'effect_expire',
+      targetId: unit.characterId,
+      targetName: name,
+      statusEffect: effect.type,
+      message: `${name}'s ${STATUS_EFFECT_LABELS[effect.type]} ${verb}`,
+    });
+  }
+
+  /**
+   * Resolve damage over time and stun before a unit acts
+   * @returns false if the unit cannot act this turn
+   */
+  private processTurnStart(unit: CombatState): boolean {
+    const effects = this.statusEffects.get(unit.characterId);
+    if (!effects || effects.length === 0) return true;
+    const name = this.characterNames.get(unit.characterId)!;
+
+    // Damage over time ignores DEF and shields
+    for (const e of effects.filter((e) => e.type === 'poison' || e.type === 'burn')) {
+      const damage = Math.min(unit.currentHp, e.value * e.stacks);
+      unit.currentHp -= damage;
+      this.recordDamage(e.sourceId, unit, damage);
+      this.logAction({
+        turn: this.currentTurn,
+        tick: this.currentTick,
+        actorId: e.sourceId,
+        actorName: this.characterNames.get(e.sourceId) ?? name,
+        actionType: 'effect_tick',
+        targetId: unit.characterId,
+        targetName: name,
+        damage,
+        statusEffect: e.type,
+        message: `${name} takes ${damage} ${STATUS_EFFECT_LABELS[e.type].toLowerCase()} damage`,
+      });
+      this.checkDeath(unit, this.getUnit(e.sourceId));
+      if (!unit.isAlive) return false;
+      this.triggerTraits(unit, 'on_low_hp');
+      this.checkBossPhases(unit);
+    }
+
+    if (effects.some((e) => e.type === 'stun')) {
+      this.logAction({
+        turn: this.currentTurn,
+        tick: this.currentTick,
+        actorId: unit.characterId,
+        actorName: name,
+        actionType: 'effect_tick',
+        targetId: unit.characterId,
+        targetName: name,
+        statusEffect: 'stun',
+        message: `${name} is stunned and cannot act!`,
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Tick down effect durations after a unit's action and expire finished ones
+   */
+  private processTurnEnd(unit: CombatState): void {
+    if (!unit.isAlive) return;
+    const effects = this.statusEffects.get(unit.characterId);
+    if (!effects || effects.length === 0) return;
+
+    for (const e of [...effects]) {
+      e.remainingTurns--;
+      if (e.remainingTurns <= 0) this.removeStatusEffect(unit, e, 'wears off');
+    }
+  }
+
+  // ── Passive traits ──────────────────────────────────────────────
+
+  /**
+   * Fire a unit's traits for a trigger, in list order
+   * Only living units fire traits; on_death fires at 0 HP, before the death is logged.
+   * on_hit fires for attack and ability hits only: damage dealt by traits (extra
+   * attacks, reflection) never fires it, so two counter-attacking units cannot loop.
+   * @param attacker unit that dealt the hit (on_hit)
+   * @param damage HP damage of the hit (on_hit)
+   */
+  private triggerTraits(unit: CombatState, trigger: TraitTrigger, attacker?: CombatState, damage = 0): void {
+    const traits = this.characterTraits.get(unit.characterId);
+    if (!traits) return;
+
+    for (const trait of traits) {
+      if (trait.trigger !== trigger || !unit.isAlive) continue;
+      if (trigger !== 'on_death' && unit.currentHp <= 0) continue;
+      const uses = this.traitUses.get(unit.characterId)?.get(trait.id) ?? 0;
+      if (uses >= getTraitTriggerLimit(trait)) continue;
+      if (trigger === 'on_low_hp' && unit.currentHp >= unit.maxHp * (trait.threshold ?? TRAIT_LOW_HP_THRESHOLD)) continue;
+      if (trait.effect === 'reflect' && (!attacker?.isAlive || damage <= 0)) continue;
+      if (trait.chance !== undefined && trait.chance < 1 && !this.rng.chance(trait.chance)) continue;
+
+      const counts = this.traitUses.get(unit.characterId) ?? new Map<string, number>();
+      counts.set(trait.id, uses + 1);
+      this.traitUses.set(unit.characterId, counts);
+      this.applyTrait(unit, trait, attacker, damage);
+    }
+  }
+
+  /** Resolve a trait's effect on its owner and log it */
+  private applyTrait(unit: CombatState, trait: PassiveTrait, attacker: CombatState | undefined, damage: number): void {
+    const name = this.characterNames.get(unit.characterId)!;
+    const base = {
+      turn: this.currentTurn,
+      tick: this.currentTick,
+      actorId: unit.characterId,
+      actorName: name,
+      actionType: 'trait' as const,
+      trait: trait.name,
+      traitEffect: trait.effect,
+    };
+
+    switch (trait.effect) {
+      case 'stat_boost': {
+        this.logAction({ ...base, targetId: unit.characterId, targetName: name, message: `${name}'s ${trait.name} triggers!` });
+        this.addStatusEffect(unit, unit, {
+          type: `${trait.stat ?? 'atk'}_up`,
+          target: 'self',
+          value: trait.value,
+          duration: trait.duration ?? TRAIT_BOOST_DURATION,
+          maxStacks: TRAIT_BOOST_MAX_STACKS,
+        });
+        break;
+      }
+      case 'heal': {
+        const restored = Math.floor(unit.maxHp * trait.value);
+        const healing = Math.max(0, Math.min(restored, unit.maxHp - unit.currentHp));
+        unit.currentHp += healing;
+        this.recordHealing(unit.characterId, healing, restored - healing);
+        this.logAction({
+          ...base,
+          targetId: unit.characterId,
+          targetName: name,
+          healing,
+          message: `${name}'s ${trait.name} restores ${healing} HP`,
+        });
+        break;
+      }
+      case 'revive': {
+        unit.currentHp = Math.min(unit.maxHp, Math.max(1, Math.floor(unit.maxHp * trait.value)));
+        this.recordHealing(unit.characterId, unit.currentHp, 0);
+        this.logAction({
+          ...base,
+          targetId: unit.characterId,
+          targetName: name,
+          healing: unit.currentHp,
+          message: `${name}'s ${trait.name}: ${name} gets back up with ${unit.currentHp} HP!`,
+        });
+        break;
+      }
+      case 'extra_attack': {
+        const target = this.findTarget(unit, this.characterRoles.get(unit.characterId)!);
+        if (!target) return;
+        const targetName = this.characterNames.get(target.characterId)!;
+        const hit = this.calculateHit(this.getEffectiveStat(unit, 'atk') * trait.value, target, 'physical', false);
+        const { damage: dealt, absorbed } = this.applyDamage(target, hit.damage);
+        this.recordDamage(unit.characterId, target, dealt, hit);
+        this.logAction({
+          ...base,
+          targetId: target.characterId,
+          targetName,
+          damage: dealt,
+          isCritical: hit.isCritical,
+          ...(hit.effectiveness && { effectiveness: hit.effectiveness }),
+          ...(absorbed > 0 && { absorbed }),
+          message: `${name}'s ${trait.name}: ${name} strikes ${targetName} again for ${dealt} damage`
+            + this.formatAbsorbed(absorbed) + this.formatEffectiveness(hit.effectiveness),
+        });
+        this.resolveHit(target, unit);
+        break;
+      }
+      case 'reflect': {
+        if (!attacker) return;
+        const attackerName = this.characterNames.get(attacker.characterId)!;
+        // Reflected damage ignores DEF and resistances, but shields absorb it
+        const { damage: dealt, absorbed } = this.applyDamage(attacker, Math.max(1, Math.floor(damage * trait.value)));
+        this.recordDamage(unit.characterId, attacker, dealt);
+        this.logAction({
+          ...base,
+          targetId: attacker.characterId,
+          targetName: attackerName,
+          damage: dealt,
+          ...(absorbed > 0 && { absorbed }),
+          message: `${name}'s ${trait.name} reflects ${dealt} damage to ${attackerName}` + this.formatAbsorbed(absorbed),
+        });
+        this.resolveHit(attacker, unit);
+        break;
+      }
+    }
+  }
+
+  // ── Boss phases ─────────────────────────────────────────────────
+
+  /** Start every boss phase whose HP threshold a living boss has dropped to */
+  private checkBossPhases(unit: CombatState): void {
+    const script = this.bossScripts.get(unit.characterId);
+    if (!script || !unit.isAlive) return;
+    const entered = this.bossPhasesEntered.get(unit.characterId) ?? 0;
+    const phases = getPhasesToEnter(script.phases, entered, unit.currentHp / unit.maxHp);
+    this.bossPhasesEntered.set(unit.characterId, entered + phases.length);
+    for (const phase of phases) this.enterBossPhase(unit, phase);
+  }
+
+  /** Log a phase transition, then swap abilities, raise the shield and summon the adds */
+  private enterBossPhase(unit: CombatState, phase: BattleBossPhase): void {
+    const name = this.characterNames.get(unit.characterId)!;
+    this.logAction({
+      turn: this.currentTurn,
+      tick: this.currentTick,
+      actorId: unit.characterId,
+      actorName: name,
+      actionType: 'phase',
+      phase: phase.name,
+      message: `${name} enters ${phase.name}!`,
+    });
+
+    if (phase.abilities && phase.abilities.length > 0) {
+      this.characterGambits.set(unit.characterId, phase.abilities);
+      this.unitGambits.delete(unit.characterId);
+    }
+    if (phase.shield) {
+      this.addStatusEffect(
+        unit,
+        unit,
+        { type: 'shield', target: 'self', value: phase.shield, duration: BOSS_PHASE_SHIELD_DURATION },
+        Math.max(1, Math.floor(unit.maxHp * phase.shield))
+      );
+    }
+    for (const template of phase.summons ?? []) {
+      if (!this.summonUnit(unit, template, name, phase)) break;
     }
   }
 
+  /** Enrage a boss at the start of its first turn on or after its enrage turn */
+  private checkEnrage(unit: CombatState): void {
+    const enrage = this.bossScripts.get(unit.characterId)?.enrage;
+    if (!enrage || this.enraged.has(unit.characterId) || this.currentTurn < enrage.turn) return;
+    this.enraged.add(unit.characterId);
+    unit.atk = Math.floor(unit.atk * enrage.atkMultiplier);
+
+    const name = this.characterNames.get(unit.characterId)!;
+    this.logAction({
+      turn: this.currentTurn,
+      tick: this.currentTick,
+      actorId: unit.characterId,
+      actorName: name,
+      actionType: 'phase',
+      phase: 'Enrage',
+      enrage: enrage.atkMultiplier,
+      message: `${name} becomes enraged! (ATK x${enrage.atkMultiplier})`,
+    });
+  }
+
   /**
    * Check if battle should end
    */
@@ -890,13 +1838,26 @@ export class AutoBattleSimulation {
       winner = 'draw';
     }
 
+    // Player units first, each team in registration order (summons last)
+    const unitStats = [...this.playerUnits.keys(), ...this.enemyUnits.keys()].map((id) => {
+      const { joined, died } = this.lifespans.get(id)!;
+      return { ...this.unitStats.get(id)!, turnsAlive: (died ?? this.currentTurn) - joined };
+    });
+
     return {
       winner,
       turns: this.currentTurn,
       actionLog: this.actionLog,
+      turnOrder: this.turnOrder,
       playerSurvivors,
       enemySurvivors,
       seed: this.seed,
+      unitStats,
+      snapshots: this.snapshots.at(-1)?.actionIndex === this.actionLog.length
+        ? [...this.snapshots]
+        : [...this.snapshots, this.takeSnapshot()],
+      ...(this.manualAbilities && { manualInputs: [...this.manualInputs] }),
+      ...(this.activeSynergies && { synergies: this.activeSynergies }),
     };
   }
 }
@@ -10,6 +10,7 @@ import {
   ROLE_PREFERRED_ROW,
   COMBAT_CONSTANTS,
 } from './types';
+import { applyGearStats, type GearStats } from './gear';
 
 /**
  * Character class representing a unit in combat
@@ -21,19 +22,23 @@ export class Character {
   readonly ascension: number;
   private readonly customBaseStats?: Partial<Record<Role, BaseStats>>;
   private readonly rarityMultipliers?: Partial<Record<Rarity, number>>;
+  /** Summed bonuses of equipped gear */
+  readonly gear?: Partial<GearStats>;
 
   constructor(
     definition: CharacterDefinition,
     level: number = 1,
     ascension: number = 0,
     customBaseStats?: Partial<Record<Role, BaseStats>>,
-    rarityMultipliers?: Partial<Record<Rarity, number>>
+    rarityMultipliers?: Partial<Record<Rarity, number>>,
+    gear?: Partial<GearStats>
   ) {
     this.definition = definition;
     this.level = Math.max(1, Math.min(100, level));
     this.ascension = Math.max(0, Math.min(COMBAT_CONSTANTS.MAX_ASCENSION, ascension));
     this.customBaseStats = customBaseStats;
     this.rarityMultipliers = rarityMultipliers;
+    this.gear = gear;
   }
 
   get id(): string {
@@ -61,39 +66,58 @@ export class Character {
   }
 
   /** Base stats for this character's role (uses custom overrides if provided) */
-  private get baseStats() {
+  get baseStats(): BaseStats {
     return this.customBaseStats?.[this.role] ?? ROLE_BASE_STATS[this.role];
   }
 
+  /** Stat multiplier applied for this character's rarity */
+  get rarityMultiplier(): number {
+    return this.rarityMultipliers?.[this.rarity] ?? 1;
+  }
+
   /**
    * Calculate stat with rarity, level and ascension scaling
    * Formula: baseStat * rarityMult * (1 + (level-1) * 0.1) * (1 + ascension * 0.15)
    */
   private calculateStat(baseStat: number): number {
-    const rarityMult = this.rarityMultipliers?.[this.rarity] ?? 1;
+    const rarityMult = this.rarityMultiplier;
     const levelMultiplier = 1 + (this.level - 1) * COMBAT_CONSTANTS.LEVEL_STAT_BONUS;
     const ascensionMultiplier = 1 + this.ascension * COMBAT_CONSTANTS.ASCENSION_STAT_BONUS;
     return Math.floor(baseStat * rarityMult * levelMultiplier * ascensionMultiplier);
   }
 
-  /** Calculated HP (scales with level and ascension) */
+  /** Level/ascension-scaled stats with equipped gear applied */
+  private get stats(): { hp: number; atk: number; def: number; spd: number } {
+    const base = this.baseStats;
+    return applyGearStats(
+      {
+        hp: this.calculateStat(base.hp),
+        atk: this.calculateStat(base.atk),
+        def: this.calculateStat(base.def),
+        spd: base.spd,
+      },
+      this.gear
+    );
+  }
+
+  /** Calculated HP (scales with level and ascension, plus gear) */
   get hp(): number {
-    return this.calculateStat(this.baseStats.hp);
+    return this.stats.hp;
   }
 
-  /** Calculated ATK (scales with level and ascension) */
+  /** Calculated ATK (scales with level and ascension, plus gear) */
   get atk(): number {
-    return this.calculateStat(this.baseStats.atk);
+    return this.stats.atk;
   }
 
-  /** Calculated DEF (scales with level and ascension) */
+  /** Calculated DEF (scales with level and ascension, plus gear) */
   get def(): number {
-    return this.calculateStat(this.baseStats.def);
+    return this.stats.def;
   }
 
-  /** SPD does not scale - remains constant */
+  /** SPD does not scale with level - only gear raises it */
   get spd(): number {
-    return this.baseStats.spd;
+    return this.stats.spd;
   }
 
   /**
@@ -112,6 +136,7 @@ export class Character {
       isAlive: true,
       level: this.level,
       ascension: this.ascension,
+      energy: 0,
     };
   }
 
@@ -131,7 +156,8 @@ export function createCharacter(
   level: number = 1,
   ascension: number = 0,
   customBaseStats?: Partial<Record<Role, BaseStats>>,
-  rarityMultipliers?: Partial<Record<Rarity, number>>
+  rarityMultipliers?: Partial<Record<Rarity, number>>,
+  gear?: Partial<GearStats>
 ): Character {
-  return new Character(definition, level, ascension, customBaseStats, rarityMultipliers);
+  return new Character(definition, level, ascension, customBaseStats, rarityMultipliers, gear);
 }
@@ -3,7 +3,8 @@
  * All hardcoded ability values are extracted here for admin editing
  */
 
-import type { Role, SpriteSource } from './types';
+import type { DamageType } from './elements';
+import type { Role, SpriteSource, StatusEffectType } from './types';
 
 /** Ability targeting modes */
 export type AbilityTargeting =
@@ -12,9 +13,30 @@ export type AbilityTargeting =
   | 'single_back_row'   // Assassin default: back row enemy
   | 'aoe_first_n'       // Cleave: hits first N enemies
   | 'aoe_random_n'      // Multi-shot: hits N random enemies
+  | 'aoe_column'        // Pierce: hits up to N enemies in the closest enemy's column, front to back
+  | 'aoe_row'           // Sweep: hits up to N enemies in the front-most reachable row
   | 'heal_lowest_ally'  // Healer: heals weakest ally under threshold
   | 'summon_unit';      // Summoner: summons a unit onto the battlefield
 
+/** Status effect applied when an ability resolves */
+export interface AbilityEffect {
+  type: StatusEffectType;
+  /** Who receives the effect: the ability's targets or the caster */
+  target: 'target' | 'self';
+  /** Duration in turns of the affected unit */
+  duration: number;
+  /**
+   * Magnitude: poison/burn = damage per turn as a fraction of caster ATK,
+   * shield = absorb amount as a fraction of caster ATK, *_up/*_down = stat fraction.
+   * Ignored for stun and taunt.
+   */
+  value: number;
+  /** Chance to apply (0-1, default 1) */
+  chance?: number;
+  /** Max stacks (default 1 — reapplying only refreshes the duration) */
+  maxStacks?: number;
+}
+
 /** Full ability definition */
 export interface AbilityDefinition {
   id: string;
@@ -30,10 +52,16 @@ export interface AbilityDefinition {
   targetCount: number;
   /** Whether this ability ignores DEF */
   ignoreDefense: boolean;
+  /** Damage type checked against target resistances (default physical) */
+  damageType?: DamageType;
   /** For healer: HP threshold (0-1) below which allies are eligible */
   healThreshold: number;
   /** Cooldown in turns (0 = no cooldown, usable every turn if triggered) */
   cooldown?: number;
+  /** Energy spent to cast in energy trigger mode (default COMBAT_CONSTANTS.MAX_ENERGY: an ultimate) */
+  energyCost?: number;
+  /** Status effects applied when the ability resolves */
+  effects?: AbilityEffect[];
   /** Sprite/spritesheet displayed on the caster when using this ability */
   casterSprite?: SpriteSource;
   /** Sprite/spritesheet displayed on each target hit by this ability */
@@ -45,13 +73,14 @@ export const DEFAULT_ABILITIES: AbilityDefinition[] = [
   {
     id: 'ability_taunt',
     name: 'Taunt',
-    description: 'Reduced damage attack that draws enemy aggro. Deals 70% ATK.',
+    description: 'Reduced damage attack that draws enemy aggro for 2 turns. Deals 70% ATK.',
     allowedRoles: ['tank'],
     powerMultiplier: 0.7,
     targeting: 'single_closest',
     targetCount: 1,
     ignoreDefense: false,
     healThreshold: 0,
+    effects: [{ type: 'taunt', target: 'self', duration: 2, value: 0 }],
   },
   {
     id: 'ability_cleave',
@@ -84,6 +113,7 @@ export const DEFAULT_ABILITIES: AbilityDefinition[] = [
     targeting: 'single_lowest_hp',
     targetCount: 1,
     ignoreDefense: false,
+    damageType: 'fire',
     healThreshold: 0,
   },
   {
@@ -95,6 +125,7 @@ export const DEFAULT_ABILITIES: AbilityDefinition[] = [
     targeting: 'single_back_row',
     targetCount: 1,
     ignoreDefense: true,
+    damageType: 'shadow',
     healThreshold: 0,
   },
   {
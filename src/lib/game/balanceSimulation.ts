@@ -0,0 +1,361 @@
+/**
+ * Headless batch battle simulator
+ * Runs many seeded AutoBattleSimulation battles per matchup and aggregates
+ * win rate, draw rate, average turns and damage/heal share per role.
+ * Pure logic (no DOM): used by the admin Balance tab and by scripts/balance-report.ts.
+ */
+
+import { Character } from './Character';
+import { AutoBattleSimulation, type SummonTemplate } from './AutoBattleSimulation';
+import { createRoomSetup } from './dungeonRun';
+import { validateRoomFormation } from './formation';
+import type { BattleSetup } from './replay';
+import type { BattleResult, CharacterDefinition, Rarity, Role } from './types';
+import type { GameContent } from '../admin/adminTypes';
+
+export const BALANCE_ROLES: Role[] = ['tank', 'warrior', 'archer', 'mage', 'assassin', 'healer', 'summoner'];
+export const BALANCE_RARITIES: Rarity[] = ['common', 'rare', 'epic', 'legendary'];
+
+/** Team composition used for rarity matchups (sliced to the team size) */
+const REFERENCE_COMP: Role[] = ['tank', 'warrior', 'archer', 'mage', 'healer'];
+
+/** Aggregated results of a batch of battles */
+export interface BatchStats {
+  battles: number;
+  playerWins: number;
+  enemyWins: number;
+  draws: number;
+  /** Player win rate (0-1) */
+  winRate: number;
+  /** Draw rate (0-1) */
+  drawRate: number;
+  avgTurns: number;
+  /** Total damage dealt per role (both teams, summons counted under their own role) */
+  damageByRole: Partial<Record<Role, number>>;
+  /** Total healing done per role */
+  healingByRole: Partial<Record<Role, number>>;
+}
+
+/** One row of a matchup matrix */
+export interface MatchupResult {
+  player: string;
+  enemy: string;
+  stats: BatchStats;
+}
+
+/** Damage/heal share of a role over every battle of a report */
+export interface RoleShare {
+  role: Role;
+  damage: number;
+  healing: number;
+  /** Share of all damage dealt (0-1) */
+  damageShare: number;
+  /** Share of all healing done (0-1) */
+  healShare: number;
+}
+
+export interface BalanceReport {
+  battlesPerMatchup: number;
+  baseSeed: number;
+  level: number;
+  roleMatchups: MatchupResult[];
+  rarityMatchups: MatchupResult[];
+  roomMatchups: MatchupResult[];
+  roleShares: RoleShare[];
+}
+
+export interface BalanceReportOptions {
+  /** Battles per matchup (default 50) */
+  battles?: number;
+  /** Seed of the first battle of each matchup; battle i uses baseSeed + i (default 1) */
+  baseSeed?: number;
+  /** Unit level for role/rarity matchups (default 10) */
+  level?: number;
+  /** Units per team for role/rarity matchups (default 3) */
+  teamSize?: number;
+  /** Rarity used by the role matchups (default 'rare') */
+  rarity?: Rarity;
+  /** Character IDs sent against dungeon rooms (default: first 3 content characters) */
+  roomTeamIds?: string[];
+  /** Level of the room team (default: level) */
+  roomTeamLevel?: number;
+  /** Matrices to run (default: all) */
+  include?: { roles?: boolean; rarities?: boolean; rooms?: boolean };
+}
+
+/**
+ * Run a batch of seeded battles for one matchup
+ * @param createSetup Builds fresh teams/options for a seed (called once per battle)
+ */
+export function runBatch(
+  createSetup: (seed: number) => BattleSetup,
+  battles: number,
+  baseSeed: number = 1
+): BatchStats {
+  const stats: BatchStats = {
+    battles: 0,
+    playerWins: 0,
+    enemyWins: 0,
+    draws: 0,
+    winRate: 0,
+    drawRate: 0,
+    avgTurns: 0,
+    damageByRole: {},
+    healingByRole: {},
+  };
+  let totalTurns = 0;
+
+  for (let i = 0; i < battles; i++) {
+    const setup = createSetup(baseSeed + i);
+    const result = new AutoBattleSimulation(
+      setup.playerTeam,
+      setup.enemyTeam,
+      setup.seed,
+      setup.options
+    ).simulate();
+
+    stats.battles++;
+    totalTurns += result.turns;
+    if (result.winner === 'player') stats.playerWins++;
+    else if (result.winner === 'enemy') stats.enemyWins++;
+    else stats.draws++;
+
+    accumulateRoleTotals(stats, setup, result);
+  }
+
+  if (stats.battles > 0) {
+    stats.winRate = stats.playerWins / stats.battles;
+    stats.drawRate = stats.draws / stats.battles;
+    stats.avgTurns = totalTurns / stats.battles;
+  }
+  return stats;
+}
+
+/**
+ * Attribute damage and healing from an action log to the actor's role
+ */
+function accumulateRoleTotals(stats: BatchStats, setup: BattleSetup, result: BattleResult): void {
+  const roles = new Map<string, Role>();
+  for (const c of [...setup.playerTeam, ...setup.enemyTeam]) roles.set(c.id, c.role);
+
+  for (const action of result.actionLog) {
+    if (action.actionType === 'summon' && action.summonedUnit) {
+      roles.set(action.summonedUnit.id, action.summonedUnit.role);
+      continue;
+    }
+    const role = roles.get(action.actorId);
+    if (!role) continue;
+    if (
+      action.damage &&
+      (action.actionType === 'attack' || action.actionType === 'ability' || action.actionType === 'effect_tick'
+        || action.actionType === 'trait')
+    ) {
+      stats.damageByRole[role] = (stats.damageByRole[role] ?? 0) + action.damage;
+    }
+    if ((action.actionType === 'heal' || action.actionType === 'trait') && action.healing) {
+      stats.healingByRole[role] = (stats.healingByRole[role] ?? 0) + action.healing;
+    }
+    if (action.lifesteal) {
+      stats.healingByRole[role] = (stats.healingByRole[role] ?? 0) + action.lifesteal;
+    }
+  }
+}
+
+function syntheticUnit(role: Role, rarity: Rarity, id: string, name: string): CharacterDefinition {
+  return { id, name, role, rarity, abilityName: '', abilityDescription: '' };
+}
+
+/**
+ * Build a mirror-able team of generic units (no content characters needed)
+ * Synthetic summoners summon a generic warrior at their own level.
+ */
+function buildSyntheticTeam(
+  content: GameContent,
+  roles: Role[],
+  rarity: Rarity,
+  level: number,
+  side: 'p' | 'e',
+  summonerConfigs: Map<string, { templates: SummonTemplate[]; maxSummons: number }>
+): Character[] {
+  return roles.map((role, i) => {
+    const id = `${side}_${role}_${i}`;
+    if (role === 'summoner') {
+      summonerConfigs.set(id, {
+        templates: [{ id: `${id}_minion`, name: 'Minion', role: 'warrior', level, ascension: 0 }],
+        maxSummons: 1,
+      });
+    }
+    const label = `${role.charAt(0).toUpperCase()}${role.slice(1)} ${side.toUpperCase()}${i + 1}`;
+    return new Character(syntheticUnit(role, rarity, id, label), level, 0, content.roleStats, content.rarityMultipliers);
+  });
+}
+
+function syntheticSetup(
+  content: GameContent,
+  playerRoles: Role[],
+  playerRarity: Rarity,
+  enemyRoles: Role[],
+  enemyRarity: Rarity,
+  level: number,
+  seed: number
+): BattleSetup {
+  const summonerConfigs = new Map<string, { templates: SummonTemplate[]; maxSummons: number }>();
+  return {
+    playerTeam: buildSyntheticTeam(content, playerRoles, playerRarity, level, 'p', summonerConfigs),
+    enemyTeam: buildSyntheticTeam(content, enemyRoles, enemyRarity, level, 'e', summonerConfigs),
+    seed,
+    options: {
+      customRoleStats: content.roleStats,
+      abilityDefs: content.abilities,
+      summonerConfigs: summonerConfigs.size > 0 ? summonerConfigs : undefined,
+      abilityTrigger: content.abilityTrigger,
+    },
+  };
+}
+
+/** Role vs role: teams made of teamSize copies of one role */
+export function runRoleMatchups(content: GameContent, options: BalanceReportOptions = {}): MatchupResult[] {
+  const battles = options.battles ?? 50;
+  const baseSeed = options.baseSeed ?? 1;
+  const level = options.level ?? 10;
+  const teamSize = Math.max(1, options.teamSize ?? 3);
+  const rarity = options.rarity ?? 'rare';
+
+  const results: MatchupResult[] = [];
+  for (const playerRole of BALANCE_ROLES) {
+    for (const enemyRole of BALANCE_ROLES) {
+      const playerRoles = Array<Role>(teamSize).fill(playerRole);
+      const enemyRoles = Array<Role>(teamSize).fill(enemyRole);
+      const stats = runBatch(
+        (seed) => syntheticSetup(content, playerRoles, rarity, enemyRoles, rarity, level, seed),
+        battles,
+        baseSeed
+      );
+      results.push({ player: playerRole, enemy: enemyRole, stats });
+    }
+  }
+  return results;
+}
+
+/** Rarity vs rarity: the reference composition at each rarity tier */
+export function runRarityMatchups(content: GameContent, options: BalanceReportOptions = {}): MatchupResult[] {
+  const battles = options.battles ?? 50;
+  const baseSeed = options.baseSeed ?? 1;
+  const level = options.level ?? 10;
+  const comp = REFERENCE_COMP.slice(0, Math.max(1, Math.min(REFERENCE_COMP.length, options.teamSize ?? 3)));
+
+  const results: MatchupResult[] = [];
+  for (const playerRarity of BALANCE_RARITIES) {
+    for (const enemyRarity of BALANCE_RARITIES) {
+      const stats = runBatch(
+        (seed) => syntheticSetup(content, comp, playerRarity, comp, enemyRarity, level, seed),
+        battles,
+        baseSeed
+      );
+      results.push({ player: playerRarity, enemy: enemyRarity, stats });
+    }
+  }
+  return results;
+}
+
+/** Team comp vs every dungeon room (each room fought at full HP) */
+export function runRoomMatchups(content: GameContent, options: BalanceReportOptions = {}): MatchupResult[] {
+  const battles = options.battles ?? 50;
+  const baseSeed = options.baseSeed ?? 1;
+  const teamLevel = options.roomTeamLevel ?? options.level ?? 10;
+  const teamIds = options.roomTeamIds ?? content.characters.slice(0, 3).map((c) => c.id);
+  const teamLabel = teamIds
+    .map((id) => content.characters.find((c) => c.id === id)?.name ?? id)
+    .join(', ');
+  if (teamIds.length === 0) return [];
+  const team = teamIds.map((characterId) => ({ characterId, level: teamLevel, ascension: 0 }));
+
+  const results: MatchupResult[] = [];
+  for (const dungeon of content.dungeons) {
+    dungeon.rooms.forEach((room, roomIndex) => {
+      if (room.enemies.length === 0) return;
+      // Rooms with an invalid formation can't be fought (the dungeon editor reports them)
+      if (validateRoomFormation(room, content.enemies)) return;
+      const stats = runBatch(
+        (seed) => createRoomSetup(content, room, roomIndex, team, seed),
+        battles,
+        baseSeed
+      );
+      results.push({ player: teamLabel, enemy: `${dungeon.name} — ${room.name}`, stats });
+    });
+  }
+  return results;
+}
+
+/**
+ * Sum per-role damage/healing over matchups and convert to shares
+ */
+export function computeRoleShares(matchups: MatchupResult[]): RoleShare[] {
+  const damage: Partial<Record<Role, number>> = {};
+  const healing: Partial<Record<Role, number>> = {};
+  for (const m of matchups) {
+    for (const role of BALANCE_ROLES) {
+      damage[role] = (damage[role] ?? 0) + (m.stats.damageByRole[role] ?? 0);
+      healing[role] = (healing[role] ?? 0) + (m.stats.healingByRole[role] ?? 0);
+    }
+  }
+  const totalDamage = BALANCE_ROLES.reduce((sum, r) => sum + (damage[r] ?? 0), 0);
+  const totalHealing = BALANCE_ROLES.reduce((sum, r) => sum + (healing[r] ?? 0), 0);
+
+  return BALANCE_ROLES.map((role) => ({
+    role,
+    damage: damage[role] ?? 0,
+    healing: healing[role] ?? 0,
+    damageShare: totalDamage > 0 ? (damage[role] ?? 0) / totalDamage : 0,
+    healShare: totalHealing > 0 ? (healing[role] ?? 0) / totalHealing : 0,
+  }));
+}
+
+/**
+ * Run the full balance report for a content set
+ */
+export function runBalanceReport(content: GameContent, options: BalanceReportOptions = {}): BalanceReport {
+  const include = { roles: true, rarities: true, rooms: true, ...options.include };
+  const roleMatchups = include.roles ? runRoleMatchups(content, options) : [];
+  const rarityMatchups = include.rarities ? runRarityMatchups(content, options) : [];
+  const roomMatchups = include.rooms ? runRoomMatchups(content, options) : [];
+
+  return {
+    battlesPerMatchup: options.battles ?? 50,
+    baseSeed: options.baseSeed ?? 1,
+    level: options.level ?? 10,
+    roleMatchups,
+    rarityMatchups,
+    roomMatchups,
+    roleShares: computeRoleShares([...roleMatchups, ...rarityMatchups, ...roomMatchups]),
+  };
+}
+
+/**
+ * Render a report as plain-text tables (for scripts and copy/paste)
+ */
+export function formatBalanceReport(report: BalanceReport): string {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`.padStart(7);
+  const lines: string[] = [];
+  lines.push(`Balance report — ${report.battlesPerMatchup} battles/matchup, seeds ${report.baseSeed}+, level ${report.level}`);
+
+  const section = (title: string, rows: MatchupResult[]) => {
+    if (rows.length === 0) return;
+    lines.push('', `== ${title} ==`);
+    lines.push(`${'Player'.padEnd(24)} ${'Enemy'.padEnd(32)}    Win    Draw  Turns`);
+    for (const r of rows) {
+      lines.push(
+        `${r.player.slice(0, 24).padEnd(24)} ${r.enemy.slice(0, 32).padEnd(32)} ${pct(r.stats.winRate)} ${pct(r.stats.drawRate)} ${r.stats.avgTurns.toFixed(1).padStart(6)}`
+      );
+    }
+  };
+  section('Role vs role', report.roleMatchups);
+  section('Rarity vs rarity', report.rarityMatchups);
+  section('Team vs dungeon rooms', report.roomMatchups);
+
+  lines.push('', '== Damage / heal share per role ==');
+  for (const s of report.roleShares) {
+    lines.push(`${s.role.padEnd(10)} dmg ${pct(s.damageShare)}  heal ${pct(s.healShare)}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,269 @@
+/**
+ * Battle display state
+ * Flat per-unit view model for BattleGrid, built from a battle setup and
+ * advanced one CombatAction at a time during playback.
+ */
+
+import { findSnapshot } from './battleLog';
+import { assignFormation } from './formation';
+import type { BattleSetup } from './replay';
+import { applySynergyStats, getSynergyBonuses, getTeamSynergies } from './synergies';
+import type {
+  AnimState,
+  BattleResult,
+  CombatAction,
+  DisplaySize,
+  HitEffect,
+  Position,
+  Role,
+  SpriteSet,
+  SpriteSource,
+  StatusEffectType,
+  TurnOrderEntry,
+} from './types';
+
+/** Flat display unit for the grid (no Maps, no deep proxies) */
+export interface DisplayUnit {
+  id: string;
+  name: string;
+  role: Role;
+  currentHp: number;
+  maxHp: number;
+  atk: number;
+  def: number;
+  spd: number;
+  position: Position;
+  team: 'player' | 'enemy';
+  isAlive: boolean;
+  sprites?: SpriteSet;
+  animState?: AnimState;
+  hitEffect?: HitEffect;
+  isBoss?: boolean;
+  displaySize?: DisplaySize;
+  isSummoned?: boolean;
+  abilityOverlay?: SpriteSource;
+  statusEffects?: StatusEffectType[];
+  /** Current energy (undefined when abilities trigger randomly) */
+  energy?: number;
+}
+
+/**
+ * Initial display units for a battle setup
+ * Uses the same placement and synergy bonuses as the simulation, plus boss
+ * flags and carried-over HP
+ */
+export function createDisplayUnits(setup: BattleSetup): DisplayUnit[] {
+  const units: DisplayUnit[] = [];
+  const bossIds = setup.options?.bossIds;
+  const hpOverrides = setup.options?.playerHpOverrides;
+  const energy = setup.options?.abilityTrigger === 'random' ? undefined : 0;
+
+  const addTeam = (team: BattleSetup['playerTeam'], teamType: 'player' | 'enemy') => {
+    const placement = teamType === 'player'
+      ? assignFormation(team, setup.options?.playerPositions)
+      : assignFormation(team, setup.options?.enemyPositions, bossIds);
+    if (typeof placement === 'string') return;
+    const bonuses = setup.options?.synergies
+      ? getSynergyBonuses(getTeamSynergies(team, setup.options.synergies))
+      : undefined;
+
+    for (const char of team) {
+      const position = placement.get(char.id);
+      if (!position) continue;
+      const hp = teamType === 'player' ? hpOverrides?.get(char.id) : undefined;
+      const baseHp = hp?.maxHp ?? char.hp;
+      const stats = applySynergyStats({ hp: baseHp, atk: char.atk, def: char.def, spd: char.spd }, bonuses?.get(char.id));
+      const currentHp = hp ? Math.floor((hp.currentHp * stats.hp) / baseHp) : stats.hp;
+      units.push({
+        id: char.id,
+        name: char.name,
+        role: char.role,
+        currentHp,
+        maxHp: stats.hp,
+        atk: stats.atk,
+        def: stats.def,
+        spd: stats.spd,
+        position,
+        team: teamType,
+        isAlive: currentHp > 0,
+        sprites: char.sprites,
+        animState: 'idle',
+        isBoss: (teamType === 'enemy' && bossIds?.has(char.id)) || undefined,
+        displaySize: char.definition.displaySize,
+        energy,
+      });
+    }
+  };
+
+  addTeam(setup.playerTeam, 'player');
+  addTeam(setup.enemyTeam, 'enemy');
+  return units;
+}
+
+/**
+ * Apply one combat action to the display state
+ * Returns a new array (safe for reactive stores): living units reset to idle,
+ * hit effects and overlays cleared, dead summons removed from the grid (unless
+ * the action revives them). HP, deaths and ATK come from the action's delta;
+ * the action type only drives animations and hit effects.
+ */
+export function applyActionToDisplay(units: DisplayUnit[], action: CombatAction): DisplayUnit[] {
+  const revivedId = action.traitEffect === 'revive' ? action.actorId : undefined;
+  const updated: DisplayUnit[] = units
+    .filter((u) => u.isAlive || !u.isSummoned || u.id === revivedId)
+    .map((u) => ({
+      ...u,
+      animState: u.isAlive ? 'idle' : 'death',
+      hitEffect: undefined,
+      abilityOverlay: undefined,
+    }));
+  const find = (id: string | undefined) => updated.find((u) => u.id === id);
+
+  for (const [id, energy] of Object.entries(action.energy ?? {})) {
+    const unit = find(id);
+    if (unit) unit.energy = energy;
+  }
+
+  const hit = (unit: DisplayUnit | undefined, hitEffect: HitEffect, overlay?: SpriteSource) => {
+    if (!unit) return;
+    unit.hitEffect = hitEffect;
+    if (overlay) unit.abilityOverlay = overlay;
+  };
+
+  const cast = (animState: AnimState) => {
+    const actor = find(action.actorId);
+    if (!actor) return;
+    actor.animState = animState;
+    if (action.abilityCasterSprite) actor.abilityOverlay = action.abilityCasterSprite;
+  };
+
+  if (action.actionType === 'attack' || action.actionType === 'ability') {
+    cast(action.actionType === 'ability' ? 'castAbility' : 'attack');
+    if (action.aoeTargets && action.aoeTargets.length > 0) {
+      for (const aoe of action.aoeTargets) hit(find(aoe.id), 'damage', action.abilityTargetSprite);
+    } else if (action.damage !== undefined) {
+      hit(find(action.targetId), 'damage', action.abilityTargetSprite);
+    }
+  } else if (action.actionType === 'heal') {
+    cast('castAbility');
+    if (action.healing !== undefined) hit(find(action.targetId), 'heal', action.abilityTargetSprite);
+  } else if (action.actionType === 'effect_tick') {
+    // Damage over time (stun ticks carry no damage)
+    if (action.damage) hit(find(action.targetId), 'damage');
+  } else if (action.actionType === 'effect_apply' || action.actionType === 'effect_expire') {
+    const target = find(action.targetId);
+    // An expiring stack only removes the effect when no other stack of it remains
+    if (target && action.statusEffect && (action.actionType === 'effect_apply' || !action.delta?.effectStacks)) {
+      const others = (target.statusEffects ?? []).filter((e) => e !== action.statusEffect);
+      target.statusEffects = action.actionType === 'effect_apply' ? [...others, action.statusEffect] : others;
+    }
+  } else if (action.actionType === 'trait') {
+    if (action.traitEffect === 'extra_attack') cast('attack');
+    if (action.damage !== undefined) hit(find(action.targetId), 'damage');
+    else if (action.healing !== undefined) hit(find(action.targetId), 'heal');
+  } else if (action.actionType === 'phase') {
+    cast('castAbility');
+    hit(find(action.actorId), 'phase');
+  } else if (action.actionType === 'summon' && action.summonedUnit) {
+    cast('castAbility');
+    const su = action.summonedUnit;
+    const summoner = find(action.actorId);
+    updated.push({
+      id: su.id,
+      name: su.name,
+      role: su.role,
+      currentHp: su.hp,
+      maxHp: su.hp,
+      atk: su.atk,
+      def: su.def,
+      spd: su.spd,
+      position: su.position,
+      team: su.team,
+      isAlive: true,
+      sprites: su.sprites,
+      animState: 'idle',
+      isSummoned: true,
+      energy: summoner?.energy !== undefined ? 0 : undefined,
+    });
+  }
+
+  // State changes (a unit at 0 HP shows as down; a revive brings it back)
+  for (const [id, hp] of Object.entries(action.delta?.hp ?? {})) {
+    const unit = find(id);
+    if (!unit) continue;
+    unit.currentHp = hp.after;
+    unit.isAlive = hp.after > 0;
+    if (!unit.isAlive) unit.animState = 'death';
+    else if (unit.animState === 'death') unit.animState = 'idle';
+  }
+  for (const id of action.delta?.deaths ?? []) {
+    const unit = find(id);
+    if (!unit) continue;
+    unit.isAlive = false;
+    unit.currentHp = 0;
+    unit.animState = 'death';
+  }
+  for (const [id, atk] of Object.entries(action.delta?.atk ?? {})) {
+    const unit = find(id);
+    if (unit) unit.atk = atk;
+  }
+
+  return updated;
+}
+
+/** Display state after the whole action log has been applied */
+export function finalDisplayUnits(setup: BattleSetup, actionLog: CombatAction[]): DisplayUnit[] {
+  return actionLog.reduce(applyActionToDisplay, createDisplayUnits(setup));
+}
+
+/**
+ * Display state once the first actionCount actions have happened
+ * Starts from the nearest battle snapshot instead of the beginning of the log;
+ * animations and hit effects are those of the last action applied.
+ */
+export function displayUnitsAt(
+  setup: BattleSetup,
+  result: Pick<BattleResult, 'actionLog' | 'snapshots'>,
+  actionCount: number
+): DisplayUnit[] {
+  const snapshot = findSnapshot(result.snapshots, actionCount);
+  if (!snapshot) return finalDisplayUnits(setup, result.actionLog.slice(0, actionCount));
+
+  // Display metadata of the units summoned before the snapshot
+  const summoned = result.actionLog
+    .slice(0, snapshot.actionIndex)
+    .flatMap((a) => (a.actionType === 'summon' && a.summonedUnit ? [a.summonedUnit] : []));
+  // Same order as playback: starting units, then summons in the order they arrived
+  const bases: Omit<DisplayUnit, 'currentHp' | 'maxHp' | 'atk' | 'def' | 'spd' | 'position' | 'team' | 'isAlive'>[] = [
+    ...createDisplayUnits(setup),
+    ...summoned.map((su) => ({ id: su.id, name: su.name, role: su.role, sprites: su.sprites, isSummoned: true })),
+  ];
+  const units: DisplayUnit[] = [];
+  for (const base of bases) {
+    const state = snapshot.units.find((u) => u.characterId === base.id);
+    if (!state || (state.isSummoned && !state.isAlive)) continue;
+    units.push({
+      ...base,
+      currentHp: state.currentHp,
+      maxHp: state.maxHp,
+      atk: state.atk,
+      def: state.def,
+      spd: state.spd,
+      position: state.position,
+      team: state.team,
+      isAlive: state.isAlive,
+      animState: state.isAlive ? 'idle' : 'death',
+      statusEffects: state.statusEffects,
+      energy: setup.options?.abilityTrigger === 'random' ? undefined : state.energy,
+    });
+  }
+  return result.actionLog.slice(snapshot.actionIndex, actionCount).reduce(applyActionToDisplay, units);
+}
+
+/**
+ * Turns that have not started yet at a playback position, in timeline order
+ * @param currentIndex Index of the last action shown (-1 before playback)
+ */
+export function upcomingTurns(turnOrder: TurnOrderEntry[], currentIndex: number, count: number): TurnOrderEntry[] {
+  return turnOrder.filter((t) => t.actionIndex > currentIndex).slice(0, count);
+}
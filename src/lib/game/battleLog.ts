@@ -0,0 +1,85 @@
+/**
+ * Event-sourced battle log
+ * Each CombatAction carries the unit state changes it made (HP, deaths,
+ * spawned units, ATK, cooldowns, energy, status effects) and the result holds
+ * periodic full snapshots, so any action index can be reached from the nearest
+ * snapshot without re-running the battle.
+ */
+
+import type { BattleResult, BattleSnapshot, CombatAction, UnitSnapshot } from './types';
+
+/** Actions between two full snapshots of the battle state */
+export const BATTLE_SNAPSHOT_INTERVAL = 25;
+
+/** Apply one action's state changes; returns new unit states (inputs are not mutated) */
+export function applyActionDelta(units: UnitSnapshot[], action: CombatAction): UnitSnapshot[] {
+  const delta = action.delta;
+  const updated = units.map((u) => ({ ...u }));
+  // Spawned units join the end of their team, like in snapshots
+  for (const spawned of delta?.spawned ?? []) {
+    const enemyStart = updated.findIndex((u) => u.team === 'enemy');
+    const index = spawned.team === 'enemy' || enemyStart < 0 ? updated.length : enemyStart;
+    updated.splice(index, 0, { ...spawned, position: { ...spawned.position }, cooldowns: {}, statusEffects: [] });
+  }
+  const find = (id: string | undefined) => updated.find((u) => u.characterId === id);
+
+  for (const [id, hp] of Object.entries(delta?.hp ?? {})) {
+    const unit = find(id);
+    if (unit) unit.currentHp = hp.after;
+  }
+  for (const [id, atk] of Object.entries(delta?.atk ?? {})) {
+    const unit = find(id);
+    if (unit) unit.atk = atk;
+  }
+  for (const [id, cooldowns] of Object.entries(delta?.cooldowns ?? {})) {
+    const unit = find(id);
+    if (unit) unit.cooldowns = { ...unit.cooldowns, ...cooldowns };
+  }
+  for (const [id, energy] of Object.entries(action.energy ?? {})) {
+    const unit = find(id);
+    if (unit) unit.energy = energy;
+  }
+  for (const id of delta?.deaths ?? []) {
+    const unit = find(id);
+    if (!unit) continue;
+    unit.isAlive = false;
+    unit.statusEffects = [];
+  }
+
+  if (action.statusEffect && (action.actionType === 'effect_apply' || action.actionType === 'effect_expire')) {
+    const target = find(action.targetId);
+    // An expiring stack only removes the effect when no other stack of it remains
+    if (target && (action.actionType === 'effect_apply' || !delta?.effectStacks)) {
+      const others = target.statusEffects.filter((e) => e !== action.statusEffect);
+      target.statusEffects = action.actionType === 'effect_apply' ? [...others, action.statusEffect] : others;
+    }
+  }
+  return updated;
+}
+
+/** Latest snapshot taken at or before an action index (the start snapshot if none) */
+export function findSnapshot(snapshots: BattleSnapshot[], actionIndex: number): BattleSnapshot | undefined {
+  let found: BattleSnapshot | undefined;
+  for (const snapshot of snapshots) {
+    if (snapshot.actionIndex > actionIndex) break;
+    found = snapshot;
+  }
+  return found;
+}
+
+/**
+ * Unit states once the first actionCount actions of a battle have happened
+ * Starts from the nearest snapshot and applies the deltas after it; the end of
+ * the log returns the final snapshot as is.
+ */
+export function getUnitStatesAt(result: Pick<BattleResult, 'actionLog' | 'snapshots'>, actionCount: number): UnitSnapshot[] {
+  const count = Math.max(0, Math.min(actionCount, result.actionLog.length));
+  const snapshot = findSnapshot(result.snapshots, count);
+  if (!snapshot) return [];
+  return result.actionLog.slice(snapshot.actionIndex, count).reduce(applyActionDelta, snapshot.units);
+}
+
+/** Unit states when the battle ended */
+export function getFinalUnitStates(result: Pick<BattleResult, 'actionLog' | 'snapshots'>): UnitSnapshot[] {
+  return getUnitStatesAt(result, result.actionLog.length);
+}
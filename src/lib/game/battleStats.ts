@@ -0,0 +1,141 @@
+/**
+ * Battle statistics
+ * Per-unit combat totals aggregated by the simulation, the MVP pick of a
+ * battle and run-wide totals across dungeon rooms.
+ */
+
+/** Combat totals of one unit over a battle (or a run) */
+export interface UnitBattleStats {
+  unitId: string;
+  name: string;
+  team: 'player' | 'enemy';
+  /** Whether the unit was summoned mid-battle */
+  isSummoned?: boolean;
+  /** HP damage dealt by attacks, abilities, traits and damage over time */
+  damageDealt: number;
+  /** HP damage taken */
+  damageTaken: number;
+  /** Damage the unit's DEF prevented on hits it took */
+  damageMitigated: number;
+  /** HP restored by heals, lifesteal and heal traits */
+  healingDone: number;
+  /** Healing lost to full HP */
+  overheal: number;
+  kills: number;
+  crits: number;
+  abilitiesCast: number;
+  /** Battle turns spent on the field alive */
+  turnsAlive: number;
+}
+
+/** Numeric fields of UnitBattleStats */
+export type BattleStatKey =
+  | 'damageDealt'
+  | 'damageTaken'
+  | 'damageMitigated'
+  | 'healingDone'
+  | 'overheal'
+  | 'kills'
+  | 'crits'
+  | 'abilitiesCast'
+  | 'turnsAlive';
+
+export const BATTLE_STAT_KEYS: BattleStatKey[] = [
+  'damageDealt',
+  'damageTaken',
+  'damageMitigated',
+  'healingDone',
+  'overheal',
+  'kills',
+  'crits',
+  'abilitiesCast',
+  'turnsAlive',
+];
+
+/** Short column labels for battle stats */
+export const BATTLE_STAT_LABELS: Record<BattleStatKey, string> = {
+  damageDealt: 'Dmg',
+  damageTaken: 'Taken',
+  damageMitigated: 'Mitig.',
+  healingDone: 'Heal',
+  overheal: 'Overheal',
+  kills: 'Kills',
+  crits: 'Crits',
+  abilitiesCast: 'Abil.',
+  turnsAlive: 'Turns',
+};
+
+/** Summed battle stats of a team */
+export type BattleStatTotals = Record<BattleStatKey, number>;
+
+/** MVP score bonus per kill */
+export const MVP_KILL_BONUS = 100;
+
+/** Empty stats for a unit entering a battle */
+export function createUnitBattleStats(
+  unitId: string,
+  name: string,
+  team: 'player' | 'enemy',
+  isSummoned?: boolean
+): UnitBattleStats {
+  return {
+    unitId,
+    name,
+    team,
+    ...(isSummoned && { isSummoned }),
+    damageDealt: 0,
+    damageTaken: 0,
+    damageMitigated: 0,
+    healingDone: 0,
+    overheal: 0,
+    kills: 0,
+    crits: 0,
+    abilitiesCast: 0,
+    turnsAlive: 0,
+  };
+}
+
+/** MVP score: damage dealt and healing done, half the damage mitigated, plus a bonus per kill */
+export function getMvpScore(stats: UnitBattleStats): number {
+  return stats.damageDealt + stats.healingDone + stats.damageMitigated / 2 + stats.kills * MVP_KILL_BONUS;
+}
+
+/**
+ * Best unit of a team by MVP score (summons are not eligible)
+ * Ties go to the earlier unit; undefined when the team has no unit.
+ */
+export function pickMvp(stats: UnitBattleStats[], team: 'player' | 'enemy' = 'player'): UnitBattleStats | undefined {
+  let mvp: UnitBattleStats | undefined;
+  for (const unit of stats) {
+    if (unit.team !== team || unit.isSummoned) continue;
+    if (!mvp || getMvpScore(unit) > getMvpScore(mvp)) mvp = unit;
+  }
+  return mvp;
+}
+
+/** Sum the stats of a team's units */
+export function getTeamTotals(stats: UnitBattleStats[], team: 'player' | 'enemy' = 'player'): BattleStatTotals {
+  const totals = Object.fromEntries(BATTLE_STAT_KEYS.map((key) => [key, 0])) as BattleStatTotals;
+  for (const unit of stats) {
+    if (unit.team !== team) continue;
+    for (const key of BATTLE_STAT_KEYS) totals[key] += unit[key];
+  }
+  return totals;
+}
+
+/**
+ * Merge the stats of several battles by unit ID, in first-seen order
+ * (player characters keep their ID from room to room of a dungeon run)
+ */
+export function sumBattleStats(battles: UnitBattleStats[][]): UnitBattleStats[] {
+  const merged = new Map<string, UnitBattleStats>();
+  for (const unit of battles.flat()) {
+    const total = merged.get(unit.unitId);
+    if (!total) {
+      merged.set(unit.unitId, { ...unit });
+      continue;
+    }
+    for (const key of BATTLE_STAT_KEYS) total[key] += unit[key];
+  }
+  return [...merged.values()];
+}
@@ -0,0 +1,66 @@
+/**
+ * Boss phases
+ * Scripted boss encounters: crossing an HP threshold starts a new phase
+ * (summoning adds, swapping the ability list, raising a shield), and an
+ * enrage turn multiplies the boss's ATK to cap how long a fight can drag on.
+ */
+
+import type { AbilityGambit } from './gambits';
+
+/** A phase of a boss script, started once when the boss drops to its HP threshold */
+export interface BossPhase {
+  id: string;
+  name: string;
+  /** HP fraction at or below which the phase starts (0-1) */
+  hpThreshold: number;
+  /** Enemy templates summoned as the phase starts (one unit each, space permitting) */
+  summonIds?: string[];
+  /** Ability list used from this phase on (the current one is kept when missing or empty) */
+  abilities?: AbilityGambit[];
+  /** Shield raised as the phase starts, as a fraction of max HP */
+  shield?: number;
+}
+
+/** Enrage timer of a boss script */
+export interface BossEnrage {
+  /** Battle turn from which the boss enrages (checked at the start of its own turns) */
+  turn: number;
+  /** ATK multiplier once enraged */
+  atkMultiplier: number;
+}
+
+/** Turns a phase shield lasts */
+export const BOSS_PHASE_SHIELD_DURATION = 3;
+
+/** Enrage picked when an editor enables it */
+export const DEFAULT_BOSS_ENRAGE: BossEnrage = { turn: 20, atkMultiplier: 1.5 };
+
+/** Phases in the order a boss goes through them (highest HP threshold first) */
+export function sortBossPhases<T extends { hpThreshold: number }>(phases: T[]): T[] {
+  return [...phases].sort((a, b) => b.hpThreshold - a.hpThreshold);
+}
+
+/**
+ * Phases a boss starts at an HP ratio
+ * @param sorted phases from sortBossPhases
+ * @param entered number of phases already started
+ */
+export function getPhasesToEnter<T extends { hpThreshold: number }>(sorted: T[], entered: number, hpRatio: number): T[] {
+  const next: T[] = [];
+  for (let i = entered; i < sorted.length && hpRatio <= sorted[i].hpThreshold; i++) next.push(sorted[i]);
+  return next;
+}
+
+/** Short human-readable form of a phase, e.g. "Below 50% HP: summons 2, new abilities" */
+export function describeBossPhase(phase: BossPhase): string {
+  const parts: string[] = [];
+  if (phase.summonIds && phase.summonIds.length > 0) parts.push(`summons ${phase.summonIds.length}`);
+  if (phase.abilities && phase.abilities.length > 0) parts.push('new abilities');
+  if (phase.shield) parts.push(`shield ${Math.round(phase.shield * 100)}% max HP`);
+  return `Below ${Math.round(phase.hpThreshold * 100)}% HP: ${parts.length > 0 ? parts.join(', ') : 'no effect'}`;
+}
+
+/** Short human-readable form of an enrage timer, e.g. "Turn 20: ATK x1.5" */
+export function describeBossEnrage(enrage: BossEnrage): string {
+  return `Turn ${enrage.turn}: ATK x${enrage.atkMultiplier}`;
+}
@@ -0,0 +1,409 @@
+/**
+ * Dungeon run engine
+ * Runs a team through a dungeon's rooms in order, with HP carry-over between
+ * rooms and per-room rewards. Framework-agnostic: the Svelte views and
+ * headless scripts drive the same state machine:
+ *
+ *   select → running → room_result → running → ... → complete | failed
+ */
+
+import { Character } from './Character';
+import { AutoBattleSimulation, type BossScript, type SummonTemplate } from './AutoBattleSimulation';
+import { getFinalUnitStates } from './battleLog';
+import { formationToMap, validateFormation, validateRoomFormation, type Formation } from './formation';
+import {
+  computeContentHash,
+  createBattleReplay,
+  type BattleReplay,
+  type BattleSetup,
+} from './replay';
+import type { AbilityDefinition } from './abilities';
+import { sumBattleStats, type UnitBattleStats } from './battleStats';
+import { rollGearDrop, type GearConfig, type GearItem, type GearStats } from './gear';
+import type { SynergyDefinition } from './synergies';
+import type { AbilityTriggerMode, BaseStats, BattleResult, CharacterDefinition, Position, Rarity, Role } from './types';
+import type { Dungeon, DungeonRoom, EnemyTemplate } from '../admin/adminTypes';
+
+export type DungeonRunPhase = 'select' | 'running' | 'room_result' | 'complete' | 'failed';
+
+/** Content a dungeon run needs (a subset of GameContent) */
+export interface DungeonRunContent {
+  characters: CharacterDefinition[];
+  enemies: EnemyTemplate[];
+  abilities: AbilityDefinition[];
+  roleStats?: Partial<Record<Role, BaseStats>>;
+  rarityMultipliers?: Partial<Record<Rarity, number>>;
+  abilityTrigger?: AbilityTriggerMode;
+  /** Gear drop settings (no drops when missing) */
+  gearConfig?: GearConfig;
+  /** Team synergies (none when missing) */
+  synergies?: SynergyDefinition[];
+}
+
+/** A character entering the dungeon */
+export interface DungeonRunMember {
+  characterId: string;
+  level: number;
+  ascension: number;
+  /** Summed bonuses of the member's equipped gear */
+  gear?: Partial<GearStats>;
+}
+
+export interface DungeonRunConfig {
+  content: DungeonRunContent;
+  dungeon: Dungeon;
+  team: DungeonRunMember[];
+  /** Explicit player positions by character ID */
+  formation?: Formation;
+  /** Run seed: room N is fought with seed + N * 1000 */
+  seed: number;
+}
+
+/** HP carried from one room to the next, without synergy bonuses (each room applies its own) */
+export type CarriedHp = Map<string, { currentHp: number; maxHp: number }>;
+
+/** Outcome of one room */
+export interface DungeonRoomResult {
+  roomIndex: number;
+  room: DungeonRoom;
+  setup: BattleSetup;
+  result: BattleResult;
+  replay: BattleReplay;
+  /** Player characters alive after the battle, with their remaining HP */
+  survivorHp: CarriedHp;
+  /** Room rewards (zero when the room was lost) */
+  rewards: { xp: number; gold: number; gear?: GearItem };
+}
+
+/** Seed offset between consecutive rooms of a run */
+const ROOM_SEED_STRIDE = 1000;
+/** Mixed into the room seed so gear rolls don't mirror the battle's RNG stream */
+const GEAR_SEED_SALT = 0x6e4a;
+
+export class DungeonRun {
+  readonly dungeon: Dungeon;
+  readonly seed: number;
+  private readonly content: DungeonRunContent;
+  private readonly team: DungeonRunMember[];
+  private readonly formation: Formation;
+  private readonly contentHash: string;
+
+  private _phase: DungeonRunPhase = 'select';
+  private _currentRoomIndex = 0;
+  private _roomResults: DungeonRoomResult[] = [];
+  private survivors: CarriedHp = new Map();
+
+  constructor(config: DungeonRunConfig) {
+    this.content = config.content;
+    this.dungeon = config.dungeon;
+    this.team = config.team;
+    this.formation = config.formation ?? {};
+    this.seed = config.seed;
+    this.contentHash = computeContentHash(config.content);
+  }
+
+  get phase(): DungeonRunPhase {
+    return this._phase;
+  }
+
+  get currentRoomIndex(): number {
+    return this._currentRoomIndex;
+  }
+
+  get currentRoom(): DungeonRoom | null {
+    return this.dungeon.rooms[this._currentRoomIndex] ?? null;
+  }
+
+  get roomResults(): readonly DungeonRoomResult[] {
+    return this._roomResults;
+  }
+
+  get latestResult(): DungeonRoomResult | null {
+    return this._roomResults[this._roomResults.length - 1] ?? null;
+  }
+
+  /** Player unit stats summed over the rooms fought so far */
+  get runStats(): UnitBattleStats[] {
+    return sumBattleStats(this._roomResults.map((r) => r.result.unitStats.filter((u) => u.team === 'player')));
+  }
+
+  get isLastRoom(): boolean {
+    return this._currentRoomIndex + 1 >= this.dungeon.rooms.length;
+  }
+
+  /** HP the player team currently carries (empty before the first room) */
+  get survivorHp(): CarriedHp {
+    return new Map(this.survivors);
+  }
+
+  /**
+   * Check the team, formation and rooms before starting
+   * @returns an error message, or null if the run can start
+   */
+  validate(): string | null {
+    if (this.dungeon.rooms.length === 0) return `${this.dungeon.name} has no rooms`;
+    const defs = this.team
+      .map((m) => this.content.characters.find((c) => c.id === m.characterId))
+      .filter((d): d is CharacterDefinition => d !== undefined);
+    if (defs.length === 0) return 'Select at least one character';
+
+    const formationError = validateFormation(defs, formationToMap(this.formation));
+    if (formationError) return `Team formation: ${formationError}`;
+    for (const room of this.dungeon.rooms) {
+      const roomError = validateRoomFormation(room, this.content.enemies);
+      if (roomError) return `${room.name}: ${roomError}`;
+    }
+    return null;
+  }
+
+  /**
+   * select → running
+   * @returns an error message if the run can't start
+   */
+  start(): string | null {
+    if (this._phase !== 'select') return 'Run already started';
+    const error = this.validate();
+    if (error) return error;
+    this._phase = 'running';
+    this._currentRoomIndex = 0;
+    this._roomResults = [];
+    this.survivors = new Map();
+    return null;
+  }
+
+  /**
+   * running → room_result: fight the current room
+   * @returns the room outcome, or an error message when no room is pending
+   */
+  fightRoom(): DungeonRoomResult | string {
+    const room = this.currentRoom;
+    if (this._phase !== 'running' || !room) return `Cannot fight a room while ${this._phase}`;
+
+    const roomIndex = this._currentRoomIndex;
+    const setup = createRoomSetup(
+      this.content,
+      room,
+      roomIndex,
+      this.team,
+      this.seed + roomIndex * ROOM_SEED_STRIDE,
+      roomIndex > 0 ? this.survivors : undefined,
+      this.formation
+    );
+    const result = new AutoBattleSimulation(
+      setup.playerTeam,
+      setup.enemyTeam,
+      setup.seed,
+      setup.options
+    ).simulate();
+
+    // Survivors keep their share of end-of-battle HP for the next room, on their HP before synergies
+    const baseHp = new Map(setup.playerTeam.map((c) => [c.id, c.hp]));
+    const survivorHp: CarriedHp = new Map();
+    for (const unit of getFinalUnitStates(result)) {
+      if (unit.team === 'player' && unit.isAlive && !unit.isSummoned) {
+        const maxHp = baseHp.get(unit.characterId) ?? unit.maxHp;
+        const currentHp = Math.max(1, Math.round((unit.currentHp * maxHp) / unit.maxHp));
+        survivorHp.set(unit.characterId, { currentHp, maxHp });
+      }
+    }
+
+    const won = result.winner === 'player';
+    const roomResult: DungeonRoomResult = {
+      roomIndex,
+      room,
+      setup,
+      result,
+      replay: createBattleReplay(setup, result, this.contentHash),
+      survivorHp,
+      rewards: won ? this.roomRewards(room, setup.seed) : { xp: 0, gold: 0 },
+    };
+
+    this.survivors = survivorHp;
+    this._roomResults = [...this._roomResults, roomResult];
+    this._phase = 'room_result';
+    return roomResult;
+  }
+
+  /** Rewards for a cleared room; the gear drop is rolled from the room's battle seed */
+  private roomRewards(room: DungeonRoom, roomSeed: number): DungeonRoomResult['rewards'] {
+    const rewards: DungeonRoomResult['rewards'] = { xp: room.xpReward ?? 0, gold: room.goldReward ?? 0 };
+    const gearConfig = this.content.gearConfig;
+    if (gearConfig) {
+      const chance = room.isBoss ? gearConfig.bossRoomDropChance : gearConfig.roomDropChance;
+      const gear = rollGearDrop(gearConfig, roomSeed ^ GEAR_SEED_SALT, chance);
+      if (gear) rewards.gear = gear;
+    }
+    return rewards;
+  }
+
+  /**
+   * room_result → running (next room) | complete | failed
+   */
+  advance(): DungeonRunPhase {
+    if (this._phase !== 'room_result') return this._phase;
+    const latest = this.latestResult;
+    if (!latest || latest.result.winner !== 'player' || this.survivors.size === 0) {
+      this._phase = 'failed';
+    } else if (this.isLastRoom) {
+      this._phase = 'complete';
+    } else {
+      this._currentRoomIndex++;
+      this._phase = 'running';
+    }
+    return this._phase;
+  }
+
+  /** Headless helper: play every remaining room until the run ends */
+  runToEnd(): DungeonRunPhase | string {
+    if (this._phase === 'select') {
+      const error = this.start();
+      if (error) return error;
+    }
+    while (this._phase === 'running' || this._phase === 'room_result') {
+      if (this._phase === 'running') {
+        const result = this.fightRoom();
+        if (typeof result === 'string') return result;
+      }
+      this.advance();
+    }
+    return this._phase;
+  }
+}
+
+/**
+ * Build both teams and battle options for a dungeon room
+ * Enemy IDs are `${templateId}_r${roomIndex}_${index}`; with carried HP, only
+ * survivors enter the room.
+ */
+export function createRoomSetup(
+  content: DungeonRunContent,
+  room: DungeonRoom,
+  roomIndex: number,
+  team: DungeonRunMember[],
+  seed: number,
+  survivorHp?: CarriedHp,
+  formation?: Formation
+): BattleSetup {
+  const summonerConfigs = new Map<string, { templates: SummonTemplate[]; maxSummons: number }>();
+  const bossIds = new Set<string>();
+  const bossScripts = new Map<string, BossScript>();
+  const enemyPositions = new Map<string, Position>();
+
+  const playerTeam = team
+    .filter((m) => !survivorHp || survivorHp.has(m.characterId))
+    .map((member) => {
+      const def = content.characters.find((c) => c.id === member.characterId);
+      if (!def) return null;
+
+      // Summons inherit the summoner's level and ascension
+      if (def.role === 'summoner' && def.summonIds && def.summonIds.length > 0) {
+        const templates: SummonTemplate[] = def.summonIds
+          .map((sid) => content.characters.find((c) => c.id === sid))
+          .filter((s): s is CharacterDefinition => s !== undefined)
+          .map((s) => ({
+            id: s.id,
+            name: s.name,
+            role: s.role,
+            level: member.level,
+            ascension: member.ascension,
+            sprites: s.sprites,
+            abilities: s.abilities,
+            resistances: s.resistances,
+            traits: s.traits,
+          }));
+        if (templates.length > 0) {
+          summonerConfigs.set(def.id, { templates, maxSummons: def.maxSummons ?? 1 });
+        }
+      }
+
+      return new Character(def, member.level, member.ascension, content.roleStats, content.rarityMultipliers, member.gear);
+    })
+    .filter((c): c is Character => c !== null);
+
+  const enemyTeam = room.enemies
+    .map((re, index) => {
+      const template = content.enemies.find((e) => e.id === re.enemyTemplateId);
+      if (!template) return null;
+      const charId = `${template.id}_r${roomIndex}_${index}`;
+      const def: CharacterDefinition = {
+        id: charId,
+        name: template.name,
+        role: template.role,
+        rarity: template.rarity,
+        abilityName: '',
+        abilityDescription: '',
+        abilities: template.abilities,
+        resistances: template.resistances,
+        traits: template.traits,
+        factions: template.factions,
+        sprites: template.sprites ?? (template.sprite ? { idle: template.sprite } : undefined),
+        displaySize: template.displaySize,
+      };
+      const level = Math.max(1, Math.round(template.level * room.difficultyMult));
+      if (re.position) enemyPositions.set(charId, re.position);
+
+      if (template.isBoss) bossIds.add(charId);
+
+      // Summons (and boss phase adds) inherit the summoner's level and ascension
+      if (template.role === 'summoner' && template.summonIds && template.summonIds.length > 0) {
+        const templates = enemySummonTemplates(content, template.summonIds, level, template.ascension);
+        summonerConfigs.set(charId, { templates, maxSummons: template.maxSummons ?? 1 });
+      }
+      if (template.isBoss && (template.phases?.length || template.enrage)) {
+        bossScripts.set(charId, {
+          phases: (template.phases ?? []).map(({ summonIds, ...phase }) => ({
+            ...phase,
+            summons: summonIds && enemySummonTemplates(content, summonIds, level, template.ascension),
+          })),
+          enrage: template.enrage,
+        });
+      }
+
+      return new Character(def, level, template.ascension, content.roleStats, content.rarityMultipliers);
+    })
+    .filter((c): c is Character => c !== null);
+
+  const playerPositions = formationToMap(formation);
+
+  return {
+    playerTeam,
+    enemyTeam,
+    seed,
+    options: {
+      summonerConfigs: summonerConfigs.size > 0 ? summonerConfigs : undefined,
+      customRoleStats: content.roleStats,
+      abilityDefs: content.abilities,
+      bossIds: bossIds.size > 0 ? bossIds : undefined,
+      bossScripts: bossScripts.size > 0 ? bossScripts : undefined,
+      playerHpOverrides: survivorHp && survivorHp.size > 0 ? new Map(survivorHp) : undefined,
+      playerPositions: playerPositions.size > 0 ? playerPositions : undefined,
+      enemyPositions: enemyPositions.size > 0 ? enemyPositions : undefined,
+      abilityTrigger: content.abilityTrigger,
+      synergies: content.synergies,
+    },
+  };
+}
+
+/** Battle templates of the enemies summoned by an enemy, at its level and ascension */
+function enemySummonTemplates(
+  content: DungeonRunContent,
+  summonIds: string[],
+  level: number,
+  ascension: number
+): SummonTemplate[] {
+  return summonIds
+    .map((sid) => content.enemies.find((e) => e.id === sid))
+    .filter((e): e is EnemyTemplate => e !== undefined)
+    .map((e) => ({
+      id: e.id,
+      name: e.name,
+      role: e.role,
+      level,
+      ascension,
+      sprites: e.sprites ?? (e.sprite ? { idle: e.sprite } : undefined),
+      abilities: e.abilities,
+      resistances: e.resistances,
+      traits: e.traits,
+      statOverrides: e.statOverrides,
+    }));
+}
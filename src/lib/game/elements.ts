@@ -0,0 +1,57 @@
+/**
+ * Damage types and elemental resistances
+ * Every hit has a damage type; the target's resistance to it scales the damage
+ * after DEF mitigation. Negative resistances are weaknesses.
+ */
+
+/** Damage types (basic attacks are physical) */
+export type DamageType = 'physical' | 'fire' | 'ice' | 'lightning' | 'holy' | 'shadow';
+
+export const DAMAGE_TYPES: DamageType[] = ['physical', 'fire', 'ice', 'lightning', 'holy', 'shadow'];
+
+/** Display labels for damage types */
+export const DAMAGE_TYPE_LABELS: Record<DamageType, string> = {
+  physical: 'Physical',
+  fire: 'Fire',
+  ice: 'Ice',
+  lightning: 'Lightning',
+  holy: 'Holy',
+  shadow: 'Shadow',
+};
+
+/**
+ * Resistance per damage type: fraction of damage prevented
+ * (0.5 = takes half, 1 = immune, -0.5 = weakness, takes 150%). Missing = 0.
+ */
+export type Resistances = Partial<Record<DamageType, number>>;
+
+/** Resistances are clamped to this range (1 = immune, -1 = double damage) */
+export const MIN_RESISTANCE = -1;
+export const MAX_RESISTANCE = 1;
+
+/** How a hit's damage type fared against the target */
+export type HitEffectiveness = 'super_effective' | 'resisted';
+
+/** Damage multiplier for a damage type against a resistance table */
+export function getDamageTypeMultiplier(resistances: Resistances | undefined, damageType: DamageType): number {
+  const resistance = resistances?.[damageType] ?? 0;
+  return 1 - Math.min(MAX_RESISTANCE, Math.max(MIN_RESISTANCE, resistance));
+}
+
+/** Effectiveness of a damage multiplier (undefined for neutral hits) */
+export function getEffectiveness(multiplier: number): HitEffectiveness | undefined {
+  if (multiplier > 1) return 'super_effective';
+  if (multiplier < 1) return 'resisted';
+  return undefined;
+}
+
+/** Short description of a resistance table, e.g. "Fire weak 50%, Ice resist 25%" */
+export function describeResistances(resistances: Resistances | undefined): string {
+  return DAMAGE_TYPES
+    .filter((type) => (resistances?.[type] ?? 0) !== 0)
+    .map((type) => {
+      const pct = Math.round(resistances![type]! * 100);
+      return `${DAMAGE_TYPE_LABELS[type]} ${pct > 0 ? 'resist' : 'weak'} ${Math.abs(pct)}%`;
+    })
+    .join(', ');
+}
@@ -8,6 +8,7 @@ import type { Role } from './types';
 import type { ExpeditionConfig, ExpeditionDuration } from '../admin/adminTypes';
 import type { ActiveExpedition, ExpeditionResult } from '../player/playerStore';
 import { SeededRNG } from './rng';
+import { rollGearItem, type GearConfig, type GearItem } from './gear';
 
 /**
  * Role-specific stat weights for power calculation.
@@ -59,11 +60,13 @@ export function calculateTeamPower(
 
 /**
  * Resolve an expedition that has completed.
- * Determines waves cleared, XP earned, and gacha chance.
+ * Determines waves cleared, XP earned, gacha chance and gear found
+ * (gear only when a gear config is given).
  */
 export function resolveExpedition(
   expedition: ActiveExpedition,
   config: ExpeditionConfig,
+  gearConfig?: GearConfig,
 ): ExpeditionResult {
   const tier = config.durationTiers[expedition.duration];
   const rng = new SeededRNG(expedition.startedAt);
@@ -111,6 +114,16 @@ export function resolveExpedition(
 
   const gachaPullWon = rng.chance(gachaChance);
 
+  // Gear: one find roll per wave cleared (rolled last so earlier rewards keep their rolls)
+  const gearFound: GearItem[] = [];
+  if (gearConfig) {
+    for (let w = 0; w < wavesCleared; w++) {
+      if (!rng.chance(gearConfig.expeditionDropChancePerWave)) continue;
+      const item = rollGearItem(gearConfig, rng, `gear_${expedition.id}_${w}`);
+      if (item) gearFound.push(item);
+    }
+  }
+
   return {
     wavesCleared,
     totalWaves: tier.totalWaves,
@@ -119,6 +132,7 @@ export function resolveExpedition(
     goldEarned,
     gachaPullWon,
     gachaChance,
+    gearFound,
   };
 }
 
@@ -0,0 +1,185 @@
+/**
+ * Battlefield formations
+ * Shared unit placement used by the simulation and by battle views, so both
+ * always agree on where each unit stands.
+ */
+
+import { ROLE_PREFERRED_ROW, type Position, type Role } from './types';
+import type { DungeonRoom, EnemyTemplate } from '../admin/adminTypes';
+
+/** Position on the regular 3x3 grid (row 3 is reserved for boss-fight minions) */
+export interface GridPosition {
+  row: 0 | 1 | 2;
+  col: 0 | 1 | 2;
+}
+
+/** Saved formation: unitId -> grid position (JSON-friendly, used by presets) */
+export type Formation = Record<string, GridPosition>;
+
+/** Minimal unit data needed to place a unit */
+export interface FormationUnit {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+/** Row used by non-boss enemies in boss fights */
+const BOSS_MINION_ROW = 3;
+
+/** Bosses a team can field: they stand side by side in row 0 */
+export const MAX_BOSSES = 3;
+
+function positionKey(pos: Position): string {
+  return `${pos.row},${pos.col}`;
+}
+
+/** True if pos is a well-formed position on the regular 3x3 grid */
+export function isValidGridPosition(pos: unknown): pos is GridPosition {
+  if (!pos || typeof pos !== 'object') return false;
+  const { row, col } = pos as { row: unknown; col: unknown };
+  return (
+    Number.isInteger(row) && Number.isInteger(col) &&
+    (row as number) >= 0 && (row as number) <= 2 &&
+    (col as number) >= 0 && (col as number) <= 2
+  );
+}
+
+/** Convert a saved formation to the Map form used by BattleOptions */
+export function formationToMap(formation: Formation | undefined): Map<string, GridPosition> {
+  return new Map(Object.entries(formation ?? {}));
+}
+
+/**
+ * Check explicit positions for a team
+ * Positions for units not in the team are ignored.
+ * @returns an error message, or null if the positions are valid
+ */
+export function validateFormation(
+  team: FormationUnit[],
+  positions: Map<string, Position>,
+  bossIds?: Set<string>
+): string | null {
+  const occupiedBy = new Map<string, string>();
+  const bossCount = team.filter((u) => bossIds?.has(u.id)).length;
+  const hasBoss = bossCount > 0;
+  if (bossCount > MAX_BOSSES) {
+    return `Too many bosses: ${bossCount} (at most ${MAX_BOSSES})`;
+  }
+
+  for (const unit of team) {
+    const pos = positions.get(unit.id);
+    if (pos === undefined) continue;
+    if (hasBoss) {
+      return `${unit.name}: explicit positions are not supported in boss fights`;
+    }
+    if (!isValidGridPosition(pos)) {
+      return `${unit.name}: invalid position ${JSON.stringify(pos)} (row and col must be 0-2)`;
+    }
+    const key = positionKey(pos);
+    const other = occupiedBy.get(key);
+    if (other !== undefined) {
+      return `Position collision: ${other} and ${unit.name} are both at row ${pos.row}, col ${pos.col}`;
+    }
+    occupiedBy.set(key, unit.name);
+  }
+  return null;
+}
+
+/**
+ * Check the explicit enemy positions of a dungeon room
+ * @returns an error message, or null if the room can be fought as placed
+ */
+export function validateRoomFormation(room: DungeonRoom, enemies: EnemyTemplate[]): string | null {
+  const units: FormationUnit[] = [];
+  const positions = new Map<string, Position>();
+  const bossIds = new Set<string>();
+
+  room.enemies.forEach((re, index) => {
+    const template = enemies.find((e) => e.id === re.enemyTemplateId);
+    if (!template) return;
+    const id = String(index);
+    units.push({ id, name: template.name, role: template.role });
+    if (re.position) positions.set(id, re.position);
+    if (template.isBoss) bossIds.add(id);
+  });
+
+  return validateFormation(units, positions, bossIds);
+}
+
+/**
+ * Place a team on its side of the battlefield
+ * Units with an explicit position keep it; the others are auto-placed by
+ * ROLE_PREFERRED_ROW in the remaining cells. Bosses stand side by side in
+ * row 0 (each covering rows 0-2), other units go to row 3. Units that don't
+ * fit are left out.
+ * @returns unitId -> position, or an error message for invalid positions
+ */
+export function assignFormation(
+  team: FormationUnit[],
+  positions?: Map<string, Position>,
+  bossIds?: Set<string>
+): Map<string, Position> | string {
+  const error = validateFormation(team, positions ?? new Map(), bossIds);
+  if (error) return error;
+
+  const placed = new Map<string, Position>();
+  const used = new Set<string>();
+  const sorted = [...team].sort(
+    (a, b) => ROLE_PREFERRED_ROW[a.role] - ROLE_PREFERRED_ROW[b.role]
+  );
+
+  if (team.some((u) => bossIds?.has(u.id))) {
+    let bossCol = 0;
+    for (const unit of sorted) {
+      if (bossIds?.has(unit.id)) {
+        placed.set(unit.id, { row: 0, col: bossCol++ as 0 | 1 | 2 });
+        continue;
+      }
+      for (let col = 0; col <= 2; col++) {
+        const pos: Position = { row: BOSS_MINION_ROW, col: col as 0 | 1 | 2 };
+        if (!used.has(positionKey(pos))) {
+          placed.set(unit.id, pos);
+          used.add(positionKey(pos));
+          break;
+        }
+      }
+    }
+    return placed;
+  }
+
+  // Explicit positions are reserved before anyone is auto-placed
+  for (const unit of team) {
+    const pos = positions?.get(unit.id);
+    if (pos) {
+      placed.set(unit.id, { row: pos.row, col: pos.col });
+      used.add(positionKey(pos));
+    }
+  }
+
+  const take = (row: number, col: number): Position | null => {
+    const pos: Position = { row: row as 0 | 1 | 2, col: col as 0 | 1 | 2 };
+    if (used.has(positionKey(pos))) return null;
+    used.add(positionKey(pos));
+    return pos;
+  };
+
+  for (const unit of sorted) {
+    if (placed.has(unit.id)) continue;
+    const preferredRow = ROLE_PREFERRED_ROW[unit.role];
+    let pos: Position | null = null;
+
+    // Try the preferred row first, then any free cell front to back
+    for (let col = 0; col <= 2 && !pos; col++) {
+      pos = take(preferredRow, col);
+    }
+    for (let row = 0; row <= 2 && !pos; row++) {
+      for (let col = 0; col <= 2 && !pos; col++) {
+        pos = take(row, col);
+      }
+    }
+
+    if (pos) placed.set(unit.id, pos);
+  }
+
+  return placed;
+}
@@ -0,0 +1,209 @@
+/**
+ * Gacha pulls
+ * Every pull is rolled from its own SeededRNG, derived from the player's
+ * gacha seed and pull counter, so any past pull can be re-derived and
+ * audited from the save alone. The Svelte views only animate the result.
+ *
+ * Pulls come from the standard pool of the gacha config, or from a limited
+ * banner with its own pool, rates, rate-up characters and pity counters.
+ * The pull and pity counters of a save are updated here too, so the module
+ * only depends on the PlayerSave type.
+ */
+
+import { SeededRNG, hashString } from './rng';
+import type { CharacterDefinition, Rarity } from './types';
+import type { GachaBanner, GachaConfig } from '../admin/adminTypes';
+import type { PlayerSave } from '../player/playerStore';
+
+/** Share of a featured rarity's pulls that go to featured characters when the banner doesn't set it */
+export const DEFAULT_FEATURED_RATE = 0.5;
+
+/** What a pull is rolled from: the standard pool or a banner */
+export type GachaPool = Pick<GachaBanner, 'characterPool' | 'rates' | 'pityRules' | 'featuredIds' | 'featuredRate'>;
+
+/** Rarities in roll order: the rate thresholds are accumulated in this order */
+const ROLL_ORDER: Rarity[] = ['legendary', 'epic', 'rare', 'common'];
+
+/** Rarities a pity rule can guarantee, highest first */
+const PITY_PRIORITY: Rarity[] = ['legendary', 'epic', 'rare'];
+
+/** Outcome of one roll, before it is applied to a save */
+export interface GachaRoll {
+  character: CharacterDefinition;
+  rarity: Rarity;
+  /** Whether a pity rule forced the rarity */
+  pityTriggered: boolean;
+}
+
+export interface GachaPullResult extends GachaRoll {
+  /** Position of this pull in the player's pull history (0 for the first pull) */
+  pullIndex: number;
+  /**
+   * Save after the pull: one pull consumed, pity counters and pull counter
+   * advanced. The character is not in the collection yet (the caller grants it).
+   */
+  newSave: PlayerSave;
+}
+
+/** Seed of the RNG a given pull is rolled from */
+export function getPullSeed(gachaSeed: number, pullIndex: number): number {
+  return hashString(`pull:${pullIndex}`, gachaSeed);
+}
+
+/** Characters of a pool, in pool order (unknown ids are skipped) */
+export function getGachaPool(pool: Pick<GachaPool, 'characterPool'>, characters: CharacterDefinition[]): CharacterDefinition[] {
+  return pool.characterPool
+    .map((id) => characters.find((c) => c.id === id))
+    .filter((c): c is CharacterDefinition => c !== undefined);
+}
+
+/** Consume one gacha pull */
+export function markGachaPulled(save: PlayerSave): PlayerSave {
+  return {
+    ...save,
+    daily: {
+      ...save.daily,
+      gachaPullsRemaining: Math.max(0, save.daily.gachaPullsRemaining - 1),
+    },
+  };
+}
+
+/**
+ * Update pity counters after a pull: increment all, reset the one that was obtained
+ * Pulls on a limited banner (bannerId) only count towards that banner's counters.
+ */
+export function updatePityCounters(save: PlayerSave, obtainedRarity: string, bannerId?: string): PlayerSave {
+  const counters = { ...(getPityCounters(save, bannerId) ?? {}) };
+  // Increment all rarity counters
+  for (const rarity of ['epic', 'legendary']) {
+    counters[rarity] = (counters[rarity] ?? 0) + 1;
+  }
+  // Reset the obtained rarity counter
+  counters[obtainedRarity] = 0;
+  if (bannerId === undefined) return { ...save, pityCounters: counters };
+  return { ...save, bannerPityCounters: { ...save.bannerPityCounters, [bannerId]: counters } };
+}
+
+/** Pity counters of the standard pool, or of a limited banner */
+export function getPityCounters(save: PlayerSave, bannerId?: string): Record<string, number> | undefined {
+  return bannerId === undefined ? save.pityCounters : save.bannerPityCounters?.[bannerId];
+}
+
+/** Get current pity count for a rarity (standard pool, or a limited banner) */
+export function getPityCount(save: PlayerSave, rarity: string, bannerId?: string): number {
+  return getPityCounters(save, bannerId)?.[rarity] ?? 0;
+}
+
+/** Rarity guaranteed by a pity rule on the next pull, checked from the highest rarity */
+export function getPityRarity(
+  pityCounters: Record<string, number> | undefined,
+  config: Pick<GachaPool, 'pityRules'>,
+  pool: CharacterDefinition[]
+): Rarity | null {
+  for (const rarity of PITY_PRIORITY) {
+    const rule = config.pityRules?.find((r) => r.rarity === rarity);
+    if (!rule || (pityCounters?.[rarity] ?? 0) + 1 < rule.pullsRequired) continue;
+    // A guarantee only applies when the pool has a character of that rarity
+    if (pool.some((c) => c.rarity === rarity)) return rarity;
+  }
+  return null;
+}
+
+/**
+ * Roll pull number pullIndex of a player, given the pity counters before it
+ * Pure: the same inputs always give the same roll, which is how pulls are audited.
+ * @returns the roll, or an error message when the pool is empty
+ */
+export function rollPull(
+  gachaSeed: number,
+  pullIndex: number,
+  pityCounters: Record<string, number> | undefined,
+  config: GachaPool,
+  characters: CharacterDefinition[]
+): GachaRoll | string {
+  const pool = getGachaPool(config, characters);
+  if (pool.length === 0) return 'The gacha pool is empty';
+  const rng = new SeededRNG(getPullSeed(gachaSeed, pullIndex));
+
+  const pityRarity = getPityRarity(pityCounters, config, pool);
+  let rarity: Rarity = pityRarity ?? 'common';
+  if (!pityRarity) {
+    const roll = rng.random();
+    let cumulative = 0;
+    for (const r of ROLL_ORDER) {
+      cumulative += config.rates[r] ?? 0;
+      if (roll < cumulative) {
+        rarity = r;
+        break;
+      }
+    }
+  }
+
+  // No character of the rolled rarity: any pool character can come out
+  const ofRarity = pool.filter((c) => c.rarity === rarity);
+  const candidates = ofRarity.length > 0 ? ofRarity : pool;
+
+  // Rate-up: featured characters of the rolled rarity take featuredRate of its pulls
+  let picks = candidates;
+  const featured = candidates.filter((c) => config.featuredIds?.includes(c.id));
+  if (featured.length > 0) {
+    const others = candidates.filter((c) => !featured.includes(c));
+    const won = others.length === 0 || rng.chance(config.featuredRate ?? DEFAULT_FEATURED_RATE);
+    picks = won ? featured : others;
+  }
+  // Report what came out: the fallback may give another rarity than the one rolled
+  const character = rng.pick(picks)!;
+  return { character, rarity: character.rarity, pityTriggered: pityRarity !== null };
+}
+
+/** Whether a banner is open at a time (ms since epoch) */
+export function isBannerOpen(banner: GachaBanner, now: number): boolean {
+  return (banner.startsAt === undefined || now >= banner.startsAt) && (banner.endsAt === undefined || now < banner.endsAt);
+}
+
+/** Banners that are open at a time, or will open later, in start order */
+export function getVisibleBanners(banners: GachaBanner[], now: number): GachaBanner[] {
+  return banners
+    .filter((b) => b.endsAt === undefined || now < b.endsAt)
+    .sort((a, b) => (a.startsAt ?? 0) - (b.startsAt ?? 0));
+}
+
+/** Short countdown label for a duration in ms ("2d 5h", "3h 12m", "4m 30s") */
+export function formatCountdown(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
+}
+
+export interface GachaPullOptions {
+  /** Limited banner to pull from (the standard pool of the config when missing) */
+  banner?: GachaBanner;
+  /** Current time (ms since epoch): pulls on a banner that isn't open are refused */
+  now?: number;
+}
+
+/**
+ * Perform the player's next pull
+ * Banner dates are only checked when options.now is given.
+ * @returns the pull with the updated save, or an error message
+ */
+export function pull(
+  save: PlayerSave,
+  config: GachaConfig,
+  characters: CharacterDefinition[],
+  options: GachaPullOptions = {}
+): GachaPullResult | string {
+  const { banner, now } = options;
+  if (save.daily.gachaPullsRemaining <= 0) return 'No gacha pulls remaining';
+  if (banner && now !== undefined && !isBannerOpen(banner, now)) return `Banner "${banner.name}" is not open`;
+  const pullIndex = save.gachaPullCount;
+  const roll = rollPull(save.gachaSeed, pullIndex, getPityCounters(save, banner?.id), banner ?? config, characters);
+  if (typeof roll === 'string') return roll;
+
+  const newSave = { ...updatePityCounters(markGachaPulled(save), roll.rarity, banner?.id), gachaPullCount: pullIndex + 1 };
+  return { ...roll, pullIndex, newSave };
+}
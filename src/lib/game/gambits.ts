@@ -0,0 +1,116 @@
+/**
+ * Ability gambits
+ * A unit's ordered ability list: on each action the first gambit whose
+ * ability is off cooldown, whose conditions hold and which finds a target is
+ * cast; the basic attack is the fallback.
+ */
+
+import { COMBAT_CONSTANTS } from './types';
+
+/** Condition checked before a gambit fires */
+export type GambitConditionType =
+  | 'chance'                  // Random roll: value = probability (0-1)
+  | 'self_hp_below'           // Caster HP under value (fraction of max HP)
+  | 'ally_hp_below'           // Any living ally (caster included) under value (fraction of max HP)
+  | 'enemies_alive_at_least'  // At least value enemies alive
+  | 'target_is_boss';         // One of the ability's targets is a boss (value unused)
+
+export interface GambitCondition {
+  type: GambitConditionType;
+  value: number;
+}
+
+/** One entry of a unit's ability list */
+export interface AbilityGambit {
+  abilityId: string;
+  /** Every condition must hold (empty = fire whenever the ability is ready) */
+  conditions: GambitCondition[];
+}
+
+/** Display labels for gambit conditions */
+export const GAMBIT_CONDITION_LABELS: Record<GambitConditionType, string> = {
+  chance: 'Chance',
+  self_hp_below: 'Self HP below',
+  ally_hp_below: 'Ally HP below',
+  enemies_alive_at_least: 'Enemies alive at least',
+  target_is_boss: 'Target is boss',
+};
+
+/** Default value when a condition is added in the editor */
+export const GAMBIT_CONDITION_DEFAULTS: Record<GambitConditionType, number> = {
+  chance: COMBAT_CONSTANTS.ABILITY_TRIGGER_CHANCE,
+  self_hp_below: 0.3,
+  ally_hp_below: 0.5,
+  enemies_alive_at_least: 3,
+  target_is_boss: 0,
+};
+
+/** Battle state a gambit's pre-target conditions are checked against */
+export interface GambitContext {
+  /** Caster HP as a fraction of max HP */
+  selfHpRatio: number;
+  /** Lowest HP fraction among living allies (caster included) */
+  lowestAllyHpRatio: number;
+  enemiesAlive: number;
+  /** Random roll in [0, 1), only called for chance conditions */
+  roll: () => number;
+  /** Treat chance conditions as met (energy trigger mode: energy replaces the random trigger) */
+  ignoreChance?: boolean;
+}
+
+/**
+ * Gambit with the default trigger chance, used for abilities that come
+ * without conditions (legacy ability names and IDs)
+ */
+export function createDefaultGambit(abilityId: string): AbilityGambit {
+  return {
+    abilityId,
+    conditions: [{ type: 'chance', value: COMBAT_CONSTANTS.ABILITY_TRIGGER_CHANCE }],
+  };
+}
+
+/**
+ * Check a gambit's conditions that don't depend on targets, in list order
+ * (target_is_boss is left to the caller once targets are known)
+ */
+export function checkGambitConditions(gambit: AbilityGambit, context: GambitContext): boolean {
+  for (const condition of gambit.conditions) {
+    switch (condition.type) {
+      case 'chance':
+        if (!context.ignoreChance && context.roll() >= condition.value) return false;
+        break;
+      case 'self_hp_below':
+        if (context.selfHpRatio >= condition.value) return false;
+        break;
+      case 'ally_hp_below':
+        if (context.lowestAllyHpRatio >= condition.value) return false;
+        break;
+      case 'enemies_alive_at_least':
+        if (context.enemiesAlive < condition.value) return false;
+        break;
+      case 'target_is_boss':
+        break;
+    }
+  }
+  return true;
+}
+
+/** True if the gambit only fires on boss targets */
+export function requiresBossTarget(gambit: AbilityGambit): boolean {
+  return gambit.conditions.some((c) => c.type === 'target_is_boss');
+}
+
+/** Short human-readable form of a condition, e.g. "Self HP below 30%" */
+export function describeGambitCondition(condition: GambitCondition): string {
+  const label = GAMBIT_CONDITION_LABELS[condition.type];
+  switch (condition.type) {
+    case 'chance':
+    case 'self_hp_below':
+    case 'ally_hp_below':
+      return `${label} ${Math.round(condition.value * 100)}%`;
+    case 'enemies_alive_at_least':
+      return `${label} ${condition.value}`;
+    case 'target_is_boss':
+      return label;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Equipment and gear
+ * Gear items are rolled from admin-defined item bases and affix pools, then
+ * owned by the player as self-contained snapshots (editing content never
+ * changes items already in an inventory). Equipped gear adds flat and
+ * percentage stat bonuses on top of level and ascension scaling.
+ */
+
+import type { Rarity } from './types';
+import { SeededRNG } from './rng';
+
+/** Equipment slots (one item per slot per character) */
+export type GearSlot = 'weapon' | 'armor' | 'accessory';
+
+export const GEAR_SLOTS: GearSlot[] = ['weapon', 'armor', 'accessory'];
+
+/** Stats gear can grant: flat values, or fractions of the scaled stat for *Pct */
+export type GearStat = 'hp' | 'atk' | 'def' | 'spd' | 'hpPct' | 'atkPct' | 'defPct';
+
+export const GEAR_STATS: GearStat[] = ['hp', 'atk', 'def', 'spd', 'hpPct', 'atkPct', 'defPct'];
+
+/** Display labels for gear stats */
+export const GEAR_STAT_LABELS: Record<GearStat, string> = {
+  hp: 'HP',
+  atk: 'ATK',
+  def: 'DEF',
+  spd: 'SPD',
+  hpPct: 'HP%',
+  atkPct: 'ATK%',
+  defPct: 'DEF%',
+};
+
+/** Summed bonuses of a set of gear items */
+export type GearStats = Record<GearStat, number>;
+
+/** An item base defined by the admin (e.g. "Iron Sword") */
+export interface ItemBase {
+  id: string;
+  name: string;
+  slot: GearSlot;
+  /** Stat granted by every item of this base */
+  mainStat: GearStat;
+  /** Main stat value at common rarity (scaled up by rarity) */
+  mainValue: number;
+}
+
+/** A random affix that can roll on items */
+export interface GearAffix {
+  id: string;
+  stat: GearStat;
+  /** Rolled value range (fractions for *Pct stats, e.g. 0.05 = +5%) */
+  min: number;
+  max: number;
+  /** Slots this affix can roll on (missing or empty = every slot) */
+  slots?: GearSlot[];
+  /** Relative roll weight (default 1) */
+  weight?: number;
+}
+
+/** Admin-configurable gear settings */
+export interface GearConfig {
+  itemBases: ItemBase[];
+  affixes: GearAffix[];
+  /** Drop rates per rarity (must sum to 1.0) */
+  rarityRates: Record<Rarity, number>;
+  /** Chance that a cleared dungeon room drops an item (0-1) */
+  roomDropChance: number;
+  /** Chance that a cleared boss room drops an item (0-1) */
+  bossRoomDropChance: number;
+  /** Chance per expedition wave cleared to find an item (0-1) */
+  expeditionDropChancePerWave: number;
+}
+
+/** A rolled affix on an owned item */
+export interface GearItemAffix {
+  stat: GearStat;
+  value: number;
+}
+
+/** An owned gear item */
+export interface GearItem {
+  /** Unique inventory ID */
+  id: string;
+  /** Reference to ItemBase.id (the item keeps working if the base is deleted) */
+  baseId: string;
+  name: string;
+  slot: GearSlot;
+  rarity: Rarity;
+  mainStat: GearStat;
+  mainValue: number;
+  affixes: GearItemAffix[];
+}
+
+/** Per-rarity roll rules: main stat multiplier and number of affixes */
+export const GEAR_RARITY_RULES: Record<Rarity, { mainStatMult: number; affixCount: number }> = {
+  common: { mainStatMult: 1, affixCount: 0 },
+  rare: { mainStatMult: 1.25, affixCount: 1 },
+  epic: { mainStatMult: 1.5, affixCount: 2 },
+  legendary: { mainStatMult: 2, affixCount: 3 },
+};
+
+/** Gold returned when salvaging an item, per rarity */
+export const GEAR_SALVAGE_GOLD: Record<Rarity, number> = {
+  common: 5,
+  rare: 15,
+  epic: 40,
+  legendary: 100,
+};
+
+const RARITY_ORDER: Rarity[] = ['common', 'rare', 'epic', 'legendary'];
+
+/** Whether a stat is a percentage bonus */
+export function isPercentGearStat(stat: GearStat): boolean {
+  return stat.endsWith('Pct');
+}
+
+/** Round a stat value the way items store it (integers, or hundredths for percentages) */
+function roundGearValue(stat: GearStat, value: number): number {
+  return isPercentGearStat(stat) ? Math.round(value * 100) / 100 : Math.round(value);
+}
+
+/** Format a stat bonus, e.g. "+12 ATK" or "+5% HP" */
+export function formatGearStat(stat: GearStat, value: number): string {
+  if (isPercentGearStat(stat)) return `+${Math.round(value * 100)}% ${GEAR_STAT_LABELS[stat].slice(0, -1)}`;
+  return `+${value} ${GEAR_STAT_LABELS[stat]}`;
+}
+
+/** Default gear content: a few bases per slot and a shared affix pool */
+export function createDefaultGearConfig(): GearConfig {
+  return {
+    itemBases: [
+      { id: 'gear_iron_sword', name: 'Iron Sword', slot: 'weapon', mainStat: 'atk', mainValue: 8 },
+      { id: 'gear_oak_staff', name: 'Oak Staff', slot: 'weapon', mainStat: 'atkPct', mainValue: 0.06 },
+      { id: 'gear_chainmail', name: 'Chainmail', slot: 'armor', mainStat: 'def', mainValue: 6 },
+      { id: 'gear_padded_vest', name: 'Padded Vest', slot: 'armor', mainStat: 'hp', mainValue: 60 },
+      { id: 'gear_swift_boots', name: 'Swift Boots', slot: 'accessory', mainStat: 'spd', mainValue: 3 },
+      { id: 'gear_ruby_ring', name: 'Ruby Ring', slot: 'accessory', mainStat: 'hpPct', mainValue: 0.06 },
+    ],
+    affixes: [
+      { id: 'affix_hp', stat: 'hp', min: 20, max: 60 },
+      { id: 'affix_atk', stat: 'atk', min: 3, max: 8 },
+      { id: 'affix_def', stat: 'def', min: 2, max: 6 },
+      { id: 'affix_spd', stat: 'spd', min: 1, max: 3, slots: ['accessory'], weight: 0.5 },
+      { id: 'affix_hp_pct', stat: 'hpPct', min: 0.03, max: 0.08 },
+      { id: 'affix_atk_pct', stat: 'atkPct', min: 0.03, max: 0.08 },
+      { id: 'affix_def_pct', stat: 'defPct', min: 0.03, max: 0.08 },
+    ],
+    rarityRates: { common: 0.55, rare: 0.3, epic: 0.12, legendary: 0.03 },
+    roomDropChance: 0.2,
+    bossRoomDropChance: 1,
+    expeditionDropChancePerWave: 0.05,
+  };
+}
+
+/** Pick an entry by relative weight (entries with weight <= 0 never win) */
+function pickWeighted<T>(rng: SeededRNG, entries: T[], weightOf: (entry: T) => number): T | undefined {
+  const total = entries.reduce((sum, e) => sum + Math.max(0, weightOf(e)), 0);
+  if (total <= 0) return undefined;
+  let roll = rng.random() * total;
+  for (const entry of entries) {
+    roll -= Math.max(0, weightOf(entry));
+    if (roll < 0) return entry;
+  }
+  return entries[entries.length - 1];
+}
+
+/** Roll a rarity from the configured rates (falls back to common) */
+export function rollGearRarity(rng: SeededRNG, rates: Record<Rarity, number>): Rarity {
+  return pickWeighted(rng, RARITY_ORDER, (r) => rates[r] ?? 0) ?? 'common';
+}
+
+/**
+ * Roll a new item
+ * @returns the item, or null when the config has no item bases
+ */
+export function rollGearItem(config: GearConfig, rng: SeededRNG, id: string): GearItem | null {
+  const base = rng.pick(config.itemBases);
+  if (!base) return null;
+  const rarity = rollGearRarity(rng, config.rarityRates);
+  const rules = GEAR_RARITY_RULES[rarity];
+
+  // Each affix rolls at most once per item
+  const pool = config.affixes.filter((a) => !a.slots || a.slots.length === 0 || a.slots.includes(base.slot));
+  const affixes: GearItemAffix[] = [];
+  for (let i = 0; i < rules.affixCount; i++) {
+    const affix = pickWeighted(rng, pool, (a) => a.weight ?? 1);
+    if (!affix) break;
+    pool.splice(pool.indexOf(affix), 1);
+    affixes.push({ stat: affix.stat, value: roundGearValue(affix.stat, rng.randomFloat(affix.min, affix.max)) });
+  }
+
+  return {
+    id,
+    baseId: base.id,
+    name: base.name,
+    slot: base.slot,
+    rarity,
+    mainStat: base.mainStat,
+    mainValue: roundGearValue(base.mainStat, base.mainValue * rules.mainStatMult),
+    affixes,
+  };
+}
+
+/**
+ * Roll a possible drop: one chance roll, then an item
+ * Deterministic for a given seed; the item ID is derived from the seed.
+ */
+export function rollGearDrop(config: GearConfig, seed: number, dropChance: number): GearItem | null {
+  const rng = new SeededRNG(seed);
+  if (!rng.chance(dropChance)) return null;
+  return rollGearItem(config, rng, `gear_${(seed >>> 0).toString(36)}`);
+}
+
+/** Sum the bonuses of a set of items */
+export function sumGearStats(items: GearItem[]): GearStats {
+  const total = Object.fromEntries(GEAR_STATS.map((s) => [s, 0])) as GearStats;
+  for (const item of items) {
+    total[item.mainStat] += item.mainValue;
+    for (const affix of item.affixes) total[affix.stat] += affix.value;
+  }
+  for (const stat of GEAR_STATS) total[stat] = roundGearValue(stat, total[stat]);
+  return total;
+}
+
+/**
+ * Apply gear bonuses to scaled stats
+ * Percentages apply to the scaled stat first, then flat bonuses are added.
+ */
+export function applyGearStats<T extends { hp: number; atk: number; def: number; spd: number }>(
+  stats: T,
+  gear: Partial<GearStats> | undefined
+): T {
+  if (!gear) return stats;
+  return {
+    ...stats,
+    hp: Math.floor(stats.hp * (1 + (gear.hpPct ?? 0))) + (gear.hp ?? 0),
+    atk: Math.floor(stats.atk * (1 + (gear.atkPct ?? 0))) + (gear.atk ?? 0),
+    def: Math.floor(stats.def * (1 + (gear.defPct ?? 0))) + (gear.def ?? 0),
+    spd: stats.spd + (gear.spd ?? 0),
+  };
+}
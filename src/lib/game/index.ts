@@ -3,7 +3,7 @@
  */
 
 // RNG
-export { mulberry32, SeededRNG } from './rng';
+export { mulberry32, SeededRNG, hashString } from './rng';
 
 // Types and constants
 export * from './types';
@@ -12,7 +12,210 @@ export * from './types';
 export { Character, createCharacter } from './Character';
 
 // Battle simulation
-export { AutoBattleSimulation, type SummonTemplate } from './AutoBattleSimulation';
+export {
+  AutoBattleSimulation,
+  BATTLE_ENGINE_VERSION,
+  type BattleBossPhase,
+  type BattleOptions,
+  type BattleStep,
+  type BossScript,
+  type ManualInput,
+  type SummonTemplate,
+} from './AutoBattleSimulation';
+
+// Battle replays
+export {
+  REPLAY_FORMAT_VERSION,
+  computeContentHash,
+  createBattleReplay,
+  restoreBattleSetup,
+  replayBattle,
+  parseBattleReplay,
+  type BattleContentSnapshot,
+  type BattleReplay,
+  type BattleSetup,
+  type ReplayUnitSnapshot,
+} from './replay';
+
+// Formations
+export {
+  assignFormation,
+  validateFormation,
+  validateRoomFormation,
+  isValidGridPosition,
+  formationToMap,
+  MAX_BOSSES,
+  type Formation,
+  type FormationUnit,
+  type GridPosition,
+} from './formation';
+
+// Positional combat rules
+export {
+  rowDepth,
+  occupiesColumn,
+  frontDepth,
+  getReachableUnits,
+  getFrontRowUnits,
+  getColumnUnits,
+  type PositionedUnit,
+} from './positioning';
+
+// Damage types
+export {
+  DAMAGE_TYPES,
+  DAMAGE_TYPE_LABELS,
+  getDamageTypeMultiplier,
+  getEffectiveness,
+  describeResistances,
+  type DamageType,
+  type HitEffectiveness,
+  type Resistances,
+} from './elements';
+
+// Passive traits
+export {
+  TRAIT_TRIGGERS,
+  TRAIT_EFFECTS,
+  TRAIT_STATS,
+  TRAIT_TRIGGER_LABELS,
+  TRAIT_EFFECT_LABELS,
+  TRAIT_EFFECT_DEFAULTS,
+  TRAIT_BOOST_DURATION,
+  TRAIT_BOOST_MAX_STACKS,
+  TRAIT_LOW_HP_THRESHOLD,
+  isTraitCombinationValid,
+  getTraitEffectsForTrigger,
+  getTraitTriggerLimit,
+  describeTrait,
+  type PassiveTrait,
+  type TraitEffect,
+  type TraitStat,
+  type TraitTrigger,
+} from './traits';
+
+// Team synergies
+export {
+  SYNERGY_STATS,
+  SYNERGY_STAT_LABELS,
+  createDefaultSynergies,
+  getSynergyMembers,
+  getSynergyTier,
+  getNextSynergyTier,
+  getActiveSynergies,
+  getTeamSynergies,
+  getSynergyBonuses,
+  applySynergyStats,
+  parseFactionTags,
+  describeSynergyTier,
+  type ActiveSynergy,
+  type SynergyBonuses,
+  type SynergyDefinition,
+  type SynergyStat,
+  type SynergyTier,
+  type SynergyUnit,
+} from './synergies';
+
+// Battle statistics
+export {
+  BATTLE_STAT_KEYS,
+  BATTLE_STAT_LABELS,
+  MVP_KILL_BONUS,
+  createUnitBattleStats,
+  getMvpScore,
+  pickMvp,
+  getTeamTotals,
+  sumBattleStats,
+  type BattleStatKey,
+  type BattleStatTotals,
+  type UnitBattleStats,
+} from './battleStats';
+
+// Event-sourced battle log
+export {
+  BATTLE_SNAPSHOT_INTERVAL,
+  applyActionDelta,
+  findSnapshot,
+  getUnitStatesAt,
+  getFinalUnitStates,
+} from './battleLog';
+
+// Boss phases
+export {
+  BOSS_PHASE_SHIELD_DURATION,
+  DEFAULT_BOSS_ENRAGE,
+  sortBossPhases,
+  getPhasesToEnter,
+  describeBossPhase,
+  describeBossEnrage,
+  type BossEnrage,
+  type BossPhase,
+} from './bossPhases';
+
+// Equipment
+export {
+  GEAR_SLOTS,
+  GEAR_STATS,
+  GEAR_STAT_LABELS,
+  GEAR_RARITY_RULES,
+  GEAR_SALVAGE_GOLD,
+  isPercentGearStat,
+  formatGearStat,
+  createDefaultGearConfig,
+  rollGearRarity,
+  rollGearItem,
+  rollGearDrop,
+  sumGearStats,
+  applyGearStats,
+  type GearAffix,
+  type GearConfig,
+  type GearItem,
+  type GearItemAffix,
+  type GearSlot,
+  type GearStat,
+  type GearStats,
+  type ItemBase,
+} from './gear';
+
+// Battle display
+export {
+  createDisplayUnits,
+  applyActionToDisplay,
+  finalDisplayUnits,
+  displayUnitsAt,
+  upcomingTurns,
+  type DisplayUnit,
+} from './battleDisplay';
+
+// Dungeon runs
+export {
+  DungeonRun,
+  createRoomSetup,
+  type CarriedHp,
+  type DungeonRoomResult,
+  type DungeonRunConfig,
+  type DungeonRunContent,
+  type DungeonRunMember,
+  type DungeonRunPhase,
+} from './dungeonRun';
+
+// Balance simulation
+export {
+  BALANCE_ROLES,
+  BALANCE_RARITIES,
+  runBatch,
+  runRoleMatchups,
+  runRarityMatchups,
+  runRoomMatchups,
+  computeRoleShares,
+  runBalanceReport,
+  formatBalanceReport,
+  type BatchStats,
+  type MatchupResult,
+  type RoleShare,
+  type BalanceReport,
+  type BalanceReportOptions,
+} from './balanceSimulation';
 
 // Character data
 export {
@@ -28,5 +231,20 @@ export {
   getAbilityById,
   getAbilitiesForRole,
   type AbilityDefinition,
+  type AbilityEffect,
   type AbilityTargeting,
 } from './abilities';
+
+// Ability gambits
+export {
+  GAMBIT_CONDITION_LABELS,
+  GAMBIT_CONDITION_DEFAULTS,
+  createDefaultGambit,
+  checkGambitConditions,
+  requiresBossTarget,
+  describeGambitCondition,
+  type AbilityGambit,
+  type GambitCondition,
+  type GambitConditionType,
+  type GambitContext,
+} from './gambits';
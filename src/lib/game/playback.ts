@@ -0,0 +1,56 @@
+/**
+ * Battle playback
+ * Speed presets and timeline markers shared by the battle views' playback
+ * controls.
+ */
+
+import type { CombatAction } from './types';
+
+export type PlaybackSpeed = 1 | 2 | 4;
+
+export const PLAYBACK_SPEEDS: PlaybackSpeed[] = [1, 2, 4];
+
+/** Milliseconds between two actions at x1 */
+export const PLAYBACK_BASE_INTERVAL = 600;
+
+/** Milliseconds between two actions at a speed preset */
+export function getPlaybackInterval(speed: PlaybackSpeed): number {
+  return Math.round(PLAYBACK_BASE_INTERVAL / speed);
+}
+
+/** Speed preset from a stored value, x1 when missing or unknown */
+export function parsePlaybackSpeed(raw: string | null | undefined): PlaybackSpeed {
+  const speed = Number(raw);
+  return PLAYBACK_SPEEDS.find((s) => s === speed) ?? 1;
+}
+
+export type TimelineMarkerKind = 'turn' | 'death' | 'crit';
+
+/** Notable point of a battle log shown on the playback timeline */
+export interface TimelineMarker {
+  /** Index of the action in the log */
+  index: number;
+  kind: TimelineMarkerKind;
+}
+
+/**
+ * Timeline markers of a battle log, in log order: the first action of each
+ * battle turn, deaths and critical hits
+ */
+export function getTimelineMarkers(actionLog: CombatAction[]): TimelineMarker[] {
+  const markers: TimelineMarker[] = [];
+  actionLog.forEach((action, index) => {
+    if (index === 0 || action.turn !== actionLog[index - 1].turn) markers.push({ index, kind: 'turn' });
+    if (action.actionType === 'death') markers.push({ index, kind: 'death' });
+    else if (action.isCritical) markers.push({ index, kind: 'crit' });
+  });
+  return markers;
+}
+
+/** Index of the first death after an action index, or -1 when nobody else dies */
+export function findNextDeath(actionLog: CombatAction[], afterIndex: number): number {
+  for (let i = Math.max(0, afterIndex + 1); i < actionLog.length; i++) {
+    if (actionLog[i].actionType === 'death') return i;
+  }
+  return -1;
+}
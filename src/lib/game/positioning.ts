@@ -0,0 +1,63 @@
+/**
+ * Positional combat rules
+ * Which enemies a unit can reach from the 3x3 grid, and the column/row
+ * shapes used by piercing and sweeping abilities. Row 3 (boss-fight minions)
+ * stands in front of row 0; a boss covers rows 0-2 and every column.
+ */
+
+import type { Position } from './types';
+
+/** Minimal unit data needed by the positional rules */
+export interface PositionedUnit {
+  position: Position;
+  isBoss?: boolean;
+}
+
+/** Distance from the front line: row 3 first, then rows 0, 1, 2 */
+export function rowDepth(position: Position): number {
+  return position.row === 3 ? -1 : position.row;
+}
+
+/** Depths covered by a unit (a boss spans rows 0-2) */
+function depthRange(unit: PositionedUnit): [number, number] {
+  const depth = rowDepth(unit.position);
+  return unit.isBoss ? [depth, depth + 2] : [depth, depth];
+}
+
+/** True if the unit stands in (or spans) the given column */
+export function occupiesColumn(unit: PositionedUnit, col: number): boolean {
+  return unit.isBoss ? true : unit.position.col === col;
+}
+
+/** Depth of the front-most occupied row, or null without units */
+export function frontDepth(units: PositionedUnit[]): number | null {
+  if (units.length === 0) return null;
+  return Math.min(...units.map((u) => rowDepth(u.position)));
+}
+
+/**
+ * Units within reach: those standing at most `reach` rows behind the
+ * front-most occupied row. Back rows are shielded while front-liners live.
+ */
+export function getReachableUnits<T extends PositionedUnit>(units: T[], reach: number): T[] {
+  const front = frontDepth(units);
+  if (front === null) return [];
+  return units.filter((u) => depthRange(u)[0] <= front + reach);
+}
+
+/** Units in the front-most occupied row (a boss counts for each row it spans) */
+export function getFrontRowUnits<T extends PositionedUnit>(units: T[]): T[] {
+  const front = frontDepth(units);
+  if (front === null) return [];
+  return units.filter((u) => {
+    const [first, last] = depthRange(u);
+    return first <= front && front <= last;
+  });
+}
+
+/** Units in a column, front to back */
+export function getColumnUnits<T extends PositionedUnit>(units: T[], col: number): T[] {
+  return units
+    .filter((u) => occupiesColumn(u, col))
+    .sort((a, b) => rowDepth(a.position) - rowDepth(b.position));
+}
@@ -0,0 +1,301 @@
+/**
+ * Battle replay format
+ * A replay captures everything needed to re-run a battle byte-for-byte:
+ * team snapshots, simulation options, seed, engine version and a content hash.
+ */
+
+import { Character } from './Character';
+import {
+  AutoBattleSimulation,
+  BATTLE_ENGINE_VERSION,
+  type BattleOptions,
+  type BossScript,
+  type ManualInput,
+  type SummonTemplate,
+} from './AutoBattleSimulation';
+import { hashString } from './rng';
+import type { AbilityDefinition } from './abilities';
+import type { GearStats } from './gear';
+import type { SynergyDefinition } from './synergies';
+import type { AbilityTriggerMode, BaseStats, BattleResult, CharacterDefinition, Position, Rarity, Role } from './types';
+
+/** Bump when the replay JSON layout changes */
+export const REPLAY_FORMAT_VERSION = 1;
+
+const REPLAY_FORMAT_ID = 'dungeon-gacha-replay';
+
+/** Battle-relevant slice of the game content, fingerprinted into replays */
+export interface BattleContentSnapshot {
+  characters: CharacterDefinition[];
+  enemies: unknown[];
+  abilities: AbilityDefinition[];
+  roleStats?: Partial<Record<Role, BaseStats>>;
+  rarityMultipliers?: Partial<Record<Rarity, number>>;
+  abilityTrigger?: AbilityTriggerMode;
+}
+
+/** Inputs of a battle: everything passed to AutoBattleSimulation */
+export interface BattleSetup {
+  playerTeam: Character[];
+  enemyTeam: Character[];
+  seed: number;
+  options?: BattleOptions;
+}
+
+/** A single unit as it entered the battle */
+export interface ReplayUnitSnapshot {
+  definition: CharacterDefinition;
+  level: number;
+  ascension: number;
+  /** Resolved role base stats used by this unit */
+  baseStats: BaseStats;
+  /** Resolved rarity multiplier used by this unit */
+  rarityMultiplier: number;
+  /** Summed bonuses of the gear the unit had equipped */
+  gear?: Partial<GearStats>;
+}
+
+/** BattleOptions with Maps/Sets flattened to JSON-friendly entry arrays */
+export interface SerializedBattleOptions {
+  summonerConfigs?: [string, { templates: SummonTemplate[]; maxSummons: number }][];
+  customRoleStats?: Partial<Record<Role, BaseStats>>;
+  abilityDefs?: AbilityDefinition[];
+  characterAbilityIds?: [string, string[]][];
+  bossIds?: string[];
+  bossScripts?: [string, BossScript][];
+  playerHpOverrides?: [string, { currentHp: number; maxHp: number }][];
+  playerPositions?: [string, Position][];
+  enemyPositions?: [string, Position][];
+  abilityTrigger?: AbilityTriggerMode;
+  synergies?: SynergyDefinition[];
+  manualAbilities?: boolean;
+  manualInputs?: ManualInput[];
+}
+
+/** Exportable battle replay file */
+export interface BattleReplay {
+  format: typeof REPLAY_FORMAT_ID;
+  formatVersion: number;
+  engineVersion: number;
+  /** Hash of the battle-relevant content the battle was fought with */
+  contentHash: string;
+  seed: number;
+  playerTeam: ReplayUnitSnapshot[];
+  enemyTeam: ReplayUnitSnapshot[];
+  options: SerializedBattleOptions;
+  /** Recorded outcome, used to verify the re-simulation */
+  expected: {
+    winner: BattleResult['winner'];
+    turns: number;
+    actionCount: number;
+    actionLogHash: string;
+  };
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal data always hashes the same
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => (v === undefined ? 'null' : stableStringify(v))).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+}
+
+function hashValue(value: unknown): string {
+  return hashString(stableStringify(value)).toString(16).padStart(14, '0');
+}
+
+/** Fingerprint the battle-relevant content */
+export function computeContentHash(content: BattleContentSnapshot): string {
+  return hashValue({
+    characters: content.characters,
+    enemies: content.enemies,
+    abilities: content.abilities,
+    roleStats: content.roleStats,
+    rarityMultipliers: content.rarityMultipliers,
+    abilityTrigger: content.abilityTrigger,
+  });
+}
+
+function snapshotUnit(char: Character): ReplayUnitSnapshot {
+  return {
+    definition: char.definition,
+    level: char.level,
+    ascension: char.ascension,
+    baseStats: { ...char.baseStats },
+    rarityMultiplier: char.rarityMultiplier,
+    gear: char.gear,
+  };
+}
+
+function restoreUnit(snapshot: ReplayUnitSnapshot): Character {
+  const { definition } = snapshot;
+  return new Character(
+    definition,
+    snapshot.level,
+    snapshot.ascension,
+    { [definition.role]: snapshot.baseStats },
+    { [definition.rarity]: snapshot.rarityMultiplier },
+    snapshot.gear
+  );
+}
+
+function serializeOptions(options?: BattleOptions): SerializedBattleOptions {
+  if (!options) return {};
+  return {
+    summonerConfigs: options.summonerConfigs ? Array.from(options.summonerConfigs) : undefined,
+    customRoleStats: options.customRoleStats,
+    abilityDefs: options.abilityDefs,
+    characterAbilityIds: options.characterAbilityIds ? Array.from(options.characterAbilityIds) : undefined,
+    bossIds: options.bossIds ? Array.from(options.bossIds) : undefined,
+    bossScripts: options.bossScripts ? Array.from(options.bossScripts) : undefined,
+    playerHpOverrides: options.playerHpOverrides ? Array.from(options.playerHpOverrides) : undefined,
+    playerPositions: options.playerPositions ? Array.from(options.playerPositions) : undefined,
+    enemyPositions: options.enemyPositions ? Array.from(options.enemyPositions) : undefined,
+    abilityTrigger: options.abilityTrigger,
+    synergies: options.synergies,
+    manualAbilities: options.manualAbilities,
+    manualInputs: options.manualInputs,
+  };
+}
+
+function deserializeOptions(options: SerializedBattleOptions): BattleOptions {
+  return {
+    summonerConfigs: options.summonerConfigs ? new Map(options.summonerConfigs) : undefined,
+    customRoleStats: options.customRoleStats,
+    abilityDefs: options.abilityDefs,
+    characterAbilityIds: options.characterAbilityIds ? new Map(options.characterAbilityIds) : undefined,
+    bossIds: options.bossIds ? new Set(options.bossIds) : undefined,
+    bossScripts: options.bossScripts ? new Map(options.bossScripts) : undefined,
+    playerHpOverrides: options.playerHpOverrides ? new Map(options.playerHpOverrides) : undefined,
+    playerPositions: options.playerPositions ? new Map(options.playerPositions) : undefined,
+    enemyPositions: options.enemyPositions ? new Map(options.enemyPositions) : undefined,
+    abilityTrigger: options.abilityTrigger,
+    synergies: options.synergies,
+    manualAbilities: options.manualAbilities,
+    manualInputs: options.manualInputs,
+  };
+}
+
+/**
+ * Build a replay from a finished battle
+ * Call right after the battle ends: options Maps are copied at this point
+ */
+export function createBattleReplay(
+  setup: BattleSetup,
+  result: BattleResult,
+  contentHash: string
+): BattleReplay {
+  // Round-trip through JSON so the replay never shares references with live state
+  const replay: BattleReplay = {
+    format: REPLAY_FORMAT_ID,
+    formatVersion: REPLAY_FORMAT_VERSION,
+    engineVersion: BATTLE_ENGINE_VERSION,
+    contentHash,
+    seed: setup.seed,
+    playerTeam: setup.playerTeam.map(snapshotUnit),
+    enemyTeam: setup.enemyTeam.map(snapshotUnit),
+    // Manual battles replay the inputs the player queued
+    options: { ...serializeOptions(setup.options), ...(result.manualInputs && { manualInputs: result.manualInputs }) },
+    expected: {
+      winner: result.winner,
+      turns: result.turns,
+      actionCount: result.actionLog.length,
+      actionLogHash: hashValue(result.actionLog),
+    },
+  };
+  return JSON.parse(JSON.stringify(replay));
+}
+
+/** Rebuild the battle inputs stored in a replay */
+export function restoreBattleSetup(replay: BattleReplay): BattleSetup {
+  return {
+    playerTeam: replay.playerTeam.map(restoreUnit),
+    enemyTeam: replay.enemyTeam.map(restoreUnit),
+    seed: replay.seed,
+    options: deserializeOptions(replay.options),
+  };
+}
+
+/**
+ * Re-simulate a replay and verify it reproduces the recorded battle
+ * @param contentHash Hash of the currently loaded content (skips the content check if omitted)
+ * @returns the restored setup and result, or a mismatch error message
+ */
+export function replayBattle(
+  replay: BattleReplay,
+  contentHash?: string
+): { setup: BattleSetup; result: BattleResult } | string {
+  if (replay.engineVersion !== BATTLE_ENGINE_VERSION) {
+    return `Replay mismatch: recorded with engine v${replay.engineVersion}, current engine is v${BATTLE_ENGINE_VERSION}`;
+  }
+  if (contentHash !== undefined && replay.contentHash !== contentHash) {
+    return `Replay mismatch: game content changed since recording (content ${replay.contentHash}, current ${contentHash})`;
+  }
+
+  const setup = restoreBattleSetup(replay);
+  let result: BattleResult;
+  try {
+    result = new AutoBattleSimulation(
+      setup.playerTeam,
+      setup.enemyTeam,
+      setup.seed,
+      setup.options
+    ).simulate();
+  } catch (e) {
+    // Tampered replay files can carry invalid formations
+    return `Invalid replay: ${e instanceof Error ? e.message : String(e)}`;
+  }
+
+  const logHash = hashValue(result.actionLog);
+  if (
+    logHash !== replay.expected.actionLogHash ||
+    result.winner !== replay.expected.winner ||
+    result.turns !== replay.expected.turns
+  ) {
+    return `Replay mismatch: re-simulation diverged (${result.actionLog.length} actions, expected ${replay.expected.actionCount})`;
+  }
+
+  return { setup, result };
+}
+
+/**
+ * Parse and validate a replay JSON file
+ * @returns the replay or an error message
+ */
+export function parseBattleReplay(json: string): BattleReplay | string {
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || parsed.format !== REPLAY_FORMAT_ID) {
+      return 'Invalid replay file: unknown format';
+    }
+    if (parsed.formatVersion !== REPLAY_FORMAT_VERSION) {
+      return `Unsupported replay format version: ${parsed.formatVersion}`;
+    }
+    if (
+      typeof parsed.seed !== 'number' ||
+      typeof parsed.engineVersion !== 'number' ||
+      typeof parsed.contentHash !== 'string' ||
+      !Array.isArray(parsed.playerTeam) ||
+      !Array.isArray(parsed.enemyTeam) ||
+      !parsed.expected
+    ) {
+      return 'Invalid replay file: missing seed, teams or expected result';
+    }
+    for (const unit of [...parsed.playerTeam, ...parsed.enemyTeam]) {
+      if (!unit?.definition?.id || typeof unit.level !== 'number' || !unit.baseStats) {
+        return `Invalid replay unit: ${JSON.stringify(unit).slice(0, 80)}`;
+      }
+    }
+    return { ...parsed, options: parsed.options ?? {} } as BattleReplay;
+  } catch (e) {
+    return `JSON parse error: ${e instanceof Error ? e.message : String(e)}`;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Team synergies
+ * Auto-chess style composition bonuses: fielding enough units of a role or
+ * faction when a battle starts activates the highest tier reached, boosting
+ * the counted units (or their whole team) for the battle.
+ */
+
+import type { Role } from './types';
+
+/** Stats a synergy can boost: stat fractions, or lifesteal (fraction of damage dealt healed) */
+export type SynergyStat = 'hp' | 'atk' | 'def' | 'spd' | 'lifesteal';
+
+export const SYNERGY_STATS: SynergyStat[] = ['hp', 'atk', 'def', 'spd', 'lifesteal'];
+
+/** Display labels for synergy stats */
+export const SYNERGY_STAT_LABELS: Record<SynergyStat, string> = {
+  hp: 'HP',
+  atk: 'ATK',
+  def: 'DEF',
+  spd: 'SPD',
+  lifesteal: 'Lifesteal',
+};
+
+/** One activation threshold of a synergy */
+export interface SynergyTier {
+  /** Units needed on the team */
+  count: number;
+  stat: SynergyStat;
+  /** Bonus as a fraction (0.1 = +10%, or 10% of damage dealt for lifesteal) */
+  value: number;
+}
+
+/** A synergy defined in the game content */
+export interface SynergyDefinition {
+  id: string;
+  name: string;
+  /** Units counted: every unit of a role, or every unit tagged with a faction */
+  type: 'role' | 'faction';
+  /** Role or faction tag matched by the counted units */
+  key: string;
+  /** Who gets the bonus: the counted units or their whole team */
+  appliesTo: 'members' | 'team';
+  /** Thresholds by ascending count: only the highest tier reached applies */
+  tiers: SynergyTier[];
+}
+
+/** A unit as seen by synergy counting */
+export interface SynergyUnit {
+  id: string;
+  role: Role;
+  factions?: string[];
+}
+
+/** A synergy active on a team at battle start */
+export interface ActiveSynergy {
+  synergyId: string;
+  name: string;
+  /** Units counted toward the synergy */
+  count: number;
+  tier: SynergyTier;
+  /** Units receiving the bonus */
+  unitIds: string[];
+}
+
+/** Summed synergy bonuses of one unit */
+export type SynergyBonuses = Partial<Record<SynergyStat, number>>;
+
+/** Built-in role synergies */
+export function createDefaultSynergies(): SynergyDefinition[] {
+  return [
+    {
+      id: 'synergy_vanguard', name: 'Vanguard', type: 'role', key: 'tank', appliesTo: 'members',
+      tiers: [{ count: 2, stat: 'def', value: 0.15 }, { count: 3, stat: 'def', value: 0.3 }],
+    },
+    {
+      id: 'synergy_warband', name: 'Warband', type: 'role', key: 'warrior', appliesTo: 'members',
+      tiers: [{ count: 2, stat: 'atk', value: 0.1 }, { count: 3, stat: 'atk', value: 0.2 }],
+    },
+    {
+      id: 'synergy_volley', name: 'Volley', type: 'role', key: 'archer', appliesTo: 'members',
+      tiers: [{ count: 2, stat: 'spd', value: 0.1 }],
+    },
+    {
+      id: 'synergy_arcane', name: 'Arcane Circle', type: 'role', key: 'mage', appliesTo: 'team',
+      tiers: [{ count: 2, stat: 'atk', value: 0.05 }],
+    },
+    {
+      id: 'synergy_sanctuary', name: 'Sanctuary', type: 'role', key: 'healer', appliesTo: 'team',
+      tiers: [{ count: 2, stat: 'hp', value: 0.1 }],
+    },
+  ];
+}
+
+/** Units counted toward a synergy */
+export function getSynergyMembers(synergy: SynergyDefinition, units: SynergyUnit[]): SynergyUnit[] {
+  return synergy.type === 'role'
+    ? units.filter((u) => u.role === synergy.key)
+    : units.filter((u) => u.factions?.includes(synergy.key));
+}
+
+/** Highest tier reached with a unit count (undefined below the first threshold) */
+export function getSynergyTier(synergy: SynergyDefinition, count: number): SynergyTier | undefined {
+  let reached: SynergyTier | undefined;
+  for (const tier of synergy.tiers) {
+    if (count >= tier.count && (!reached || tier.count >= reached.count)) reached = tier;
+  }
+  return reached;
+}
+
+/** Lowest tier not reached yet with a unit count */
+export function getNextSynergyTier(synergy: SynergyDefinition, count: number): SynergyTier | undefined {
+  let next: SynergyTier | undefined;
+  for (const tier of synergy.tiers) {
+    if (count < tier.count && (!next || tier.count < next.count)) next = tier;
+  }
+  return next;
+}
+
+/** Synergies a team activates, in definition order */
+export function getActiveSynergies(units: SynergyUnit[], synergies: SynergyDefinition[]): ActiveSynergy[] {
+  return synergies.flatMap((synergy) => {
+    const members = getSynergyMembers(synergy, units);
+    const tier = getSynergyTier(synergy, members.length);
+    if (!tier) return [];
+    const recipients = synergy.appliesTo === 'team' ? units : members;
+    return [{ synergyId: synergy.id, name: synergy.name, count: members.length, tier, unitIds: recipients.map((u) => u.id) }];
+  });
+}
+
+/** Sum the bonuses of active synergies per unit */
+export function getSynergyBonuses(active: ActiveSynergy[]): Map<string, SynergyBonuses> {
+  const bonuses = new Map<string, SynergyBonuses>();
+  for (const synergy of active) {
+    for (const id of synergy.unitIds) {
+      const unit = bonuses.get(id) ?? {};
+      unit[synergy.tier.stat] = (unit[synergy.tier.stat] ?? 0) + synergy.tier.value;
+      bonuses.set(id, unit);
+    }
+  }
+  return bonuses;
+}
+
+/** Apply synergy stat bonuses (lifesteal is handled by the battle engine) */
+export function applySynergyStats<T extends { hp: number; atk: number; def: number; spd: number }>(
+  stats: T,
+  bonuses: SynergyBonuses | undefined
+): T {
+  if (!bonuses) return stats;
+  return {
+    ...stats,
+    hp: Math.floor(stats.hp * (1 + (bonuses.hp ?? 0))),
+    atk: Math.floor(stats.atk * (1 + (bonuses.atk ?? 0))),
+    def: Math.floor(stats.def * (1 + (bonuses.def ?? 0))),
+    spd: Math.floor(stats.spd * (1 + (bonuses.spd ?? 0))),
+  };
+}
+
+/** Faction tags from a comma-separated input (undefined when empty) */
+export function parseFactionTags(raw: string): string[] | undefined {
+  const tags = [...new Set(raw.split(',').map((t) => t.trim()).filter((t) => t.length > 0))];
+  return tags.length > 0 ? tags : undefined;
+}
+
+/** Short form of a tier bonus, e.g. "+10% ATK" or "15% Lifesteal" */
+export function describeSynergyTier(tier: SynergyTier): string {
+  const pct = Math.round(tier.value * 100);
+  return tier.stat === 'lifesteal' ? `${pct}% Lifesteal` : `+${pct}% ${SYNERGY_STAT_LABELS[tier.stat]}`;
+}
+
+/** Synergies a battle team activates (units carry their faction tags on their definition) */
+export function getTeamSynergies(
+  team: { id: string; role: Role; definition: { factions?: string[] } }[],
+  synergies: SynergyDefinition[]
+): ActiveSynergy[] {
+  return getActiveSynergies(team.map((c) => ({ id: c.id, role: c.role, factions: c.definition.factions })), synergies);
+}
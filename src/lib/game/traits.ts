@@ -0,0 +1,141 @@
+/**
+ * Passive traits
+ * Always-on effects a unit carries into battle, each firing an effect on the
+ * trait owner when its trigger happens (battle start, being hit, a kill...).
+ * Traits let two units of the same role and rarity play differently.
+ */
+
+/** Battle events a trait reacts to */
+export type TraitTrigger =
+  | 'battle_start'   // Once, before the first turn (units summoned later skip it)
+  | 'turn_start'     // At the start of each of the owner's own turns
+  | 'on_hit'         // The owner is hit by an enemy attack or ability
+  | 'on_kill'        // The owner defeats an enemy
+  | 'on_ally_death'  // An ally of the owner is defeated
+  | 'on_low_hp'      // The owner drops below a fraction of its max HP
+  | 'on_death';      // The owner would be defeated (revive only)
+
+export const TRAIT_TRIGGERS: TraitTrigger[] = [
+  'battle_start', 'turn_start', 'on_hit', 'on_kill', 'on_ally_death', 'on_low_hp', 'on_death',
+];
+
+/** What a trait does when it fires (always on the trait owner) */
+export type TraitEffect =
+  | 'stat_boost'    // value = stat fraction (+0.2 = +20%), applied as a *_up status effect
+  | 'heal'          // value = fraction of the owner's max HP restored
+  | 'extra_attack'  // value = ATK multiplier of an immediate follow-up basic attack
+  | 'revive'        // value = fraction of max HP the owner comes back with
+  | 'reflect';      // value = fraction of the HP damage taken dealt back to the attacker
+
+export const TRAIT_EFFECTS: TraitEffect[] = ['stat_boost', 'heal', 'extra_attack', 'revive', 'reflect'];
+
+/** Stats a stat_boost trait can raise */
+export type TraitStat = 'atk' | 'def' | 'spd';
+
+export const TRAIT_STATS: TraitStat[] = ['atk', 'def', 'spd'];
+
+/** A passive trait on a character definition, enemy template or summon template */
+export interface PassiveTrait {
+  id: string;
+  name: string;
+  trigger: TraitTrigger;
+  effect: TraitEffect;
+  /** Effect magnitude (see TraitEffect) */
+  value: number;
+  /** stat_boost: raised stat (default atk) */
+  stat?: TraitStat;
+  /** stat_boost: duration in turns of the owner (default TRAIT_BOOST_DURATION) */
+  duration?: number;
+  /** on_low_hp: HP fraction to drop below (default TRAIT_LOW_HP_THRESHOLD) */
+  threshold?: number;
+  /** Chance to fire when triggered (0-1, default 1) */
+  chance?: number;
+  /** Times the trait can fire per battle (default unlimited; on_low_hp and revive fire once) */
+  maxTriggers?: number;
+}
+
+/** Display labels for trait triggers */
+export const TRAIT_TRIGGER_LABELS: Record<TraitTrigger, string> = {
+  battle_start: 'Battle start',
+  turn_start: 'Each turn',
+  on_hit: 'On hit',
+  on_kill: 'On kill',
+  on_ally_death: 'On ally death',
+  on_low_hp: 'On low HP',
+  on_death: 'On death',
+};
+
+/** Display labels for trait effects */
+export const TRAIT_EFFECT_LABELS: Record<TraitEffect, string> = {
+  stat_boost: 'Stat boost',
+  heal: 'Heal',
+  extra_attack: 'Extra attack',
+  revive: 'Revive',
+  reflect: 'Reflect damage',
+};
+
+/** Default value when an effect is picked in the editor */
+export const TRAIT_EFFECT_DEFAULTS: Record<TraitEffect, number> = {
+  stat_boost: 0.2,
+  heal: 0.15,
+  extra_attack: 0.5,
+  revive: 0.3,
+  reflect: 0.2,
+};
+
+export const TRAIT_BOOST_DURATION = 3;
+export const TRAIT_LOW_HP_THRESHOLD = 0.3;
+/** Stat boosts from repeated triggers stack up to this many times */
+export const TRAIT_BOOST_MAX_STACKS = 5;
+
+/**
+ * Whether an effect can fire from a trigger:
+ * revive only from on_death (and on_death only revives), reflect only from on_hit
+ */
+export function isTraitCombinationValid(trigger: TraitTrigger, effect: TraitEffect): boolean {
+  if (effect === 'revive' || trigger === 'on_death') return effect === 'revive' && trigger === 'on_death';
+  if (effect === 'reflect') return trigger === 'on_hit';
+  return true;
+}
+
+/** Effects allowed for a trigger, in display order */
+export function getTraitEffectsForTrigger(trigger: TraitTrigger): TraitEffect[] {
+  return TRAIT_EFFECTS.filter((effect) => isTraitCombinationValid(trigger, effect));
+}
+
+/** Times a trait can fire per battle */
+export function getTraitTriggerLimit(trait: PassiveTrait): number {
+  if (trait.effect === 'revive') return 1;
+  return trait.maxTriggers ?? (trait.trigger === 'on_low_hp' ? 1 : Infinity);
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Short human-readable form of a trait, e.g. "On kill: ATK +20% (3 turns)" */
+export function describeTrait(trait: PassiveTrait): string {
+  let effect: string;
+  switch (trait.effect) {
+    case 'stat_boost':
+      effect = `${(trait.stat ?? 'atk').toUpperCase()} +${pct(trait.value)} (${trait.duration ?? TRAIT_BOOST_DURATION} turns)`;
+      break;
+    case 'heal':
+      effect = `heal ${pct(trait.value)} max HP`;
+      break;
+    case 'extra_attack':
+      effect = `extra attack at ${pct(trait.value)} ATK`;
+      break;
+    case 'revive':
+      effect = `revive with ${pct(trait.value)} HP`;
+      break;
+    case 'reflect':
+      effect = `reflect ${pct(trait.value)} damage`;
+      break;
+  }
+  const trigger = trait.trigger === 'on_low_hp'
+    ? `Below ${pct(trait.threshold ?? TRAIT_LOW_HP_THRESHOLD)} HP`
+    : TRAIT_TRIGGER_LABELS[trait.trigger];
+  const chance = trait.chance !== undefined && trait.chance < 1 ? ` (${pct(trait.chance)} chance)` : '';
+  const limit = getTraitTriggerLimit(trait);
+  const times = Number.isFinite(limit) && trait.trigger !== 'battle_start' ? (limit === 1 ? ', once' : `, max ${limit}x`) : '';
+  return `${trigger}: ${effect}${chance}${times}`;
+}
@@ -2,6 +2,12 @@
  * Core game type definitions
  */
 
+import type { HitEffectiveness, Resistances } from './elements';
+import type { AbilityGambit } from './gambits';
+import type { PassiveTrait, TraitEffect } from './traits';
+import type { ActiveSynergy } from './synergies';
+import type { UnitBattleStats } from './battleStats';
+
 /** Character roles with specific combat behaviors */
 export type Role = 'tank' | 'warrior' | 'archer' | 'mage' | 'assassin' | 'healer' | 'summoner';
 
@@ -55,11 +61,25 @@ export const ROLE_PREFERRED_ROW: Record<Role, 0 | 1 | 2> = {
   summoner: 2, // Back
 };
 
+/**
+ * Attack reach by role: how many rows behind the enemy's front-most occupied
+ * row a unit can hit (0 = melee, front row only)
+ */
+export const ROLE_ATTACK_REACH: Record<Role, number> = {
+  tank: 0,
+  warrior: 0,
+  archer: 2,
+  mage: 1,
+  assassin: 2, // Slips past the front line
+  healer: 1,
+  summoner: 1,
+};
+
 /** Animation state for sprites */
 export type AnimState = 'idle' | 'attack' | 'castAbility' | 'death';
 
 /** Visual hit effect on the target of an action */
-export type HitEffect = 'damage' | 'heal';
+export type HitEffect = 'damage' | 'heal' | 'phase';
 
 /** Sprite sheet configuration for frame-based animation */
 export interface SpriteSheetConfig {
@@ -96,8 +116,17 @@ export interface CharacterDefinition {
   name: string;
   role: Role;
   rarity: Rarity;
+  /** Signature ability shown on cards (also the combat fallback when there is no ability list) */
   abilityName: string;
   abilityDescription: string;
+  /** Ordered ability list with conditions, evaluated on each action */
+  abilities?: AbilityGambit[];
+  /** Resistances and weaknesses per damage type */
+  resistances?: Resistances;
+  /** Passive traits fired by battle events */
+  traits?: PassiveTrait[];
+  /** Faction tags counted by faction synergies */
+  factions?: string[];
   /** Sprite images per animation state */
   sprites?: SpriteSet;
   /** @deprecated Use sprites.idle instead — kept for migration */
@@ -110,6 +139,50 @@ export interface CharacterDefinition {
   displaySize?: DisplaySize;
 }
 
+/** Lasting status effects that can be applied during battle */
+export type StatusEffectType =
+  | 'poison'    // Damage over time (ignores DEF and shields)
+  | 'burn'      // Damage over time (ignores DEF and shields)
+  | 'stun'      // Skips the unit's next action
+  | 'shield'    // Absorbs incoming damage before HP
+  | 'taunt'     // Forces enemies' single-target attacks onto this unit
+  | 'atk_up'
+  | 'atk_down'
+  | 'def_up'
+  | 'def_down'
+  | 'spd_up'
+  | 'spd_down';
+
+/** Display labels for status effects */
+export const STATUS_EFFECT_LABELS: Record<StatusEffectType, string> = {
+  poison: 'Poison',
+  burn: 'Burn',
+  stun: 'Stun',
+  shield: 'Shield',
+  taunt: 'Taunt',
+  atk_up: 'ATK Up',
+  atk_down: 'ATK Down',
+  def_up: 'DEF Up',
+  def_down: 'DEF Down',
+  spd_up: 'SPD Up',
+  spd_down: 'SPD Down',
+};
+
+/** A status effect instance active on a unit during battle */
+export interface ActiveStatusEffect {
+  type: StatusEffectType;
+  /** Unit that applied the effect */
+  sourceId: string;
+  /** Remaining turns of the affected unit before the effect expires */
+  remainingTurns: number;
+  /**
+   * Resolved magnitude per stack: damage per tick (poison/burn), remaining absorb (shield),
+   * or stat fraction (+0.2 = +20% for *_up / -20% for *_down). Unused for stun/taunt.
+   */
+  value: number;
+  stacks: number;
+}
+
 /** Combat state for a character during battle */
 export interface CombatState {
   characterId: string;
@@ -127,14 +200,36 @@ export interface CombatState {
   isBoss?: boolean;
   /** Whether this unit was summoned mid-battle */
   isSummoned?: boolean;
+  /** Energy (0-MAX_ENERGY) spent on abilities; stays 0 when abilities trigger randomly */
+  energy: number;
 }
 
+/**
+ * How abilities trigger in battle:
+ * - energy: an ability fires once the caster has its energy cost (chance conditions are ignored)
+ * - random: an ability fires on its chance conditions once off cooldown (legacy balance)
+ */
+export type AbilityTriggerMode = 'energy' | 'random';
+
 /** Types of combat actions */
-export type ActionType = 'attack' | 'ability' | 'heal' | 'death' | 'summon';
+export type ActionType =
+  | 'attack'
+  | 'ability'
+  | 'heal'
+  | 'death'
+  | 'summon'
+  | 'effect_apply'
+  | 'effect_tick'
+  | 'effect_expire'
+  | 'trait'
+  | 'phase';
 
 /** Single combat action log entry */
 export interface CombatAction {
+  /** Turn (time-budget slice of COMBAT_CONSTANTS.TICKS_PER_TURN ticks) the action happened in */
   turn: number;
+  /** Timeline tick the action happened at (units act when their action gauge fills) */
+  tick: number;
   actorId: string;
   actorName: string;
   actionType: ActionType;
@@ -143,14 +238,33 @@ export interface CombatAction {
   damage?: number;
   healing?: number;
   isCritical?: boolean;
+  /** Single-target hits: how the damage type fared against the target's resistances */
+  effectiveness?: HitEffectiveness;
   abilityUsed?: string;
   message: string;
   /** Sprite overlay on the caster when using an ability */
   abilityCasterSprite?: SpriteSource;
   /** Sprite overlay on each target hit by an ability */
   abilityTargetSprite?: SpriteSource;
+  /** Damage absorbed by shields (not included in damage) */
+  absorbed?: number;
+  /** HP the actor healed back from the damage dealt (synergy lifesteal) */
+  lifesteal?: number;
   /** For AOE abilities: per-target damage data */
-  aoeTargets?: { id: string; damage: number }[];
+  aoeTargets?: { id: string; damage: number; absorbed?: number; effectiveness?: HitEffectiveness }[];
+  /** For effect_apply / effect_tick / effect_expire actions: the status effect involved */
+  statusEffect?: StatusEffectType;
+  /** For trait actions: the trait that fired and its effect */
+  trait?: string;
+  traitEffect?: TraitEffect;
+  /** For phase actions: the boss phase started ('Enrage' when the boss enrages) */
+  phase?: string;
+  /** For enrage phase actions: ATK multiplier applied to the boss */
+  enrage?: number;
+  /** Energy of each unit whose energy changed since the previous logged action */
+  energy?: Record<string, number>;
+  /** Other unit state changes since the previous logged action */
+  delta?: ActionDelta;
   /** For summon actions: the summoned unit data */
   summonedUnit?: {
     id: string;
@@ -166,14 +280,65 @@ export interface CombatAction {
   };
 }
 
+/** Unit state changes an action carries (applied in order, they rebuild the battle state) */
+export interface ActionDelta {
+  /** HP before and after, for each unit whose HP changed */
+  hp?: Record<string, { before: number; after: number }>;
+  /** Units defeated */
+  deaths?: string[];
+  /** Units that entered the battle, in their starting state */
+  spawned?: CombatState[];
+  /** New ATK of each unit whose ATK changed */
+  atk?: Record<string, number>;
+  /** Ability cooldowns that changed: characterId -> abilityId -> own turns remaining */
+  cooldowns?: Record<string, Record<string, number>>;
+  /** effect_apply / effect_expire: stacks of the status effect the target has left (0 once it is gone) */
+  effectStacks?: number;
+}
+
+/** Full state of a unit in a battle snapshot */
+export interface UnitSnapshot extends CombatState {
+  /** Ability cooldowns still running: abilityId -> own turns remaining */
+  cooldowns: Record<string, number>;
+  statusEffects: StatusEffectType[];
+}
+
+/** State of every unit once the first actionIndex actions of the log have happened */
+export interface BattleSnapshot {
+  actionIndex: number;
+  /** Player units first, each team in registration order (summons last) */
+  units: UnitSnapshot[];
+}
+
+/** One unit turn on the battle timeline */
+export interface TurnOrderEntry {
+  tick: number;
+  unitId: string;
+  /** Index of the first action log entry of this turn (= log length if the turn logged nothing) */
+  actionIndex: number;
+}
+
 /** Battle result */
 export interface BattleResult {
   winner: 'player' | 'enemy' | 'draw';
   turns: number;
   actionLog: CombatAction[];
+  /** Every unit turn in the order taken */
+  turnOrder: TurnOrderEntry[];
   playerSurvivors: string[];
   enemySurvivors: string[];
   seed: number;
+  /** Synergies each team activated at battle start (when synergies were configured) */
+  synergies?: { player: ActiveSynergy[]; enemy: ActiveSynergy[] };
+  /** Per-unit combat totals, player units first */
+  unitStats: UnitBattleStats[];
+  /**
+   * Full states at the start, every BATTLE_SNAPSHOT_INTERVAL actions and at the
+   * end of the log, in log order
+   */
+  snapshots: BattleSnapshot[];
+  /** Player requests queued in manual mode, in order (needed to replay the battle) */
+  manualInputs?: { step: number; unitId: string }[];
 }
 
 /** Gacha rates by rarity */
@@ -194,11 +359,17 @@ export const STARLIGHT_VALUES: Record<Rarity, number> = {
 
 /** Combat constants */
 export const COMBAT_CONSTANTS = {
-  MAX_TURNS: 30,
+  MAX_TURNS: 30, // Time budget: the battle is a draw after MAX_TURNS * TICKS_PER_TURN ticks
+  ACTION_GAUGE_FULL: 1000, // Units gain their SPD in gauge per tick and act when it is full
+  TICKS_PER_TURN: 10, // A unit with 100 SPD acts once per turn
   CRIT_CHANCE: 0.05,
   CRIT_MULTIPLIER: 2.0,
   DAMAGE_VARIANCE: 0.1, // ±10%
-  ABILITY_TRIGGER_CHANCE: 0.25, // 25% chance to trigger ability
+  ABILITY_TRIGGER_CHANCE: 0.25, // Default chance condition for abilities without an explicit ability list
+  MAX_ENERGY: 100, // Default ability energy cost: abilities without a cost are ultimates fired on a full bar
+  ENERGY_PER_ATTACK: 20, // Gained by the attacker on a basic attack
+  ENERGY_PER_HIT_TAKEN: 10, // Gained by each unit hit by an attack or ability
+  ENERGY_REGEN_PER_TURN: 10, // Gained at the start of each of the unit's own turns
   MAX_ASCENSION: 6,
   ASCENSION_STAT_BONUS: 0.15, // +15% per ascension
   LEVEL_STAT_BONUS: 0.1, // +10% per level above 1
@@ -3,8 +3,11 @@
  * Manages the player's saved game data (collection, daily tracking, etc.)
  */
 
-import type { Rarity, Role } from '../game/types';
 import type { ExpeditionDuration } from '../admin/adminTypes';
+import type { Formation } from '../game/formation';
+import { GEAR_SALVAGE_GOLD, sumGearStats, type GearItem, type GearSlot, type GearStats } from '../game/gear';
+import { CURRENT_PLAYER_VERSION, migratePlayerSave, type PlayerSaveMigrationResult } from './saveMigration';
+import { MAX_TEAM_PRESETS, MAX_TEAM_SIZE, createGachaSeed } from './saveSchema';
 
 /** A character owned by the player */
 export interface OwnedCharacter {
@@ -18,6 +21,8 @@ export interface OwnedCharacter {
   duplicates: number;
   /** Current experience points */
   xp: number;
+  /** Equipped gear: slot → GearItem.id from the inventory */
+  equipment?: Partial<Record<GearSlot, string>>;
 }
 
 /** Daily tracking state */
@@ -66,6 +71,8 @@ export interface ExpeditionResult {
   gachaPullWon: boolean;
   /** The gacha chance that was rolled against */
   gachaChance: number;
+  /** Gear items found along the way */
+  gearFound?: GearItem[];
 }
 
 /** A saved team preset */
@@ -74,6 +81,8 @@ export interface TeamPreset {
   name: string;
   /** Character IDs in this team (up to 6) */
   characterIds: string[];
+  /** Explicit battle positions by character ID (missing characters are auto-placed) */
+  formation?: Formation;
 }
 
 /** Player progress in a tower */
@@ -84,11 +93,6 @@ export interface TowerProgress {
   highestStageCleared: number;
 }
 
-/** Maximum number of team presets a player can save */
-export const MAX_TEAM_PRESETS = 3;
-/** Maximum number of characters per team preset */
-export const MAX_TEAM_SIZE = 6;
-
 /** Complete player save data */
 export interface PlayerSave {
   version: number;
@@ -100,17 +104,26 @@ export interface PlayerSave {
   expeditions?: ActiveExpedition[];
   /** Pity counters: number of pulls since last occurrence of each rarity */
   pityCounters?: Record<string, number>;
+  /** Pity counters of limited banners, by banner ID */
+  bannerPityCounters?: Record<string, Record<string, number>>;
+  /** Per-player seed every gacha pull is derived from */
+  gachaSeed: number;
+  /** Number of gacha pulls made so far (index of the next pull) */
+  gachaPullCount: number;
   /** Saved team presets */
   teams?: TeamPreset[];
   /** Gold currency */
   gold: number;
   /** Tower progression */
   towerProgress?: TowerProgress[];
+  /** Owned gear items (equipped ones included) */
+  inventory?: GearItem[];
 }
 
 const PLAYER_SAVE_KEY = 'dungeon-gacha-player';
+/** Where a stored save that could not be loaded is kept before a new save replaces it */
+const PLAYER_SAVE_BACKUP_KEY = 'dungeon-gacha-player-backup';
 const PENDING_GACHA_KEY = 'dungeon-gacha-pending';
-const CURRENT_PLAYER_VERSION = 1;
 
 function getTodayString(): string {
   return new Date().toISOString().slice(0, 10);
@@ -130,6 +143,8 @@ function createDefaultSave(): PlayerSave {
     version: CURRENT_PLAYER_VERSION,
     collection: [],
     daily: createFreshDaily(),
+    gachaSeed: createGachaSeed(),
+    gachaPullCount: 0,
     gold: 0,
   };
   // New players get 3 bonus gacha pulls on top of the daily pull
@@ -169,42 +184,56 @@ export function applyGachaConfig(save: PlayerSave, dailyPulls?: number, initialB
   return save;
 }
 
-/** Load player save from localStorage */
-export function loadPlayerSave(): PlayerSave {
+/** Player save loaded from storage, with what loading had to do to it */
+export interface PlayerSaveLoadResult {
+  save: PlayerSave;
+  /** Migrations and repairs applied to the stored save (empty when it was clean) */
+  changes: string[];
+  /** Why the stored save was ignored, when a new save was started instead */
+  error?: string;
+  /** Raw JSON of the ignored save (also kept in localStorage), so the player can recover it */
+  backup?: string;
+}
+
+/** Parse and migrate the stored save JSON */
+function parseStoredSave(raw: string): PlayerSaveMigrationResult | string {
+  try {
+    return migratePlayerSave(JSON.parse(raw));
+  } catch {
+    return 'JSON invalide';
+  }
+}
+
+/** Load player save from localStorage (migrated and repaired), falling back to a new save */
+export function loadPlayerSaveWithReport(): PlayerSaveLoadResult {
   try {
     const raw = localStorage.getItem(PLAYER_SAVE_KEY);
-    if (!raw) return createDefaultSave();
-    const save: PlayerSave = JSON.parse(raw);
+    if (!raw) return { save: createDefaultSave(), changes: [] };
+    const migrated = parseStoredSave(raw);
+    if (typeof migrated === 'string') {
+      // The new save overwrites the stored one on the next save: keep a copy first
+      localStorage.setItem(PLAYER_SAVE_BACKUP_KEY, raw);
+      return { save: createDefaultSave(), changes: [], error: `Sauvegarde locale ignorée : ${migrated}`, backup: raw };
+    }
+    const save = migrated.save;
+    if (migrated.changes.length > 0) savePlayerSave(save);
 
     // Reset daily if it's a new day
     if (save.daily.date !== getTodayString()) {
       save.daily = createFreshDaily();
     }
 
-    // Migrate old boolean gachaPulled to gachaPullsRemaining
-    if (typeof (save.daily as any).gachaPulled === 'boolean') {
-      save.daily.gachaPullsRemaining = (save.daily as any).gachaPulled ? 0 : 1;
-      delete (save.daily as any).gachaPulled;
-    }
-    // Ensure gachaPullsRemaining is a valid number
-    if (typeof save.daily.gachaPullsRemaining !== 'number') {
-      save.daily.gachaPullsRemaining = 1;
-    }
-
-    // Migrate characters missing xp field
-    for (const c of save.collection) {
-      if (typeof c.xp !== 'number') c.xp = 0;
-    }
-
-    // Migrate saves missing gold field
-    if (typeof save.gold !== 'number') save.gold = 0;
-
-    return save;
+    return { save, changes: migrated.changes };
   } catch {
-    return createDefaultSave();
+    return { save: createDefaultSave(), changes: [] };
   }
 }
 
+/** Load player save from localStorage, without the migration report */
+export function loadPlayerSave(): PlayerSave {
+  return loadPlayerSaveWithReport().save;
+}
+
 /** Save player data to localStorage */
 export function savePlayerSave(save: PlayerSave): void {
   localStorage.setItem(PLAYER_SAVE_KEY, JSON.stringify(save));
@@ -263,34 +292,6 @@ export function ascendCharacter(
   };
 }
 
-/** Consume one gacha pull */
-export function markGachaPulled(save: PlayerSave): PlayerSave {
-  return {
-    ...save,
-    daily: {
-      ...save.daily,
-      gachaPullsRemaining: Math.max(0, save.daily.gachaPullsRemaining - 1),
-    },
-  };
-}
-
-/** Update pity counters after a pull: increment all, reset the one that was obtained */
-export function updatePityCounters(save: PlayerSave, obtainedRarity: string): PlayerSave {
-  const counters = { ...(save.pityCounters ?? {}) };
-  // Increment all rarity counters
-  for (const rarity of ['epic', 'legendary']) {
-    counters[rarity] = (counters[rarity] ?? 0) + 1;
-  }
-  // Reset the obtained rarity counter
-  counters[obtainedRarity] = 0;
-  return { ...save, pityCounters: counters };
-}
-
-/** Get current pity count for a rarity */
-export function getPityCount(save: PlayerSave, rarity: string): number {
-  return save.pityCounters?.[rarity] ?? 0;
-}
-
 /** Use a dungeon attempt */
 export function useDungeonAttempt(save: PlayerSave): PlayerSave {
   return {
@@ -465,6 +466,7 @@ export function saveTeamPreset(
   slotIndex: number,
   name: string,
   characterIds: string[],
+  formation?: Formation,
 ): PlayerSave {
   if (slotIndex < 0 || slotIndex >= MAX_TEAM_PRESETS) return save;
   const teams = [...(save.teams ?? [])];
@@ -472,7 +474,12 @@ export function saveTeamPreset(
   while (teams.length <= slotIndex) {
     teams.push({ name: '', characterIds: [] });
   }
-  teams[slotIndex] = { name, characterIds: characterIds.slice(0, MAX_TEAM_SIZE) };
+  const ids = characterIds.slice(0, MAX_TEAM_SIZE);
+  const preset: TeamPreset = { name, characterIds: ids };
+  // Only keep positions of characters that are still in the team
+  const placed = Object.entries(formation ?? {}).filter(([id]) => ids.includes(id));
+  if (placed.length > 0) preset.formation = Object.fromEntries(placed);
+  teams[slotIndex] = preset;
   return { ...save, teams };
 }
 
@@ -520,6 +527,94 @@ export function markTowerStageCleared(save: PlayerSave, towerId: string, stageNu
   };
 }
 
+// --- Gear helpers ---
+
+/** Maximum number of gear items the inventory holds */
+export const MAX_INVENTORY_SIZE = 200;
+
+/** Add gear items to the inventory (IDs already taken get a suffix; items past the cap are dropped) */
+export function addGearToInventory(save: PlayerSave, items: GearItem[]): PlayerSave {
+  const inventory = [...(save.inventory ?? [])];
+  const taken = new Set(inventory.map((i) => i.id));
+  for (const item of items) {
+    if (inventory.length >= MAX_INVENTORY_SIZE) break;
+    let id = item.id;
+    for (let n = 2; taken.has(id); n++) id = `${item.id}_${n}`;
+    taken.add(id);
+    inventory.push({ ...item, id });
+  }
+  return { ...save, inventory };
+}
+
+/** Character wearing a gear item, if any */
+export function getGearOwner(save: PlayerSave, itemId: string): string | undefined {
+  return save.collection.find((c) => Object.values(c.equipment ?? {}).includes(itemId))?.characterId;
+}
+
+/**
+ * Equip an item on a character, replacing what was in that slot
+ * An item worn by another character is moved over.
+ * @returns the updated save, or null if the character or item doesn't exist
+ */
+export function equipGear(save: PlayerSave, characterId: string, itemId: string): PlayerSave | null {
+  const item = (save.inventory ?? []).find((i) => i.id === itemId);
+  if (!item || !save.collection.some((c) => c.characterId === characterId)) return null;
+  const previousOwner = getGearOwner(save, itemId);
+  return {
+    ...save,
+    collection: save.collection.map((c) => {
+      if (c.characterId === characterId) {
+        return { ...c, equipment: { ...c.equipment, [item.slot]: itemId } };
+      }
+      if (c.characterId === previousOwner) {
+        const equipment = { ...c.equipment };
+        delete equipment[item.slot];
+        return { ...c, equipment };
+      }
+      return c;
+    }),
+  };
+}
+
+/** Empty one equipment slot of a character */
+export function unequipGear(save: PlayerSave, characterId: string, slot: GearSlot): PlayerSave {
+  return {
+    ...save,
+    collection: save.collection.map((c) => {
+      if (c.characterId !== characterId || !c.equipment?.[slot]) return c;
+      const equipment = { ...c.equipment };
+      delete equipment[slot];
+      return { ...c, equipment };
+    }),
+  };
+}
+
+/** Remove an item from the inventory (unequipping it) for gold */
+export function salvageGear(save: PlayerSave, itemId: string): PlayerSave {
+  const item = (save.inventory ?? []).find((i) => i.id === itemId);
+  if (!item) return save;
+  const owner = getGearOwner(save, itemId);
+  const unequipped = owner ? unequipGear(save, owner, item.slot) : save;
+  return {
+    ...unequipped,
+    inventory: (save.inventory ?? []).filter((i) => i.id !== itemId),
+    gold: (save.gold ?? 0) + GEAR_SALVAGE_GOLD[item.rarity],
+  };
+}
+
+/** Gear items a character has equipped */
+export function getEquippedGear(save: PlayerSave, characterId: string): GearItem[] {
+  const owned = save.collection.find((c) => c.characterId === characterId);
+  const ids = Object.values(owned?.equipment ?? {});
+  return (save.inventory ?? []).filter((i) => ids.includes(i.id));
+}
+
+/** Summed gear bonuses of a character (undefined when nothing is equipped) */
+export function getEquippedGearStats(save: PlayerSave, characterId: string): GearStats | undefined {
+  const items = getEquippedGear(save, characterId);
+  return items.length > 0 ? sumGearStats(items) : undefined;
+}
+
 // --- Cross-device sync ---
 
 /** Export the current save as a base64 sync code */
@@ -529,25 +624,34 @@ export function exportSyncCode(save: PlayerSave): string {
   return btoa(unescape(encodeURIComponent(json)));
 }
 
-/** Import a save from a base64 sync code. Returns the parsed save or an error message. */
-export function importSyncCode(code: string): PlayerSave | string {
+/**
+ * Import a save from a base64 sync code
+ * @returns the migrated and repaired save with its change report, or an error message
+ */
+export function importSyncCode(code: string): PlayerSaveMigrationResult | string {
+  let parsed: unknown;
   try {
     const trimmed = code.trim();
     if (!trimmed) return 'Code vide';
-    const json = decodeURIComponent(escape(atob(trimmed)));
-    const parsed = JSON.parse(json);
-    // Validate basic structure
-    if (typeof parsed.version !== 'number' || !Array.isArray(parsed.collection) || !parsed.daily) {
-      return 'Format de sauvegarde invalide';
-    }
-    // Validate collection entries
-    for (const c of parsed.collection) {
-      if (!c.characterId || typeof c.level !== 'number') {
-        return 'Donnees de collection corrompues';
-      }
-    }
-    return parsed as PlayerSave;
+    parsed = JSON.parse(decodeURIComponent(escape(atob(trimmed))));
   } catch {
     return 'Code de synchronisation invalide';
   }
+  return migratePlayerSave(parsed);
+}
+
+/**
+ * Import a save from exported JSON text
+ * @returns the migrated and repaired save with its change report, or an error message
+ */
+export function parsePlayerSaveJson(json: string): PlayerSaveMigrationResult | string {
+  let parsed: unknown;
+  try {
+    const trimmed = json.trim();
+    if (!trimmed) return 'Texte vide';
+    parsed = JSON.parse(trimmed);
+  } catch {
+    return 'JSON invalide';
+  }
+  return migratePlayerSave(parsed);
 }
@@ -0,0 +1,369 @@
+/**
+ * Player save migrations
+ * Ordered chain of per-version steps that upgrade a save to
+ * CURRENT_PLAYER_VERSION, followed by a schema check that repairs or drops
+ * corrupt entries. Used on load, sync-code import and JSON import.
+ */
+
+import { COMBAT_CONSTANTS } from '../game/types';
+import { isValidGridPosition } from '../game/formation';
+import { GEAR_SLOTS, GEAR_STATS, type GearItem, type GearSlot, type GearStat } from '../game/gear';
+import type { ActiveExpedition, OwnedCharacter, PlayerSave, TeamPreset, TowerProgress } from './playerStore';
+import { MAX_TEAM_PRESETS, MAX_TEAM_SIZE, createGachaSeed } from './saveSchema';
+
+export const CURRENT_PLAYER_VERSION = 3;
+
+/** Save as read from JSON, before migration */
+export type RawPlayerSave = Record<string, unknown>;
+
+/** Upgrade from one save version to the next */
+export interface PlayerSaveMigrationStep {
+  /** Version this step upgrades from (to from + 1) */
+  from: number;
+  description: string;
+  /**
+   * Migrate the save in place (it is a private copy)
+   * @returns human-readable descriptions of what changed
+   */
+  migrate: (save: RawPlayerSave) => string[];
+}
+
+export interface PlayerSaveMigrationResult {
+  save: PlayerSave;
+  /** Version the save had before migration */
+  fromVersion: number;
+  /** Migrations and repairs applied, in order (empty for a clean, current save) */
+  changes: string[];
+}
+
+/** Every migration step, in version order */
+export const PLAYER_SAVE_MIGRATIONS: PlayerSaveMigrationStep[] = [
+  {
+    from: 1,
+    description: 'Daily gacha flag becomes a pull counter',
+    migrate: (save) => {
+      const daily = save.daily;
+      if (!isRecord(daily) || typeof daily.gachaPulled !== 'boolean') return [];
+      daily.gachaPullsRemaining = daily.gachaPulled ? 0 : 1;
+      delete daily.gachaPulled;
+      return [`Tirage quotidien converti en compteur (${daily.gachaPullsRemaining} restant)`];
+    },
+  },
+  {
+    from: 2,
+    description: 'Seeded gacha: per-player seed and pull counter',
+    migrate: (save) => {
+      save.gachaSeed = createGachaSeed();
+      save.gachaPullCount = 0;
+      return [`Graine de tirage attribuée (${save.gachaSeed})`];
+    },
+  },
+];
+
+const EXPEDITION_DURATIONS = [4, 8, 12, 24];
+const RARITIES = ['common', 'rare', 'epic', 'legendary'];
+const MAX_LEVEL = 100;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  /** Value used when the field isn't a number at all (default: min) */
+  fallback?: number;
+  allowFraction?: boolean;
+}
+
+/** Coerce a numeric field into [min, max], rounded down to an integer unless allowFraction */
+function repairNumber(
+  target: Record<string, unknown>,
+  key: string,
+  path: string,
+  changes: string[],
+  rule: NumberRule = {}
+): void {
+  const { min = 0, max = Infinity, allowFraction = false } = rule;
+  const fallback = rule.fallback ?? min;
+  const value = target[key];
+  let fixed: number;
+  if (!isFiniteNumber(value)) {
+    fixed = fallback;
+  } else {
+    fixed = Math.min(max, Math.max(min, allowFraction ? value : Math.floor(value)));
+  }
+  if (fixed !== value) {
+    changes.push(`${path}.${key} : ${JSON.stringify(value) ?? 'absent'} → ${fixed}`);
+    target[key] = fixed;
+  }
+}
+
+function repairCollection(save: RawPlayerSave, changes: string[]): OwnedCharacter[] {
+  const byId = new Map<string, OwnedCharacter>();
+  (save.collection as unknown[]).forEach((entry, i) => {
+    const path = `collection[${i}]`;
+    if (!isRecord(entry) || !isNonEmptyString(entry.characterId)) {
+      changes.push(`${path} : personnage invalide retiré`);
+      return;
+    }
+    repairNumber(entry, 'level', path, changes, { min: 1, max: MAX_LEVEL });
+    repairNumber(entry, 'ascension', path, changes, { max: COMBAT_CONSTANTS.MAX_ASCENSION });
+    repairNumber(entry, 'duplicates', path, changes);
+    repairNumber(entry, 'xp', path, changes);
+    const owned = entry as unknown as OwnedCharacter;
+
+    // The same character listed twice: keep the best copy, the other counts as a duplicate
+    const existing = byId.get(owned.characterId);
+    if (existing) {
+      const [best, other] = owned.level > existing.level ? [owned, existing] : [existing, owned];
+      byId.set(owned.characterId, { ...best, duplicates: best.duplicates + other.duplicates + 1 });
+      changes.push(`${path} : doublon de ${owned.characterId} fusionné`);
+      return;
+    }
+    byId.set(owned.characterId, owned);
+  });
+  return [...byId.values()];
+}
+
+function repairDaily(save: RawPlayerSave, changes: string[]): void {
+  if (!isRecord(save.daily)) {
+    // An empty date makes loadPlayerSave start a fresh day
+    save.daily = { date: '', gachaPullsRemaining: 0, dungeonAttemptsLeft: 0, dungeonCleared: false };
+    changes.push('daily : état quotidien invalide réinitialisé');
+    return;
+  }
+  const daily = save.daily;
+  if (typeof daily.date !== 'string') {
+    daily.date = '';
+    changes.push('daily.date : date invalide réinitialisée');
+  }
+  repairNumber(daily, 'gachaPullsRemaining', 'daily', changes, { fallback: 1 });
+  repairNumber(daily, 'dungeonAttemptsLeft', 'daily', changes, { fallback: 3 });
+  if (typeof daily.dungeonCleared !== 'boolean') {
+    daily.dungeonCleared = false;
+    changes.push('daily.dungeonCleared : valeur invalide → false');
+  }
+  if (daily.xpAwardedRoomIndices !== undefined) {
+    const indices = Array.isArray(daily.xpAwardedRoomIndices) ? daily.xpAwardedRoomIndices : [];
+    const valid = indices.filter((n) => Number.isInteger(n) && n >= 0);
+    if (!Array.isArray(daily.xpAwardedRoomIndices) || valid.length !== indices.length) {
+      daily.xpAwardedRoomIndices = valid;
+      changes.push('daily.xpAwardedRoomIndices : salles invalides retirées');
+    }
+  }
+}
+
+/** Keep the non-negative integer counters of a pity counter record */
+function repairPityCounters(value: unknown, path: string, changes: string[]): Record<string, number> {
+  const entries = isRecord(value) ? Object.entries(value) : [];
+  const valid = entries.filter(([, count]) => Number.isInteger(count) && (count as number) >= 0);
+  if (!isRecord(value) || valid.length !== entries.length) {
+    changes.push(`${path} : compteurs invalides retirés`);
+  }
+  return Object.fromEntries(valid) as Record<string, number>;
+}
+
+function isValidExpedition(value: unknown): value is ActiveExpedition {
+  return (
+    isRecord(value) &&
+    isNonEmptyString(value.id) &&
+    Array.isArray(value.teamCharacterIds) &&
+    value.teamCharacterIds.length > 0 &&
+    value.teamCharacterIds.every(isNonEmptyString) &&
+    EXPEDITION_DURATIONS.includes(value.duration as number) &&
+    isFiniteNumber(value.startedAt) &&
+    isFiniteNumber(value.completesAt) &&
+    isFiniteNumber(value.teamPower)
+  );
+}
+
+function repairTeam(value: unknown, path: string, changes: string[]): TeamPreset {
+  if (!isRecord(value)) {
+    changes.push(`${path} : équipe invalide vidée`);
+    return { name: '', characterIds: [] };
+  }
+  const rawIds = Array.isArray(value.characterIds) ? value.characterIds : [];
+  const characterIds = [...new Set(rawIds.filter(isNonEmptyString))].slice(0, MAX_TEAM_SIZE);
+  if (!Array.isArray(value.characterIds) || characterIds.length !== rawIds.length) {
+    changes.push(`${path}.characterIds : personnages invalides retirés`);
+  }
+  const team: TeamPreset = { name: typeof value.name === 'string' ? value.name : '', characterIds };
+
+  if (value.formation !== undefined) {
+    const entries = isRecord(value.formation) ? Object.entries(value.formation) : [];
+    const valid = entries.filter(([id, pos]) => characterIds.includes(id) && isValidGridPosition(pos));
+    if (!isRecord(value.formation) || valid.length !== entries.length) {
+      changes.push(`${path}.formation : positions invalides retirées`);
+    }
+    if (valid.length > 0) team.formation = Object.fromEntries(valid) as TeamPreset['formation'];
+  }
+  return team;
+}
+
+function repairTowerProgress(value: unknown[], changes: string[]): TowerProgress[] {
+  const byTower = new Map<string, TowerProgress>();
+  value.forEach((entry, i) => {
+    const path = `towerProgress[${i}]`;
+    if (!isRecord(entry) || !isNonEmptyString(entry.towerId)) {
+      changes.push(`${path} : progression invalide retirée`);
+      return;
+    }
+    repairNumber(entry, 'highestStageCleared', path, changes);
+    const progress = { towerId: entry.towerId, highestStageCleared: entry.highestStageCleared as number };
+    const existing = byTower.get(progress.towerId);
+    if (existing) {
+      existing.highestStageCleared = Math.max(existing.highestStageCleared, progress.highestStageCleared);
+      changes.push(`${path} : doublon de ${progress.towerId} fusionné`);
+      return;
+    }
+    byTower.set(progress.towerId, progress);
+  });
+  return [...byTower.values()];
+}
+
+function isValidGearItem(value: unknown): value is GearItem {
+  return (
+    isRecord(value) &&
+    isNonEmptyString(value.id) &&
+    typeof value.baseId === 'string' &&
+    typeof value.name === 'string' &&
+    GEAR_SLOTS.includes(value.slot as GearSlot) &&
+    RARITIES.includes(value.rarity as string) &&
+    GEAR_STATS.includes(value.mainStat as GearStat) &&
+    isFiniteNumber(value.mainValue) &&
+    Array.isArray(value.affixes) &&
+    value.affixes.every((a) => isRecord(a) && GEAR_STATS.includes(a.stat as GearStat) && isFiniteNumber(a.value))
+  );
+}
+
+function repairInventory(value: unknown, changes: string[]): GearItem[] {
+  const items = Array.isArray(value) ? value : [];
+  const seen = new Set<string>();
+  const valid = items.filter((item): item is GearItem => {
+    if (!isValidGearItem(item) || seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+  if (!Array.isArray(value) || valid.length !== items.length) {
+    changes.push('inventory : objets invalides retirés');
+  }
+  return valid;
+}
+
+/** Drop equipment slots pointing at missing items, the wrong slot, or an item already worn */
+function repairEquipment(collection: OwnedCharacter[], inventory: GearItem[], changes: string[]): void {
+  const slotOf = new Map(inventory.map((item) => [item.id, item.slot]));
+  const worn = new Set<string>();
+  for (const owned of collection) {
+    if (owned.equipment === undefined) continue;
+    const entries = isRecord(owned.equipment) ? Object.entries(owned.equipment) : [];
+    const valid = entries.filter(([slot, id]) => {
+      if (typeof id !== 'string' || slotOf.get(id) !== slot || worn.has(id)) return false;
+      worn.add(id);
+      return true;
+    });
+    if (!isRecord(owned.equipment) || valid.length !== entries.length) {
+      changes.push(`${owned.characterId}.equipment : équipements invalides retirés`);
+      owned.equipment = Object.fromEntries(valid);
+    }
+  }
+}
+
+/** Check every field of a migrated save, repairing what can be repaired */
+function repairSave(save: RawPlayerSave, changes: string[]): void {
+  save.collection = repairCollection(save, changes);
+  repairDaily(save, changes);
+  repairNumber(save, 'gold', 'save', changes, { allowFraction: true });
+  if (!Number.isInteger(save.gachaSeed) || (save.gachaSeed as number) < 0 || (save.gachaSeed as number) >= 2 ** 32) {
+    const seed = createGachaSeed();
+    changes.push(`save.gachaSeed : ${JSON.stringify(save.gachaSeed) ?? 'absent'} → ${seed}`);
+    save.gachaSeed = seed;
+  }
+  repairNumber(save, 'gachaPullCount', 'save', changes);
+
+  if (save.expeditions !== undefined) {
+    const expeditions = Array.isArray(save.expeditions) ? save.expeditions : [];
+    const valid = expeditions.filter(isValidExpedition);
+    if (!Array.isArray(save.expeditions) || valid.length !== expeditions.length) {
+      changes.push('expeditions : expéditions invalides retirées');
+      save.expeditions = valid;
+    }
+  }
+
+  if (save.pityCounters !== undefined) {
+    save.pityCounters = repairPityCounters(save.pityCounters, 'pityCounters', changes);
+  }
+  if (save.bannerPityCounters !== undefined) {
+    const entries = isRecord(save.bannerPityCounters) ? Object.entries(save.bannerPityCounters) : [];
+    if (!isRecord(save.bannerPityCounters)) changes.push('bannerPityCounters : compteurs invalides retirés');
+    save.bannerPityCounters = Object.fromEntries(
+      entries.map(([bannerId, counters]) => [bannerId, repairPityCounters(counters, `bannerPityCounters.${bannerId}`, changes)])
+    );
+  }
+
+  if (save.teams !== undefined) {
+    if (!Array.isArray(save.teams)) {
+      changes.push('teams : liste invalide retirée');
+      save.teams = [];
+    } else if (save.teams.length > MAX_TEAM_PRESETS) {
+      changes.push(`teams : limité à ${MAX_TEAM_PRESETS} équipes`);
+    }
+    save.teams = (save.teams as unknown[])
+      .slice(0, MAX_TEAM_PRESETS)
+      .map((team, i) => repairTeam(team, `teams[${i}]`, changes));
+  }
+
+  if (save.towerProgress !== undefined) {
+    if (!Array.isArray(save.towerProgress)) {
+      changes.push('towerProgress : liste invalide retirée');
+      save.towerProgress = [];
+    }
+    save.towerProgress = repairTowerProgress(save.towerProgress as unknown[], changes);
+  }
+
+  if (save.inventory !== undefined) {
+    save.inventory = repairInventory(save.inventory, changes);
+  }
+  repairEquipment(save.collection as OwnedCharacter[], (save.inventory as GearItem[] | undefined) ?? [], changes);
+}
+
+/**
+ * Upgrade a save to CURRENT_PLAYER_VERSION and repair corrupt entries
+ * A save without a version is treated as v1. The input is not modified.
+ * @returns the migrated save with a change report, or an error message
+ */
+export function migratePlayerSave(raw: unknown): PlayerSaveMigrationResult | string {
+  if (!isRecord(raw) || !Array.isArray(raw.collection)) {
+    return 'Format de sauvegarde invalide';
+  }
+  const fromVersion = raw.version === undefined ? 1 : raw.version;
+  if (!Number.isInteger(fromVersion) || (fromVersion as number) < 1) {
+    return `Version de sauvegarde invalide : ${JSON.stringify(raw.version)}`;
+  }
+  if ((fromVersion as number) > CURRENT_PLAYER_VERSION) {
+    return `Sauvegarde v${fromVersion} créée par une version plus récente du jeu (max v${CURRENT_PLAYER_VERSION})`;
+  }
+
+  const save = structuredClone(raw);
+  const changes: string[] = [];
+  for (let version = fromVersion as number; version < CURRENT_PLAYER_VERSION; version++) {
+    const step = PLAYER_SAVE_MIGRATIONS.find((s) => s.from === version);
+    if (!step) return `Aucune migration de sauvegarde v${version} → v${version + 1}`;
+    for (const change of step.migrate(save)) {
+      changes.push(`v${version}→v${version + 1} : ${change}`);
+    }
+    save.version = version + 1;
+  }
+  repairSave(save, changes);
+
+  return { save: save as unknown as PlayerSave, fromVersion: fromVersion as number, changes };
+}
@@ -0,0 +1,15 @@
+/**
+ * Player save limits and defaults
+ * Shared by the player store and the save migrations, which both need them at
+ * runtime, so neither has to import the other for them.
+ */
+
+/** Maximum number of team presets a player can save */
+export const MAX_TEAM_PRESETS = 3;
+/** Maximum number of characters per team preset */
+export const MAX_TEAM_SIZE = 6;
+
+/** Fresh random 32-bit seed for a player's gacha pulls */
+export function createGachaSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
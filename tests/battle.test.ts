@@ -0,0 +1,438 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AutoBattleSimulation, type BattleOptions } from '../src/lib/game/AutoBattleSimulation';
+import { DEFAULT_ABILITIES, type AbilityDefinition } from '../src/lib/game/abilities';
+import { applyActionToDisplay, createDisplayUnits, upcomingTurns, type DisplayUnit } from '../src/lib/game/battleDisplay';
+import type { BattleSetup } from '../src/lib/game/replay';
+import { COMBAT_CONSTANTS, type BattleResult, type CombatAction } from '../src/lib/game/types';
+import { abilityActions, makeUnit, runBattle, runSeeds } from './fixtures';
+
+/** Walk a battle log, calling visit with the display state just before each action */
+function walkLog(
+  setup: BattleSetup,
+  result: BattleResult,
+  visit: (units: DisplayUnit[], action: CombatAction) => void
+): void {
+  let units = createDisplayUnits(setup);
+  for (const action of result.actionLog) {
+    visit(units, action);
+    units = applyActionToDisplay(units, action);
+  }
+}
+
+/** Damage a unit takes from one action (direct hit, AoE hit or damage over time) */
+function damageTo(action: CombatAction, unitId: string): number {
+  if (action.aoeTargets) return action.aoeTargets.find((t) => t.id === unitId)?.damage ?? 0;
+  if (action.targetId === unitId && action.actionType !== 'heal') return action.damage ?? 0;
+  return 0;
+}
+
+describe('AutoBattleSimulation', () => {
+  describe('determinism', () => {
+    const build = () => ({
+      playerTeam: [makeUnit('bruno', 'tank'), makeUnit('flynn', 'archer'), makeUnit('lia', 'healer')],
+      enemyTeam: [makeUnit('rex', 'warrior'), makeUnit('mira', 'mage'), makeUnit('zed', 'assassin')],
+    });
+
+    it('produces identical results for the same seed', () => {
+      const a = build();
+      const b = build();
+      const r1 = runBattle(a.playerTeam, a.enemyTeam, 12345);
+      const r2 = runBattle(b.playerTeam, b.enemyTeam, 12345);
+      assert.deepEqual(r1, r2);
+      assert.equal(r1.seed, 12345);
+    });
+
+    it('produces different battles for different seeds', () => {
+      const logs = new Set(runSeeds(build, 10).map((r) => JSON.stringify(r.actionLog)));
+      assert.ok(logs.size > 1);
+    });
+
+    it('ends with a winner consistent with the survivors, within MAX_TURNS', () => {
+      for (const r of runSeeds(build, 10)) {
+        assert.ok(r.turns >= 1 && r.turns <= COMBAT_CONSTANTS.MAX_TURNS);
+        if (r.winner === 'player') {
+          assert.ok(r.playerSurvivors.length > 0);
+          assert.equal(r.enemySurvivors.length, 0);
+        } else if (r.winner === 'enemy') {
+          assert.equal(r.playerSurvivors.length, 0);
+          assert.ok(r.enemySurvivors.length > 0);
+        }
+      }
+    });
+  });
+
+  describe('timeline', () => {
+    const build = () => ({
+      playerTeam: [makeUnit('zed', 'assassin')],
+      enemyTeam: [makeUnit('bruno', 'tank')],
+    });
+
+    it('gives faster units more turns', () => {
+      const { playerTeam, enemyTeam } = build();
+      const r = runBattle(playerTeam, enemyTeam, 1);
+      const count = (id: string) => r.turnOrder.filter((t) => t.unitId === id).length;
+      // Seed 1 lasts long enough for the speed gap to show
+      assert.ok(r.turnOrder.length >= 10, `${r.turnOrder.length} turns`);
+      // Assassin SPD 120 vs tank SPD 50
+      assert.ok(count('zed') >= 2 * count('bruno'), `${count('zed')} vs ${count('bruno')}`);
+    });
+
+    it('stamps actions with non-decreasing ticks within the time budget', () => {
+      const { MAX_TURNS, TICKS_PER_TURN } = COMBAT_CONSTANTS;
+      for (const r of runSeeds(build, 5)) {
+        r.actionLog.forEach((a, i) => {
+          assert.ok(a.tick >= 1 && a.tick <= MAX_TURNS * TICKS_PER_TURN);
+          assert.equal(a.turn, Math.ceil(a.tick / TICKS_PER_TURN));
+          if (i > 0) assert.ok(a.tick >= r.actionLog[i - 1].tick);
+        });
+      }
+    });
+
+    it('lists every turn with the log index it starts at', () => {
+      const r = runBattle([makeUnit('flynn', 'archer')], [makeUnit('rex', 'warrior')], 7);
+      assert.equal(r.turnOrder[0].unitId, 'flynn');
+      assert.equal(r.turnOrder[0].actionIndex, 0);
+      for (const [i, t] of r.turnOrder.entries()) {
+        const first = r.actionLog[t.actionIndex];
+        if (first && (i === r.turnOrder.length - 1 || r.turnOrder[i + 1].actionIndex > t.actionIndex)) {
+          assert.equal(first.tick, t.tick);
+        }
+      }
+    });
+
+    it('shows the turns not yet started during playback', () => {
+      const r = runBattle([makeUnit('flynn', 'archer')], [makeUnit('rex', 'warrior')], 7);
+      assert.deepEqual(upcomingTurns(r.turnOrder, -1, 3), r.turnOrder.slice(0, 3));
+      const second = r.turnOrder[1];
+      assert.equal(upcomingTurns(r.turnOrder, second.actionIndex, 1)[0], r.turnOrder[2]);
+      assert.deepEqual(upcomingTurns(r.turnOrder, r.actionLog.length - 1, 3), []);
+    });
+
+    it('ends in a draw once the time budget is spent', () => {
+      const r = runBattle([makeUnit('bruno', 'tank', 50)], [makeUnit('lia', 'healer', 50)], 3);
+      assert.equal(r.winner, 'draw');
+      assert.equal(r.turns, COMBAT_CONSTANTS.MAX_TURNS);
+    });
+  });
+
+  describe('cleave', () => {
+    const results = runSeeds(() => ({
+      playerTeam: [makeUnit('rex', 'warrior', 20)],
+      enemyTeam: [makeUnit('t1', 'tank', 5), makeUnit('t2', 'tank', 5), makeUnit('t3', 'tank', 5), makeUnit('t4', 'tank', 5)],
+      options: { characterAbilityIds: new Map([['rex', ['ability_cleave']]]) },
+    }));
+    const cleaves = abilityActions(results, 'Cleave');
+
+    it('is cast', () => {
+      assert.ok(cleaves.length > 0);
+    });
+
+    it('hits up to 3 enemies and logs their total damage', () => {
+      for (const action of cleaves) {
+        assert.equal(action.actionType, 'ability');
+        assert.ok(action.aoeTargets && action.aoeTargets.length >= 1 && action.aoeTargets.length <= 3);
+        assert.ok(action.aoeTargets.every((t) => /^t\d$/.test(t.id)));
+        assert.equal(action.damage, action.aoeTargets.reduce((sum, t) => sum + t.damage, 0));
+      }
+      assert.ok(cleaves.some((a) => a.aoeTargets?.length === 3));
+    });
+  });
+
+  describe('multi-shot', () => {
+    const results = runSeeds(() => ({
+      playerTeam: [makeUnit('flynn', 'archer', 20)],
+      enemyTeam: [makeUnit('t1', 'tank', 5), makeUnit('t2', 'tank', 5), makeUnit('t3', 'tank', 5)],
+      options: { characterAbilityIds: new Map([['flynn', ['ability_multishot']]]) },
+    }));
+    const shots = abilityActions(results, 'Multi-shot');
+
+    it('hits up to 2 distinct enemies', () => {
+      assert.ok(shots.length > 0);
+      for (const action of shots) {
+        const ids = action.aoeTargets!.map((t) => t.id);
+        assert.ok(ids.length >= 1 && ids.length <= 2);
+        assert.equal(new Set(ids).size, ids.length);
+      }
+    });
+
+    it('picks random targets', () => {
+      const pairs = new Set(shots.map((a) => a.aoeTargets!.map((t) => t.id).sort().join('+')));
+      assert.ok(pairs.size > 1);
+    });
+  });
+
+  describe('heal', () => {
+    const build = () => ({
+      playerTeam: [makeUnit('bruno', 'tank'), makeUnit('lia', 'healer')],
+      enemyTeam: [makeUnit('rex', 'warrior'), makeUnit('zed', 'assassin')],
+    });
+
+    it('heals only wounded allies below the heal threshold, never above max HP', () => {
+      let heals = 0;
+      for (let seed = 1; seed <= 30; seed++) {
+        const { playerTeam, enemyTeam } = build();
+        const result = runBattle(playerTeam, enemyTeam, seed);
+        walkLog({ playerTeam, enemyTeam, seed }, result, (units, action) => {
+          if (action.actionType !== 'heal') return;
+          heals++;
+          const target = units.find((u) => u.id === action.targetId)!;
+          assert.equal(target.team, 'player');
+          assert.ok(target.currentHp < target.maxHp * 0.7, 'heal target above threshold');
+          assert.ok(action.healing! >= 0 && action.healing! <= target.maxHp - target.currentHp);
+        });
+      }
+      assert.ok(heals > 0);
+    });
+  });
+
+  describe('summon', () => {
+    const summoner = (maxSummons: number): BattleOptions => ({
+      summonerConfigs: new Map([[
+        'sora',
+        { templates: [{ id: 'wolf', name: 'Wolf', role: 'warrior', level: 10, ascension: 0 }], maxSummons },
+      ]]),
+    });
+    const build = (options?: BattleOptions) => () => ({
+      playerTeam: [makeUnit('sora', 'summoner', 15), makeUnit('bruno', 'tank', 15)],
+      enemyTeam: [makeUnit('t1', 'tank', 12), makeUnit('t2', 'tank', 12)],
+      options,
+    });
+
+    it('adds summoned units to the battlefield that then act', () => {
+      const results = runSeeds(build(summoner(2)));
+      const summons = results.flatMap((r) => r.actionLog.filter((a) => a.actionType === 'summon'));
+      assert.ok(summons.length > 0);
+      for (const s of summons) {
+        assert.equal(s.actorId, 'sora');
+        assert.match(s.summonedUnit!.id, /^wolf_s\d+$/);
+        assert.equal(s.summonedUnit!.team, 'player');
+      }
+      const summonedIds = new Set(summons.map((s) => s.summonedUnit!.id));
+      assert.ok(results.some((r) => r.actionLog.some((a) => a.actionType === 'attack' && summonedIds.has(a.actorId))));
+    });
+
+    it('never exceeds maxSummons alive at once', () => {
+      for (let seed = 1; seed <= 30; seed++) {
+        const { playerTeam, enemyTeam, options } = build(summoner(1))();
+        const result = runBattle(playerTeam, enemyTeam, seed, options);
+        walkLog({ playerTeam, enemyTeam, seed, options }, result, (units) => {
+          assert.ok(units.filter((u) => u.isSummoned && u.isAlive).length <= 1);
+        });
+      }
+    });
+
+    it('falls back to attacking without a summoner config', () => {
+      const results = runSeeds(build(), 10);
+      assert.ok(results.every((r) => r.actionLog.every((a) => a.actionType !== 'summon')));
+    });
+  });
+
+  describe('boss abilities', () => {
+    const bossBuild = (options: BattleOptions) => () => ({
+      playerTeam: [makeUnit('bruno', 'tank', 20), makeUnit('lia', 'healer', 20)],
+      enemyTeam: [makeUnit('boss', 'tank', 20)],
+      options: { bossIds: new Set(['boss']), ...options },
+    });
+
+    it('casts every mapped ability', () => {
+      const results = runSeeds(bossBuild({
+        characterAbilityIds: new Map([['boss', ['ability_fireball', 'ability_cleave']]]),
+        abilityTrigger: 'random',
+      }));
+      const used = new Set(results.flatMap((r) => r.actionLog.filter((a) => a.actorId === 'boss' && a.abilityUsed).map((a) => a.abilityUsed)));
+      assert.deepEqual([...used].sort(), ['Cleave', 'Fireball']);
+    });
+  });
+
+  describe('cooldowns', () => {
+    const slam = (cooldown: number): AbilityDefinition => ({
+      id: 'ability_slam',
+      name: 'Slam',
+      description: '',
+      allowedRoles: ['warrior'],
+      powerMultiplier: 0.5,
+      targeting: 'single_closest',
+      targetCount: 1,
+      ignoreDefense: false,
+      healThreshold: 0,
+      cooldown,
+      energyCost: 0,
+    });
+    const castGaps = (cooldown: number): number[] => {
+      const results = runSeeds(() => ({
+        playerTeam: [makeUnit('rex', 'warrior', 5)],
+        enemyTeam: [makeUnit('t1', 'tank', 20)],
+        options: { abilityDefs: [...DEFAULT_ABILITIES, slam(cooldown)], characterAbilityIds: new Map([['rex', ['ability_slam']]]) },
+      }), 40);
+      // Gaps counted in the caster's own turns
+      return results.flatMap((r) => {
+        const rexTurns = r.turnOrder.filter((t) => t.unitId === 'rex');
+        const turnOf = (index: number) => rexTurns.findLastIndex((t) => t.actionIndex <= index);
+        const casts = r.actionLog.flatMap((a, i) => (a.abilityUsed === 'Slam' ? [turnOf(i)] : []));
+        return casts.slice(1).map((t, i) => t - casts[i]);
+      });
+    };
+
+    it('waits at least the cooldown between casts', () => {
+      const gaps = castGaps(3);
+      assert.ok(gaps.length > 0);
+      assert.ok(gaps.every((g) => g >= 3), `gaps: ${gaps.join(',')}`);
+    });
+
+    it('allows back-to-back casts without a cooldown', () => {
+      assert.ok(castGaps(0).some((g) => g < 3));
+    });
+  });
+
+  describe('energy', () => {
+    const build = (options?: BattleOptions) => () => ({
+      playerTeam: [makeUnit('mira', 'mage', 15), makeUnit('bruno', 'tank', 15)],
+      enemyTeam: [makeUnit('rex', 'warrior', 15), makeUnit('t1', 'tank', 15)],
+      options,
+    });
+    const { MAX_ENERGY, ENERGY_PER_ATTACK, ENERGY_PER_HIT_TAKEN, ENERGY_REGEN_PER_TURN } = COMBAT_CONSTANTS;
+
+    it('fires ultimates only on a full bar, which empties it', () => {
+      const results = runSeeds(build(), 10);
+      const casts = results.flatMap((r) => r.actionLog.filter((a) => a.actionType === 'ability'));
+      assert.ok(casts.length > 0);
+      for (const action of casts) assert.equal(action.energy?.[action.actorId], 0);
+    });
+
+    it('fills from regen, attacks and hits taken, capped at the maximum', () => {
+      const { playerTeam, enemyTeam } = build()();
+      const r = runBattle(playerTeam, enemyTeam, 1);
+      const first = r.actionLog.find((a) => a.actionType === 'attack')!;
+      assert.equal(first.energy?.[first.actorId], ENERGY_REGEN_PER_TURN + ENERGY_PER_ATTACK);
+      assert.equal(first.energy?.[first.targetId!], ENERGY_PER_HIT_TAKEN);
+      const values = r.actionLog.flatMap((a) => Object.values(a.energy ?? {}));
+      assert.ok(values.every((e) => e >= 0 && e <= MAX_ENERGY));
+    });
+
+    it('uses declared energy costs and ignores chance conditions', () => {
+      const cheap = { ...DEFAULT_ABILITIES.find((a) => a.id === 'ability_fireball')!, energyCost: 0 };
+      const r = runBattle([makeUnit('mira', 'mage', 20)], [makeUnit('bruno', 'tank', 20)], 1, {
+        abilityDefs: [cheap, ...DEFAULT_ABILITIES.filter((a) => a.id !== cheap.id)],
+        characterAbilityIds: new Map([['mira', ['ability_fireball']]]),
+      });
+      const own = r.actionLog.filter((a) => a.actorId === 'mira' && (a.actionType === 'ability' || a.actionType === 'attack'));
+      assert.ok(own.length > 0 && own.every((a) => a.actionType === 'ability'));
+    });
+
+    it('keeps energy out of the log in random trigger mode', () => {
+      const results = runSeeds(build({ abilityTrigger: 'random' }), 5);
+      assert.ok(results.every((r) => r.actionLog.every((a) => a.energy === undefined)));
+    });
+
+    it('tracks energy on display units', () => {
+      const { playerTeam, enemyTeam } = build()();
+      const result = runBattle(playerTeam, enemyTeam, 1);
+      walkLog({ playerTeam, enemyTeam, seed: 1 }, result, (units, action) => {
+        assert.ok(units.every((u) => u.energy !== undefined && u.energy >= 0 && u.energy <= MAX_ENERGY));
+        for (const [id, energy] of Object.entries(action.energy ?? {})) {
+          const after = applyActionToDisplay(units, action).find((u) => u.id === id);
+          assert.equal(after?.energy, energy);
+        }
+      });
+      const randomUnits = createDisplayUnits({ playerTeam, enemyTeam, seed: 1, options: { abilityTrigger: 'random' } });
+      assert.ok(randomUnits.every((u) => u.energy === undefined));
+    });
+  });
+
+  describe('HP overrides', () => {
+    it('starts player units at the carried-over HP', () => {
+      let checked = 0;
+      for (let seed = 1; seed <= 10; seed++) {
+        const playerTeam = [makeUnit('bruno', 'tank'), makeUnit('flynn', 'archer')];
+        const enemyTeam = [makeUnit('rex', 'warrior'), makeUnit('zed', 'assassin')];
+        const options: BattleOptions = {
+          playerHpOverrides: new Map([
+            ['flynn', { currentHp: 1, maxHp: 5000 }],
+            ['not-in-team', { currentHp: 1, maxHp: 1 }],
+          ]),
+        };
+        const result = new AutoBattleSimulation(playerTeam, enemyTeam, seed, options).simulate();
+
+        // Any hit kills a 1 HP unit
+        const hits = result.actionLog.filter((a) => damageTo(a, 'flynn') > 0);
+        const death = result.actionLog.findIndex((a) => a.actionType === 'death' && a.actorId === 'flynn');
+        if (hits.length === 0) continue;
+        checked++;
+        assert.ok(death !== -1);
+        assert.equal(result.actionLog.slice(0, death).filter((a) => damageTo(a, 'flynn') > 0).length, 1);
+      }
+      assert.ok(checked > 0);
+    });
+  });
+});
+
+describe('stepwise battles', () => {
+  const build = () => ({
+    playerTeam: [makeUnit('bruno', 'tank'), makeUnit('rex', 'warrior'), makeUnit('lia', 'healer')],
+    enemyTeam: [makeUnit('aria', 'archer'), makeUnit('mira', 'mage'), makeUnit('zed', 'assassin')],
+  });
+  const playerIds = new Set(['bruno', 'rex', 'lia']);
+  const playerCasts = (result: BattleResult) =>
+    result.actionLog.filter((a) => a.abilityUsed && playerIds.has(a.actorId) && a.actionType !== 'trait');
+
+  it('steps through the same battle as simulate', () => {
+    const { playerTeam, enemyTeam } = build();
+    const sim = new AutoBattleSimulation(playerTeam, enemyTeam, 4);
+    const stepped: CombatAction[] = [];
+    const steps = sim.steps();
+    let next = steps.next();
+    while (!next.done) {
+      const step = next.value;
+      assert.ok(step.units.some((u) => u.characterId === step.unitId));
+      stepped.push(...step.actions);
+      next = steps.next();
+    }
+    const again = build();
+    const result = runBattle(again.playerTeam, again.enemyTeam, 4);
+    assert.deepEqual(stepped, result.actionLog);
+    assert.deepEqual(next.value.actionLog, result.actionLog);
+    assert.equal(sim.isOver, true);
+    assert.equal(sim.step(), null);
+  });
+
+  it('only casts queued abilities for player units in manual mode', () => {
+    const auto = runSeeds(build, 5);
+    assert.ok(auto.some((r) => playerCasts(r).length > 0));
+    for (const result of runSeeds(() => ({ ...build(), options: { manualAbilities: true } }), 5)) {
+      assert.deepEqual(playerCasts(result), []);
+      assert.deepEqual(result.manualInputs, []);
+    }
+  });
+
+  it('casts and records queued abilities', () => {
+    const { playerTeam, enemyTeam } = build();
+    const sim = new AutoBattleSimulation(playerTeam, enemyTeam, 4, { manualAbilities: true });
+    let casts = 0;
+    for (let step = sim.step(); step; step = sim.step()) {
+      if (step.unitId === 'rex' && step.actions.some((a) => a.actorId === 'rex' && a.abilityUsed)) casts++;
+      if (!sim.queuedAbilityIds.includes('rex')) sim.queueAbility('rex');
+    }
+    const result = sim.getResult();
+    assert.ok(casts > 0);
+    assert.ok(result.manualInputs!.length > 0);
+    assert.ok(result.manualInputs!.every((input) => input.unitId === 'rex'));
+
+    const again = build();
+    const replayed = runBattle(again.playerTeam, again.enemyTeam, 4, { manualAbilities: true, manualInputs: result.manualInputs });
+    assert.deepEqual(replayed.actionLog, result.actionLog);
+  });
+
+  it('rejects requests outside manual mode or for other units', () => {
+    const { playerTeam, enemyTeam } = build();
+    assert.match(new AutoBattleSimulation(playerTeam, enemyTeam, 1).queueAbility('rex')!, /disabled/);
+    const again = build();
+    const sim = new AutoBattleSimulation(again.playerTeam, again.enemyTeam, 1, { manualAbilities: true });
+    assert.match(sim.queueAbility('aria')!, /No living player unit/);
+    assert.equal(sim.queueAbility('rex'), null);
+    assert.equal(sim.queueAbility('rex'), null);
+    assert.deepEqual(sim.queuedAbilityIds, ['rex']);
+    sim.simulate();
+    assert.match(sim.queueAbility('rex')!, /over/);
+  });
+});
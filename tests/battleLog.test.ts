@@ -0,0 +1,143 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BattleOptions } from '../src/lib/game/AutoBattleSimulation';
+import {
+  BATTLE_SNAPSHOT_INTERVAL,
+  applyActionDelta,
+  findSnapshot,
+  getFinalUnitStates,
+  getUnitStatesAt,
+} from '../src/lib/game/battleLog';
+import { displayUnitsAt, finalDisplayUnits } from '../src/lib/game/battleDisplay';
+import type { BattleSetup } from '../src/lib/game/replay';
+import type { BattleResult, CombatAction, UnitSnapshot } from '../src/lib/game/types';
+import { makeUnit, runBattle } from './fixtures';
+
+const options: BattleOptions = {
+  summonerConfigs: new Map([[
+    'sora',
+    { templates: [{ id: 'wolf', name: 'Wolf', role: 'warrior', level: 10, ascension: 0 }], maxSummons: 2 },
+  ]]),
+};
+
+function fight(seed: number): { setup: BattleSetup; result: BattleResult } {
+  const setup: BattleSetup = {
+    playerTeam: [makeUnit('sora', 'summoner', 15), makeUnit('bruno', 'tank'), makeUnit('lia', 'healer')],
+    enemyTeam: [makeUnit('aria', 'archer'), makeUnit('mira', 'mage'), makeUnit('zed', 'assassin')],
+    seed,
+    options,
+  };
+  return { setup, result: runBattle(setup.playerTeam, setup.enemyTeam, seed, options) };
+}
+
+const battles = [1, 2, 3, 4, 5].map(fight);
+
+/** State fields every delta keeps up to date */
+const core = (units: UnitSnapshot[]) =>
+  units.map((u) => ({ id: u.characterId, hp: u.currentHp, alive: u.isAlive, atk: u.atk, energy: u.energy, cooldowns: u.cooldowns }));
+
+describe('battle log deltas', () => {
+  it('rebuilds every snapshot from the start snapshot and the deltas', () => {
+    for (const { result } of battles) {
+      const [start, ...rest] = result.snapshots;
+      assert.equal(start.actionIndex, 0);
+      assert.equal(result.snapshots.at(-1)!.actionIndex, result.actionLog.length);
+      for (const snapshot of rest) {
+        const rebuilt = result.actionLog.slice(0, snapshot.actionIndex).reduce(applyActionDelta, start.units);
+        assert.deepEqual(core(rebuilt), core(snapshot.units), `snapshot at ${snapshot.actionIndex}`);
+      }
+    }
+  });
+
+  it('takes a snapshot every BATTLE_SNAPSHOT_INTERVAL actions', () => {
+    for (const { result } of battles) {
+      const inner = result.snapshots.slice(1, -1).map((s) => s.actionIndex);
+      const expected = [];
+      for (let i = BATTLE_SNAPSHOT_INTERVAL; i < result.actionLog.length; i += BATTLE_SNAPSHOT_INTERVAL) expected.push(i);
+      assert.deepEqual(inner, expected);
+      assert.equal(findSnapshot(result.snapshots, BATTLE_SNAPSHOT_INTERVAL - 1)!.actionIndex, 0);
+    }
+  });
+
+  it('records HP before and after, deaths and spawned units', () => {
+    let spawned = 0;
+    for (const { result } of battles) {
+      for (const [i, action] of result.actionLog.entries()) {
+        const before = getUnitStatesAt(result, i);
+        for (const [id, hp] of Object.entries(action.delta?.hp ?? {})) {
+          assert.equal(before.find((u) => u.characterId === id)?.currentHp, hp.before);
+        }
+        if (action.actionType === 'death') assert.deepEqual(action.delta?.deaths, [action.actorId]);
+        if (action.actionType === 'summon') {
+          assert.equal(action.delta?.spawned?.[0].characterId, action.summonedUnit!.id);
+          spawned++;
+        }
+      }
+    }
+    assert.ok(spawned > 0);
+  });
+
+  it('seeks the same state as replaying the log from the start', () => {
+    const start = structuredClone(battles[0].result.snapshots[0].units);
+    for (const { result } of battles) {
+      for (const count of [0, 1, BATTLE_SNAPSHOT_INTERVAL + 3, result.actionLog.length - 1]) {
+        const replayed = result.actionLog.slice(0, count).reduce(applyActionDelta, result.snapshots[0].units);
+        assert.deepEqual(getUnitStatesAt(result, count), replayed);
+      }
+    }
+    assert.deepEqual(battles[0].result.snapshots[0].units, start, 'snapshots are not mutated');
+  });
+
+  it('records the stacks left by status effect actions', () => {
+    let checked = 0;
+    for (const { result } of battles) {
+      for (const action of result.actionLog) {
+        if (action.actionType !== 'effect_apply' && action.actionType !== 'effect_expire') continue;
+        assert.equal(typeof action.delta?.effectStacks, 'number');
+        if (action.actionType === 'effect_apply') assert.ok(action.delta!.effectStacks! >= 1);
+        checked++;
+      }
+    }
+    assert.ok(checked > 0);
+  });
+
+  it('keeps a status effect until its last stack expires', () => {
+    const [unit] = battles[0].result.snapshots[0].units;
+    const units = [{ ...unit, statusEffects: ['poison' as const] }];
+    const expire = (effectStacks: number): CombatAction => ({
+      ...battles[0].result.actionLog[0],
+      actionType: 'effect_expire',
+      targetId: unit.characterId,
+      statusEffect: 'poison',
+      delta: { effectStacks },
+    });
+    assert.deepEqual(applyActionDelta(units, expire(1))[0].statusEffects, ['poison']);
+    assert.deepEqual(applyActionDelta(units, expire(0))[0].statusEffects, []);
+  });
+
+  it('ends on the final HP of every unit', () => {
+    for (const { setup, result } of battles) {
+      const display = finalDisplayUnits(setup, result.actionLog);
+      for (const unit of getFinalUnitStates(result)) {
+        const shown = display.find((u) => u.id === unit.characterId);
+        if (unit.isSummoned && !unit.isAlive) continue;
+        assert.equal(shown?.currentHp, unit.currentHp, unit.characterId);
+        assert.equal(shown?.isAlive, unit.isAlive, unit.characterId);
+      }
+    }
+  });
+});
+
+describe('display seeking', () => {
+  it('matches playback from the start at any action', () => {
+    for (const { setup, result } of battles) {
+      for (const count of [0, BATTLE_SNAPSHOT_INTERVAL, BATTLE_SNAPSHOT_INTERVAL + 7, result.actionLog.length]) {
+        const seeked = displayUnitsAt(setup, result, count);
+        const played = finalDisplayUnits(setup, result.actionLog.slice(0, count));
+        const view = (units: typeof seeked) =>
+          units.map((u) => ({ id: u.id, name: u.name, hp: u.currentHp, alive: u.isAlive, atk: u.atk, energy: u.energy }));
+        assert.deepEqual(view(seeked), view(played), `action ${count}`);
+      }
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createUnitBattleStats,
+  getMvpScore,
+  getTeamTotals,
+  pickMvp,
+  sumBattleStats,
+  type UnitBattleStats,
+} from '../src/lib/game/battleStats';
+import { DungeonRun } from '../src/lib/game/dungeonRun';
+import { CHARACTER_DEFINITIONS } from '../src/lib/game/characters';
+import { DEFAULT_ABILITIES } from '../src/lib/game/abilities';
+import type { BattleResult } from '../src/lib/game/types';
+import { makeUnit, runSeeds } from './fixtures';
+
+const unit = (unitId: string, team: 'player' | 'enemy', stats: Partial<UnitBattleStats> = {}): UnitBattleStats => ({
+  ...createUnitBattleStats(unitId, unitId, team),
+  ...stats,
+});
+
+/** HP damage each unit took according to the action log */
+function damageTakenFromLog(result: BattleResult): Map<string, number> {
+  const taken = new Map<string, number>();
+  const add = (id: string | undefined, amount: number | undefined) => {
+    if (id && amount) taken.set(id, (taken.get(id) ?? 0) + amount);
+  };
+  for (const action of result.actionLog) {
+    if (action.aoeTargets) for (const t of action.aoeTargets) add(t.id, t.damage);
+    else if (action.actionType !== 'heal') add(action.targetId, action.damage);
+  }
+  return taken;
+}
+
+describe('battle stat helpers', () => {
+  it('picks the MVP by score among non-summoned units of a team', () => {
+    const stats = [
+      unit('rex', 'player', { damageDealt: 300 }),
+      unit('lia', 'player', { healingDone: 200, kills: 1 }),
+      { ...unit('wolf', 'player', { damageDealt: 900 }), isSummoned: true },
+      unit('ogre', 'enemy', { damageDealt: 1000 }),
+    ];
+    assert.equal(getMvpScore(stats[1]), 300);
+    assert.equal(pickMvp(stats)?.unitId, 'rex', 'ties go to the earlier unit');
+    assert.equal(pickMvp(stats, 'enemy')?.unitId, 'ogre');
+    assert.equal(pickMvp([]), undefined);
+  });
+
+  it('sums team totals and merges battles by unit', () => {
+    const room1 = [unit('rex', 'player', { damageDealt: 10, kills: 1 }), unit('lia', 'player', { healingDone: 5 })];
+    const room2 = [unit('rex', 'player', { damageDealt: 20 }), unit('ogre', 'enemy', { damageDealt: 7 })];
+    assert.equal(getTeamTotals(room1).damageDealt, 10);
+    assert.equal(getTeamTotals(room2, 'enemy').damageDealt, 7);
+
+    const merged = sumBattleStats([room1, room2]);
+    assert.deepEqual(merged.map((u) => u.unitId), ['rex', 'lia', 'ogre']);
+    assert.equal(merged[0].damageDealt, 30);
+    assert.equal(merged[0].kills, 1);
+    assert.equal(room1[0].damageDealt, 10, 'inputs are not mutated');
+  });
+});
+
+describe('battle stats in battle', () => {
+  const results = runSeeds(() => ({
+    playerTeam: [makeUnit('bruno', 'tank'), makeUnit('rex', 'warrior'), makeUnit('lia', 'healer')],
+    enemyTeam: [makeUnit('aria', 'archer'), makeUnit('mira', 'mage'), makeUnit('zed', 'assassin')],
+  }), 10);
+
+  it('returns stats for every unit, player units first', () => {
+    for (const result of results) {
+      assert.deepEqual(result.unitStats.map((u) => u.team), ['player', 'player', 'player', 'enemy', 'enemy', 'enemy']);
+      assert.deepEqual(result.unitStats.map((u) => u.unitId).sort(), ['aria', 'bruno', 'lia', 'mira', 'rex', 'zed']);
+    }
+  });
+
+  it('matches the damage, healing and deaths of the action log', () => {
+    for (const result of results) {
+      const taken = damageTakenFromLog(result);
+      for (const stats of result.unitStats) assert.equal(stats.damageTaken, taken.get(stats.unitId) ?? 0, stats.unitId);
+
+      const dealt = result.unitStats.reduce((sum, u) => sum + u.damageDealt, 0);
+      assert.equal(dealt, [...taken.values()].reduce((sum, d) => sum + d, 0));
+
+      const healed = result.actionLog.filter((a) => a.actionType === 'heal' && a.actorId === 'lia').reduce((sum, a) => sum + a.healing!, 0);
+      assert.equal(result.unitStats.find((u) => u.unitId === 'lia')!.healingDone, healed);
+
+      const deaths = result.actionLog.filter((a) => a.actionType === 'death').length;
+      assert.equal(result.unitStats.reduce((sum, u) => sum + u.kills, 0), deaths);
+    }
+  });
+
+  it('counts crits, casts, DEF mitigation and turns alive', () => {
+    const all = results.flatMap((r) => r.unitStats);
+    assert.ok(all.some((u) => u.crits > 0));
+    assert.ok(all.some((u) => u.abilitiesCast > 0));
+    assert.ok(all.filter((u) => u.damageTaken > 0).every((u) => u.damageMitigated > 0));
+    for (const result of results) {
+      for (const stats of result.unitStats) {
+        const died = result.actionLog.some((a) => a.actionType === 'death' && a.actorId === stats.unitId);
+        if (died) assert.ok(stats.turnsAlive <= result.turns);
+        else assert.equal(stats.turnsAlive, result.turns);
+      }
+    }
+  });
+
+  it('sums player stats over a dungeon run', () => {
+    const run = new DungeonRun({
+      content: {
+        characters: CHARACTER_DEFINITIONS,
+        enemies: [{ id: 'grunt', name: 'Grunt', role: 'warrior', rarity: 'common', level: 4, ascension: 0, abilities: [] }],
+        abilities: DEFAULT_ABILITIES,
+      },
+      dungeon: {
+        id: 'd', name: 'D', description: '',
+        rooms: [1, 2].map((n) => ({
+          id: `r${n}`, name: `Room ${n}`, roomNumber: n, isBoss: false,
+          enemies: [{ enemyTemplateId: 'grunt' }], difficultyMult: 1, xpReward: 0, goldReward: 0,
+        })),
+      },
+      team: CHARACTER_DEFINITIONS.slice(0, 2).map((c) => ({ characterId: c.id, level: 10, ascension: 0 })),
+      seed: 7,
+    });
+    run.runToEnd();
+    const total = run.roomResults.reduce((sum, r) => sum + getTeamTotals(r.result.unitStats).damageDealt, 0);
+    assert.ok(run.runStats.every((u) => u.team === 'player'));
+    assert.equal(getTeamTotals(run.runStats).damageDealt, total);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BattleOptions, BossScript } from '../src/lib/game/AutoBattleSimulation';
+import { applyActionToDisplay, createDisplayUnits } from '../src/lib/game/battleDisplay';
+import {
+  describeBossEnrage,
+  describeBossPhase,
+  getPhasesToEnter,
+  sortBossPhases,
+} from '../src/lib/game/bossPhases';
+import { createDefaultGambit } from '../src/lib/game/gambits';
+import { createBattleReplay, replayBattle } from '../src/lib/game/replay';
+import { makeUnit, runBattle } from './fixtures';
+
+const phases = sortBossPhases([
+  { id: 'p2', name: 'Last Stand', hpThreshold: 0.25 },
+  { id: 'p1', name: 'Fury', hpThreshold: 0.5 },
+]);
+
+/** Boss script with a 50% phase summoning an add, raising a shield and swapping to Fireball */
+const furyScript = (): BossScript => ({
+  phases: [{
+    id: 'fury',
+    name: 'Fury',
+    hpThreshold: 0.5,
+    shield: 0.2,
+    abilities: [createDefaultGambit('ability_fireball')],
+    summons: [{ id: 'imp', name: 'Imp', role: 'warrior', level: 10, ascension: 0 }],
+  }],
+});
+
+const bossSetup = (options: BattleOptions) => ({
+  playerTeam: [makeUnit('rex', 'warrior', 25), makeUnit('aria', 'archer', 25), makeUnit('mira', 'mage', 25)],
+  enemyTeam: [makeUnit('boss', 'tank', 20)],
+  seed: 3,
+  options: { bossIds: new Set(['boss']), ...options },
+});
+
+describe('boss phase helpers', () => {
+  it('enters phases in threshold order, skipping started ones', () => {
+    assert.deepEqual(phases.map((p) => p.id), ['p1', 'p2']);
+    assert.deepEqual(getPhasesToEnter(phases, 0, 0.6), []);
+    assert.deepEqual(getPhasesToEnter(phases, 0, 0.5).map((p) => p.id), ['p1']);
+    assert.deepEqual(getPhasesToEnter(phases, 0, 0.1).map((p) => p.id), ['p1', 'p2']);
+    assert.deepEqual(getPhasesToEnter(phases, 1, 0.4), []);
+  });
+
+  it('describes phases and enrage timers', () => {
+    assert.equal(
+      describeBossPhase({ id: 'p', name: 'P', hpThreshold: 0.5, summonIds: ['a', 'b'], shield: 0.2 }),
+      'Below 50% HP: summons 2, shield 20% max HP'
+    );
+    assert.equal(describeBossPhase({ id: 'p', name: 'P', hpThreshold: 0.3 }), 'Below 30% HP: no effect');
+    assert.equal(describeBossEnrage({ turn: 20, atkMultiplier: 1.5 }), 'Turn 20: ATK x1.5');
+  });
+});
+
+describe('boss phases in battle', () => {
+  it('logs the transition, then summons, shields and swaps abilities', () => {
+    const setup = bossSetup({ bossScripts: new Map([['boss', furyScript()]]) });
+    const log = runBattle(setup.playerTeam, setup.enemyTeam, setup.seed, setup.options).actionLog;
+    const index = log.findIndex((a) => a.actionType === 'phase');
+    assert.ok(index >= 0, 'the boss reaches its phase');
+    assert.equal(log.filter((a) => a.actionType === 'phase').length, 1, 'a phase starts only once');
+    assert.equal(log[index].phase, 'Fury');
+    assert.equal(log[index].actorId, 'boss');
+
+    const after = log.slice(index + 1);
+    assert.ok(after.some((a) => a.actionType === 'effect_apply' && a.targetId === 'boss' && a.statusEffect === 'shield'));
+    assert.ok(after.some((a) => a.actionType === 'summon' && a.actorId === 'boss' && a.summonedUnit?.name === 'Imp'));
+    assert.ok(log.slice(0, index).every((a) => a.actorId !== 'boss' || a.abilityUsed !== 'Fireball'));
+    assert.ok(after.some((a) => a.actorId === 'boss' && a.abilityUsed === 'Fireball'));
+  });
+
+  it('multiplies ATK once the enrage turn is reached', () => {
+    const setup = bossSetup({ bossScripts: new Map([['boss', { phases: [], enrage: { turn: 1, atkMultiplier: 2 } }]]) });
+    const result = runBattle(setup.playerTeam, setup.enemyTeam, setup.seed, setup.options);
+    const enrages = result.actionLog.filter((a) => a.phase === 'Enrage');
+    assert.equal(enrages.length, 1);
+    assert.equal(enrages[0].enrage, 2);
+
+    let units = createDisplayUnits(setup);
+    const baseAtk = units.find((u) => u.id === 'boss')!.atk;
+    for (const action of result.actionLog) units = applyActionToDisplay(units, action);
+    assert.equal(units.find((u) => u.id === 'boss')!.atk, baseAtk * 2);
+  });
+
+  it('leaves unscripted bosses unchanged', () => {
+    const plain = bossSetup({});
+    const scripted = bossSetup({ bossScripts: new Map() });
+    assert.equal(
+      JSON.stringify(runBattle(scripted.playerTeam, scripted.enemyTeam, 3, scripted.options).actionLog),
+      JSON.stringify(runBattle(plain.playerTeam, plain.enemyTeam, 3, plain.options).actionLog)
+    );
+  });
+
+  it('places several bosses side by side', () => {
+    const setup = {
+      playerTeam: [makeUnit('rex', 'warrior', 25), makeUnit('aria', 'archer', 25)],
+      enemyTeam: [makeUnit('ogre', 'tank'), makeUnit('lich', 'mage'), makeUnit('imp', 'assassin')],
+      seed: 5,
+      options: { bossIds: new Set(['ogre', 'lich']) },
+    };
+    const units = createDisplayUnits(setup);
+    assert.deepEqual(units.find((u) => u.id === 'ogre')!.position, { row: 0, col: 0 });
+    assert.deepEqual(units.find((u) => u.id === 'lich')!.position, { row: 0, col: 1 });
+    assert.equal(units.find((u) => u.id === 'imp')!.position.row, 3);
+    assert.ok(runBattle(setup.playerTeam, setup.enemyTeam, setup.seed, setup.options).actionLog.length > 0);
+  });
+
+  it('replays scripted bosses', () => {
+    const setup = bossSetup({ bossScripts: new Map([['boss', { ...furyScript(), enrage: { turn: 10, atkMultiplier: 1.5 } }]]) });
+    const result = runBattle(setup.playerTeam, setup.enemyTeam, setup.seed, setup.options);
+    const replay = JSON.parse(JSON.stringify(createBattleReplay(setup, result, 'test')));
+    const replayed = replayBattle(replay);
+    assert.notEqual(typeof replayed, 'string', replayed as string);
+  });
+});
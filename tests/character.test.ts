@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character, createCharacter } from '../src/lib/game/Character';
+import { COMBAT_CONSTANTS, ROLE_BASE_STATS } from '../src/lib/game/types';
+import { makeDef } from './fixtures';
+
+describe('Character', () => {
+  it('uses the role base stats at level 1, ascension 0', () => {
+    const c = new Character(makeDef('bruno', 'tank'));
+    const base = ROLE_BASE_STATS.tank;
+    assert.deepEqual({ hp: c.hp, atk: c.atk, def: c.def, spd: c.spd }, base);
+  });
+
+  it('scales HP/ATK/DEF by +10% per level above 1', () => {
+    const c = new Character(makeDef('mira', 'mage'), 11);
+    const base = ROLE_BASE_STATS.mage;
+    assert.equal(c.hp, Math.floor(base.hp * 2));
+    assert.equal(c.atk, Math.floor(base.atk * 2));
+    assert.equal(c.def, Math.floor(base.def * 2));
+  });
+
+  it('scales HP/ATK/DEF by +15% per ascension tier', () => {
+    const c = new Character(makeDef('flynn', 'archer'), 1, 2);
+    const base = ROLE_BASE_STATS.archer;
+    assert.equal(c.hp, Math.floor(base.hp * 1.3));
+    assert.equal(c.atk, Math.floor(base.atk * 1.3));
+  });
+
+  it('combines rarity, level and ascension multipliers and floors the result', () => {
+    const c = new Character(makeDef('rex', 'warrior', 'epic'), 5, 1, undefined, { epic: 1.5 });
+    const levelMult = 1 + 4 * COMBAT_CONSTANTS.LEVEL_STAT_BONUS;
+    const ascensionMult = 1 + COMBAT_CONSTANTS.ASCENSION_STAT_BONUS;
+    const expected = Math.floor(ROLE_BASE_STATS.warrior.atk * 1.5 * levelMult * ascensionMult);
+    assert.equal(c.rarityMultiplier, 1.5);
+    assert.equal(c.atk, expected);
+  });
+
+  it('defaults the rarity multiplier to 1', () => {
+    const c = new Character(makeDef('rex', 'warrior', 'legendary'), 1, 0, undefined, { epic: 2 });
+    assert.equal(c.rarityMultiplier, 1);
+    assert.equal(c.hp, ROLE_BASE_STATS.warrior.hp);
+  });
+
+  it('never scales SPD', () => {
+    const c = new Character(makeDef('zed', 'assassin', 'epic'), 50, 6, undefined, { epic: 2 });
+    assert.equal(c.spd, ROLE_BASE_STATS.assassin.spd);
+  });
+
+  it('clamps level to 1-100 and ascension to 0-MAX_ASCENSION', () => {
+    assert.equal(new Character(makeDef('a', 'tank'), 0).level, 1);
+    assert.equal(new Character(makeDef('a', 'tank'), 250).level, 100);
+    assert.equal(new Character(makeDef('a', 'tank'), 1, -3).ascension, 0);
+    assert.equal(new Character(makeDef('a', 'tank'), 1, 99).ascension, COMBAT_CONSTANTS.MAX_ASCENSION);
+  });
+
+  it('prefers custom role base stats when provided', () => {
+    const custom = { healer: { hp: 100, atk: 10, def: 5, spd: 33 } };
+    const c = new Character(makeDef('lia', 'healer'), 1, 0, custom);
+    assert.deepEqual(c.baseStats, custom.healer);
+    assert.equal(c.spd, 33);
+    // Roles without an override keep the defaults
+    assert.deepEqual(new Character(makeDef('t', 'tank'), 1, 0, custom).baseStats, ROLE_BASE_STATS.tank);
+  });
+
+  it('builds a full-HP combat state', () => {
+    const c = createCharacter(makeDef('bruno', 'tank'), 3, 1);
+    const state = c.createCombatState('enemy', { row: 0, col: 2 });
+    assert.equal(state.characterId, 'bruno');
+    assert.equal(state.team, 'enemy');
+    assert.equal(state.currentHp, c.hp);
+    assert.equal(state.maxHp, c.hp);
+    assert.equal(state.isAlive, true);
+    assert.deepEqual(state.position, { row: 0, col: 2 });
+    assert.equal(state.level, 3);
+    assert.equal(state.ascension, 1);
+  });
+
+  it('falls back to the legacy single sprite', () => {
+    const def = { ...makeDef('old', 'mage'), sprite: 'old.png' };
+    assert.deepEqual(new Character(def).sprites, { idle: 'old.png' });
+  });
+});
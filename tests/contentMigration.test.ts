@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CONTENT_MIGRATIONS, migrateContent, type ContentMigrationResult } from '../src/lib/admin/contentMigration';
+import { CURRENT_CONTENT_VERSION } from '../src/lib/admin/adminTypes';
+import { CHARACTER_DEFINITIONS } from '../src/lib/game/characters';
+import { DEFAULT_ABILITIES } from '../src/lib/game/abilities';
+
+const room = {
+  id: 'r1', name: 'Room 1', roomNumber: 1, isBoss: false,
+  enemies: [{ enemyTemplateId: 'grunt' }], difficultyMult: 1, xpReward: 10, goldReward: 5,
+};
+
+/** Fields added after v2 that older migrations used to drop */
+const extras = {
+  towers: [{ id: 't', name: 'Tower', description: '', stages: [] }],
+  gachaConfig: { characterPool: ['char_001'], rates: { common: 1, rare: 0, epic: 0, legendary: 0 }, ascensionCosts: [1] },
+  expeditionConfig: { maxTeamSize: 3 },
+  roleStats: { tank: { hp: 1, atk: 1, def: 1, spd: 1 } },
+  levelThresholds: [5, 10],
+  rarityMultipliers: { common: 1, rare: 1.1, epic: 1.2, legendary: 1.3 },
+  dailyDungeonSchedule: { '2026-01-01': 'dungeon_migrated' },
+  someFutureField: { keep: true },
+};
+
+function migrate(raw: Record<string, unknown>): ContentMigrationResult {
+  const result = migrateContent(raw);
+  assert.notEqual(typeof result, 'string', result as string);
+  return result as ContentMigrationResult;
+}
+
+describe('migrateContent', () => {
+  it('has one step per version up to the current one', () => {
+    assert.deepEqual(
+      CONTENT_MIGRATIONS.map((s) => s.from),
+      Array.from({ length: CURRENT_CONTENT_VERSION - 1 }, (_, i) => i + 1)
+    );
+  });
+
+  it('leaves current content unchanged', () => {
+    const raw = {
+      version: CURRENT_CONTENT_VERSION,
+      characters: CHARACTER_DEFINITIONS,
+      enemies: [],
+      dungeons: [],
+      abilities: DEFAULT_ABILITIES,
+      ...extras,
+    };
+    const result = migrate(raw);
+    assert.deepEqual(result.changes, []);
+    assert.equal(result.fromVersion, CURRENT_CONTENT_VERSION);
+    assert.deepEqual(result.content, raw);
+  });
+
+  it('moves v2 standalone rooms into a dungeon without losing other fields', () => {
+    const raw = { version: 2, characters: [], enemies: [], abilities: [], dungeonRooms: [room], ...extras };
+    const { content, changes, fromVersion } = migrate(raw);
+    assert.equal(fromVersion, 2);
+    assert.equal(content.version, CURRENT_CONTENT_VERSION);
+    assert.equal(content.dungeons.length, 1);
+    assert.deepEqual(content.dungeons[0].rooms, [room]);
+    assert.equal(content.dungeonRooms, undefined);
+    for (const [key, value] of Object.entries(extras)) {
+      assert.deepEqual((content as unknown as Record<string, unknown>)[key], value, key);
+    }
+    assert.equal(changes.length, 1);
+    assert.match(changes[0], /^v2→v3: Moved 1 standalone room/);
+  });
+
+  it('keeps standalone rooms when dungeons already exist', () => {
+    const dungeon = { id: 'd', name: 'D', description: '', rooms: [] };
+    const { content, changes } = migrate({ version: 2, characters: [], enemies: [], abilities: [], dungeons: [dungeon], dungeonRooms: [room] });
+    assert.deepEqual(content.dungeons, [dungeon]);
+    assert.deepEqual(content.dungeonRooms, [room]);
+    assert.deepEqual(changes, []);
+  });
+
+  it('repairs missing required lists and reports it', () => {
+    const { content, changes } = migrate({ version: CURRENT_CONTENT_VERSION, characters: [], abilities: [] });
+    assert.deepEqual(content.enemies, []);
+    assert.deepEqual(content.dungeons, []);
+    assert.deepEqual(changes, ['Added an empty enemies list', 'Added an empty dungeons list']);
+  });
+
+  it('turns v3 single abilities into ability lists', () => {
+    const { content, changes } = migrate({
+      version: 3,
+      characters: [
+        { id: 'c1', name: 'Mira', role: 'mage', abilityName: 'fireball' },
+        { id: 'c2', name: 'Odd', role: 'tank', abilityName: 'Unknown' },
+      ],
+      enemies: [
+        { id: 'e1', name: 'Grunt', role: 'warrior', abilityId: 'ability_cleave' },
+        { id: 'e2', name: 'Boss', role: 'tank', isBoss: true, abilityId: 'ability_taunt', abilityIds: ['ability_fireball', 'ability_heal'] },
+        { id: 'e3', name: 'Plain', role: 'archer', abilityId: '' },
+      ],
+      dungeons: [],
+      abilities: DEFAULT_ABILITIES,
+    });
+    const abilityIds = (e: { abilities?: { abilityId: string }[] }) => e.abilities?.map((g) => g.abilityId);
+    assert.deepEqual(content.enemies.map(abilityIds), [['ability_cleave'], ['ability_fireball', 'ability_heal'], []]);
+    assert.ok(content.enemies.every((e) => !('abilityId' in e) && !('abilityIds' in e)));
+    assert.deepEqual(content.characters.map(abilityIds), [['ability_fireball'], undefined]);
+    assert.deepEqual(content.enemies[0].abilities[0].conditions, [{ type: 'chance', value: 0.25 }]);
+    assert.equal(changes.length, 2);
+  });
+
+  it('runs the whole chain from v1 (or no version)', () => {
+    const { content, changes, fromVersion } = migrate({ characters: [], dungeonRooms: [room], ...extras });
+    assert.equal(fromVersion, 1);
+    assert.equal(content.version, CURRENT_CONTENT_VERSION);
+    assert.equal(content.abilities.length, DEFAULT_ABILITIES.length);
+    assert.equal(content.dungeons.length, 1);
+    assert.deepEqual(content.enemies, []);
+    assert.ok(changes[0].startsWith('v1→v2:'));
+    assert.ok(changes[1].startsWith('v2→v3:'));
+    assert.deepEqual((content as unknown as Record<string, unknown>).someFutureField, { keep: true });
+  });
+
+  it('does not modify its input', () => {
+    const raw = { version: 2, characters: [], dungeonRooms: [room], ...extras };
+    const snapshot = structuredClone(raw);
+    migrate(raw);
+    assert.deepEqual(raw, snapshot);
+  });
+
+  it('rejects newer and invalid versions', () => {
+    assert.match(migrateContent({ version: CURRENT_CONTENT_VERSION + 1 }) as string, /newer version/);
+    assert.match(migrateContent({ version: 'three' }) as string, /Invalid content version/);
+    assert.match(migrateContent({ version: 0 }) as string, /Invalid content version/);
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateContent, summarizeValidation } from '../src/lib/admin/contentValidation';
+import { CURRENT_CONTENT_VERSION, type GameContent } from '../src/lib/admin/adminTypes';
+import { CHARACTER_DEFINITIONS } from '../src/lib/game/characters';
+import { DEFAULT_ABILITIES } from '../src/lib/game/abilities';
+import { createDefaultGambit } from '../src/lib/game/gambits';
+import { createDefaultGearConfig } from '../src/lib/game/gear';
+import { createDefaultSynergies } from '../src/lib/game/synergies';
+
+function makeContent(overrides: Partial<GameContent> = {}): GameContent {
+  return {
+    version: CURRENT_CONTENT_VERSION,
+    characters: structuredClone(CHARACTER_DEFINITIONS),
+    enemies: [
+      { id: 'grunt', name: 'Grunt', role: 'warrior', rarity: 'common', level: 5, ascension: 0, abilities: [createDefaultGambit('ability_cleave')] },
+    ],
+    dungeons: [{
+      id: 'crypt',
+      name: 'Crypt',
+      description: '',
+      rooms: [{
+        id: 'r1', name: 'Room 1', roomNumber: 1, isBoss: false,
+        enemies: [{ enemyTemplateId: 'grunt' }], difficultyMult: 1, xpReward: 10, goldReward: 5,
+      }],
+    }],
+    abilities: structuredClone(DEFAULT_ABILITIES),
+    ...overrides,
+  };
+}
+
+const paths = (issues: { path: string }[]) => issues.map((i) => i.path);
+
+describe('validateContent', () => {
+  it('accepts consistent content', () => {
+    const result = validateContent(makeContent({
+      gachaConfig: {
+        characterPool: CHARACTER_DEFINITIONS.map((c) => c.id),
+        rates: { common: 0.74, rare: 0.2, epic: 0.05, legendary: 0.01 },
+        ascensionCosts: [1, 2, 3],
+      },
+      dailyDungeonId: 'crypt',
+      towers: [{ id: 't', name: 'Tower', description: '', stages: [{ stageNumber: 1, dungeonId: 'crypt' }] }],
+      gearConfig: createDefaultGearConfig(),
+      synergies: createDefaultSynergies(),
+    }));
+    assert.deepEqual(result.errors, []);
+    assert.equal(summarizeValidation(result), `0 errors, ${result.warnings.length} warning${result.warnings.length === 1 ? '' : 's'}`);
+  });
+
+  it('reports rooms referencing deleted enemy templates', () => {
+    const content = makeContent();
+    content.dungeons[0].rooms[0].enemies.push({ enemyTemplateId: 'ghost' });
+    const { errors } = validateContent(content);
+    assert.deepEqual(paths(errors), ['dungeons[0].rooms[0].enemies[1].enemyTemplateId']);
+    assert.equal(errors[0].severity, 'error');
+    assert.match(errors[0].message, /ghost/);
+  });
+
+  it('reports tower stages and daily dungeons pointing at missing dungeons', () => {
+    const { errors } = validateContent(makeContent({
+      towers: [{ id: 't', name: 'Tower', description: '', stages: [{ stageNumber: 1, dungeonId: 'gone' }] }],
+      dailyDungeonId: 'gone',
+      dailyDungeonSchedule: { '2026-01-01': 'crypt', '2026-01-02': 'gone' },
+    }));
+    assert.deepEqual(paths(errors), ['towers[0].stages[0].dungeonId', 'dailyDungeonId', 'dailyDungeonSchedule.2026-01-02']);
+  });
+
+  it('reports missing summons and abilities', () => {
+    const content = makeContent();
+    content.characters[0] = { ...content.characters[0], role: 'summoner', summonIds: ['nobody'], abilityName: 'Meteor' };
+    content.enemies[0] = { ...content.enemies[0], abilities: [createDefaultGambit('ability_gone')], summonIds: ['nothing'] };
+    const { errors } = validateContent(content);
+    assert.deepEqual(paths(errors).sort(), [
+      'characters[0].abilityName',
+      'characters[0].summonIds[0]',
+      'enemies[0].abilities[0].abilityId',
+      'enemies[0].summonIds[0]',
+    ]);
+  });
+
+  it('requires gacha rates to sum to 1 and pool characters to exist', () => {
+    const { errors } = validateContent(makeContent({
+      gachaConfig: {
+        characterPool: ['char_001', 'missing'],
+        rates: { common: 0.7, rare: 0.2, epic: 0.05, legendary: 0.01 },
+        ascensionCosts: [1],
+      },
+    }));
+    assert.deepEqual(paths(errors), ['gachaConfig.characterPool[1]', 'gachaConfig.rates']);
+    assert.match(errors[1].message, /0\.9600/);
+  });
+
+  it('checks banner pools, featured characters and dates', () => {
+    const banner = {
+      id: 'b1',
+      name: 'Fire Fest',
+      characterPool: ['char_001', 'missing'],
+      rates: { common: 0.74, rare: 0.2, epic: 0.05, legendary: 0.01 },
+      featuredIds: ['char_002'],
+      featuredRate: 1.5,
+      startsAt: 2000,
+      endsAt: 1000,
+    };
+    const { errors, warnings } = validateContent(makeContent({ gachaBanners: [banner, { ...banner, featuredIds: [] }] }));
+    assert.deepEqual(paths(errors), [
+      'gachaBanners[1].id',
+      'gachaBanners[0].characterPool[1]',
+      'gachaBanners[0].featuredRate',
+      'gachaBanners[0].endsAt',
+      'gachaBanners[1].characterPool[1]',
+      'gachaBanners[1].featuredRate',
+      'gachaBanners[1].endsAt',
+    ]);
+    assert.ok(paths(warnings).includes('gachaBanners[0].featuredIds[0]'));
+  });
+
+  it('checks ability lists and their conditions', () => {
+    const content = makeContent();
+    content.characters[0] = {
+      ...content.characters[0],
+      abilityName: 'Not an ability',
+      abilities: [{ abilityId: 'ability_heal', conditions: [{ type: 'ally_hp_below', value: 1.5 }] }],
+    };
+    content.enemies[0].abilities.push({ abilityId: 'ability_cleave', conditions: [{ type: 'enemies_alive_at_least', value: 0 }] });
+    assert.deepEqual(paths(validateContent(content).errors), [
+      'characters[0].abilities[0].conditions[0].value',
+      'enemies[0].abilities[1].conditions[0].value',
+    ]);
+  });
+
+  it('requires energy costs within the energy bar', () => {
+    const content = makeContent();
+    content.abilities[0].energyCost = 150;
+    content.abilities[1].energyCost = 0;
+    assert.deepEqual(paths(validateContent(content).errors), ['abilities[0].energyCost']);
+  });
+
+  it('checks damage types and resistance ranges', () => {
+    const content = makeContent();
+    content.abilities[0].damageType = 'water' as never;
+    content.characters[0].resistances = { fire: 0.5, ice: -1 };
+    content.enemies[0].resistances = { fire: 1.5, wind: 0.2 } as never;
+    assert.deepEqual(paths(validateContent(content).errors), [
+      'abilities[0].damageType',
+      'enemies[0].resistances.fire',
+      'enemies[0].resistances.wind',
+    ]);
+  });
+
+  it('checks trait combinations and values', () => {
+    const content = makeContent();
+    content.characters[0].traits = [
+      { id: 't1', name: 'Thorns', trigger: 'on_hit', effect: 'reflect', value: 0.2 },
+      { id: 't2', name: 'Undying', trigger: 'on_low_hp', effect: 'revive', value: 0.3 },
+    ];
+    content.enemies[0].traits = [
+      { id: 't1', name: 'Rage', trigger: 'on_low_hp', effect: 'stat_boost', value: 0.3, threshold: 1.5 },
+      { id: 't1', name: 'Second wind', trigger: 'turn_start', effect: 'heal', value: 0, chance: 0.5 },
+    ];
+    assert.deepEqual(paths(validateContent(content).errors), [
+      'characters[0].traits[1].effect',
+      'enemies[0].traits[1].id',
+      'enemies[0].traits[0].threshold',
+      'enemies[0].traits[1].value',
+    ]);
+  });
+
+  it('checks item bases, affix ranges and gear drop rates', () => {
+    const gearConfig = createDefaultGearConfig();
+    gearConfig.itemBases[0].mainStat = 'luck' as never;
+    gearConfig.itemBases[1].mainValue = 0;
+    gearConfig.affixes[0].min = 80;
+    gearConfig.affixes[1].slots = ['boots' as never];
+    gearConfig.rarityRates.common = 0.9;
+    gearConfig.roomDropChance = 2;
+    assert.deepEqual(paths(validateContent(makeContent({ gearConfig })).errors), [
+      'gearConfig.itemBases[0].mainStat',
+      'gearConfig.itemBases[1].mainValue',
+      'gearConfig.affixes[0].min',
+      'gearConfig.affixes[1].slots[0]',
+      'gearConfig.rarityRates',
+      'gearConfig.roomDropChance',
+    ]);
+  });
+
+  it('checks synergy keys and tiers', () => {
+    const content = makeContent({
+      synergies: [
+        { id: 's1', name: 'Pack', type: 'role', key: 'wolf', appliesTo: 'members', tiers: [{ count: 2, stat: 'atk', value: 0.1 }] },
+        { id: 's2', name: 'Undead', type: 'faction', key: 'Undead', appliesTo: 'team', tiers: [{ count: 1.5, stat: 'lifesteal', value: 2 }] },
+        { id: 's3', name: 'Empty', type: 'faction', key: 'Beast', appliesTo: 'team', tiers: [] },
+      ],
+    });
+    content.enemies[0].factions = ['Undead'];
+    const { errors, warnings } = validateContent(content);
+    assert.deepEqual(paths(errors), ['synergies[0].key', 'synergies[1].tiers[0].count', 'synergies[1].tiers[0].value']);
+    assert.ok(paths(warnings).includes('synergies[2].key'));
+    assert.ok(paths(warnings).includes('synergies[2].tiers'));
+  });
+
+  it('checks boss phases and enrage timers', () => {
+    const content = makeContent();
+    content.enemies.push({
+      id: 'lich', name: 'Lich', role: 'mage', rarity: 'epic', level: 10, ascension: 0, abilities: [], isBoss: true,
+      phases: [
+        { id: 'p1', name: 'Rise', hpThreshold: 0.5, summonIds: ['grunt', 'ghost'], abilities: [createDefaultGambit('ability_gone')] },
+        { id: 'p2', name: 'Fall', hpThreshold: 1.5, shield: 0 },
+      ],
+      enrage: { turn: 0, atkMultiplier: 1.5 },
+    });
+    content.enemies[0] = { ...content.enemies[0], enrage: { turn: 5, atkMultiplier: 2 } };
+    const { errors, warnings } = validateContent(content);
+    assert.deepEqual(paths(errors), [
+      'enemies[1].phases[0].summonIds[1]',
+      'enemies[1].phases[0].abilities[0].abilityId',
+      'enemies[1].phases[1].hpThreshold',
+      'enemies[1].phases[1].shield',
+      'enemies[1].enrage.turn',
+    ]);
+    assert.ok(paths(warnings).includes('enemies[0].phases'));
+  });
+
+  it('reports rooms with too many bosses', () => {
+    const content = makeContent();
+    content.enemies[0].isBoss = true;
+    content.dungeons[0].rooms[0].enemies = Array.from({ length: 4 }, () => ({ enemyTemplateId: 'grunt' }));
+    const { errors } = validateContent(content);
+    assert.deepEqual(paths(errors), ['dungeons[0].rooms[0].enemies']);
+    assert.match(errors[0].message, /Too many bosses/);
+  });
+
+  it('reports duplicate IDs', () => {
+    const content = makeContent();
+    content.enemies.push({ ...content.enemies[0] });
+    assert.deepEqual(paths(validateContent(content).errors), ['enemies[1].id']);
+  });
+
+  it('reports invalid room formations', () => {
+    const content = makeContent();
+    content.dungeons[0].rooms[0].enemies = [
+      { enemyTemplateId: 'grunt', position: { row: 0, col: 0 } },
+      { enemyTemplateId: 'grunt', position: { row: 0, col: 0 } },
+    ];
+    const { errors } = validateContent(content);
+    assert.deepEqual(paths(errors), ['dungeons[0].rooms[0].enemies']);
+    assert.match(errors[0].message, /collision/);
+  });
+
+  it('keeps playable oddities as warnings', () => {
+    const content = makeContent({ dailyDungeonSchedule: { tomorrow: 'crypt' } });
+    content.dungeons.push({ id: 'empty', name: 'Empty', description: '', rooms: [] });
+    const { errors, warnings } = validateContent(content);
+    assert.deepEqual(errors, []);
+    assert.ok(paths(warnings).includes('dungeons[1].rooms'));
+    assert.ok(paths(warnings).includes('dailyDungeonSchedule.tomorrow'));
+    assert.ok(warnings.every((w) => w.severity === 'warning'));
+  });
+});
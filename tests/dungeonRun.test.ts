@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DungeonRun, createRoomSetup, type DungeonRunConfig } from '../src/lib/game/dungeonRun';
+import { AutoBattleSimulation } from '../src/lib/game/AutoBattleSimulation';
+import { CHARACTER_DEFINITIONS } from '../src/lib/game/characters';
+import { DEFAULT_ABILITIES } from '../src/lib/game/abilities';
+import { replayBattle } from '../src/lib/game/replay';
+import type { Dungeon, EnemyTemplate } from '../src/lib/admin/adminTypes';
+import { makeDef } from './fixtures';
+
+const enemies: EnemyTemplate[] = [
+  { id: 'grunt', name: 'Grunt', role: 'warrior', rarity: 'common', level: 6, ascension: 0, abilities: [] },
+  { id: 'shaman', name: 'Shaman', role: 'healer', rarity: 'common', level: 6, ascension: 0, abilities: [] },
+];
+
+function makeDungeon(roomCount = 3): Dungeon {
+  return {
+    id: 'test-dungeon',
+    name: 'Test Dungeon',
+    description: '',
+    rooms: Array.from({ length: roomCount }, (_, i) => ({
+      id: `room-${i + 1}`,
+      name: `Room ${i + 1}`,
+      roomNumber: i + 1,
+      isBoss: false,
+      enemies: [{ enemyTemplateId: 'grunt' }, { enemyTemplateId: i > 0 ? 'shaman' : 'grunt' }],
+      difficultyMult: 1 + i * 0.2,
+      xpReward: 10,
+      goldReward: 5,
+    })),
+  };
+}
+
+function makeRun(overrides: Partial<DungeonRunConfig> = {}): DungeonRun {
+  return new DungeonRun({
+    content: { characters: CHARACTER_DEFINITIONS, enemies, abilities: DEFAULT_ABILITIES },
+    dungeon: makeDungeon(),
+    team: CHARACTER_DEFINITIONS.slice(0, 3).map((c) => ({ characterId: c.id, level: 8, ascension: 0 })),
+    seed: 12345,
+    ...overrides,
+  });
+}
+
+describe('DungeonRun', () => {
+  it('runs to completion or failure headlessly', () => {
+    const run = makeRun();
+    const outcome = run.runToEnd();
+    assert.ok(outcome === 'complete' || outcome === 'failed');
+    assert.equal(run.phase, outcome);
+    assert.ok(run.roomResults.length >= 1 && run.roomResults.length <= 3);
+  });
+
+  it('is deterministic for the same seed', () => {
+    const a = makeRun();
+    const b = makeRun();
+    assert.equal(a.runToEnd(), b.runToEnd());
+    assert.deepEqual(
+      a.roomResults.map((r) => r.result),
+      b.roomResults.map((r) => r.result)
+    );
+  });
+
+  it('carries survivor HP into the next room', () => {
+    const run = makeRun({ team: CHARACTER_DEFINITIONS.slice(0, 3).map((c) => ({ characterId: c.id, level: 30, ascension: 0 })) });
+    run.runToEnd();
+    assert.ok(run.roomResults.length >= 2);
+    const [first, second] = run.roomResults;
+    assert.equal(first.setup.options?.playerHpOverrides, undefined);
+    assert.deepEqual(
+      second.setup.playerTeam.map((c) => c.id).sort(),
+      [...first.survivorHp.keys()].sort()
+    );
+    for (const [id, hp] of first.survivorHp) {
+      assert.deepEqual(second.setup.options?.playerHpOverrides?.get(id), hp);
+      assert.equal(hp.maxHp, first.setup.playerTeam.find((c) => c.id === id)!.hp, 'carried before synergy bonuses');
+    }
+  });
+
+  it('records room replays that re-simulate identically', () => {
+    const run = makeRun();
+    run.runToEnd();
+    for (const room of run.roomResults) {
+      const check = replayBattle(room.replay, room.replay.contentHash);
+      assert.notEqual(typeof check, 'string');
+      assert.deepEqual((check as Exclude<typeof check, string>).result.actionLog, room.result.actionLog);
+    }
+  });
+
+  it('gives player summons their resistances', () => {
+    const characters = [
+      { ...makeDef('sora', 'summoner'), summonIds: ['golem'], maxSummons: 2 },
+      { ...makeDef('golem', 'tank'), resistances: { physical: 0.5 } },
+    ];
+    const content = { characters, enemies, abilities: DEFAULT_ABILITIES };
+    const setup = createRoomSetup(content, makeDungeon().rooms[0], 0, [{ characterId: 'sora', level: 10, ascension: 0 }], 7);
+    const result = new AutoBattleSimulation(setup.playerTeam, setup.enemyTeam, setup.seed, setup.options).simulate();
+    const summonIds = new Set(result.actionLog.filter((a) => a.summonedUnit).map((a) => a.summonedUnit!.id));
+    const hits = result.actionLog.filter((a) => a.targetId && summonIds.has(a.targetId) && a.actionType === 'attack');
+    assert.ok(hits.length > 0);
+    assert.ok(hits.every((a) => a.effectiveness === 'resisted'));
+  });
+
+  it('grants room rewards only for won rooms', () => {
+    const run = makeRun();
+    run.runToEnd();
+    for (const room of run.roomResults) {
+      const won = room.result.winner === 'player';
+      assert.deepEqual(room.rewards, won ? { xp: 10, gold: 5 } : { xp: 0, gold: 0 });
+    }
+  });
+
+  it('steps through select → running → room_result', () => {
+    const run = makeRun();
+    assert.equal(run.phase, 'select');
+    assert.equal(typeof run.fightRoom(), 'string');
+    assert.equal(run.start(), null);
+    assert.equal(run.phase, 'running');
+    assert.notEqual(run.start(), null);
+
+    const room = run.fightRoom();
+    assert.notEqual(typeof room, 'string');
+    assert.equal(run.phase, 'room_result');
+    assert.equal(run.latestResult, room);
+
+    const next = run.advance();
+    assert.equal(next, run.latestResult!.result.winner === 'player' ? 'running' : 'failed');
+    if (next === 'running') assert.equal(run.currentRoomIndex, 1);
+  });
+
+  it('refuses to start without rooms or characters', () => {
+    assert.match(makeRun({ dungeon: makeDungeon(0) }).start()!, /no rooms/);
+    assert.match(makeRun({ team: [{ characterId: 'missing', level: 1, ascension: 0 }] }).start()!, /at least one/);
+  });
+
+  it('refuses to start with an invalid formation', () => {
+    const [a, b] = CHARACTER_DEFINITIONS;
+    const run = makeRun({ formation: { [a.id]: { row: 1, col: 1 }, [b.id]: { row: 1, col: 1 } } });
+    assert.match(run.start()!, /^Team formation:/);
+    assert.equal(run.phase, 'select');
+  });
+});
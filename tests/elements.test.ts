@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character } from '../src/lib/game/Character';
+import { DEFAULT_ABILITIES, type AbilityDefinition } from '../src/lib/game/abilities';
+import {
+  describeResistances,
+  getDamageTypeMultiplier,
+  getEffectiveness,
+  type Resistances,
+} from '../src/lib/game/elements';
+import type { BattleOptions } from '../src/lib/game/AutoBattleSimulation';
+import { makeDef, makeUnit, runBattle } from './fixtures';
+
+describe('damage type multipliers', () => {
+  it('turns resistances into damage multipliers', () => {
+    const resistances: Resistances = { fire: 0.5, ice: -0.5, holy: 1, shadow: 3 };
+    assert.equal(getDamageTypeMultiplier(resistances, 'fire'), 0.5);
+    assert.equal(getDamageTypeMultiplier(resistances, 'ice'), 1.5);
+    assert.equal(getDamageTypeMultiplier(resistances, 'holy'), 0);
+    assert.equal(getDamageTypeMultiplier(resistances, 'shadow'), 0, 'clamped to immunity');
+    assert.equal(getDamageTypeMultiplier(resistances, 'physical'), 1);
+    assert.equal(getDamageTypeMultiplier(undefined, 'fire'), 1);
+  });
+
+  it('classifies hits and describes tables', () => {
+    assert.equal(getEffectiveness(1.5), 'super_effective');
+    assert.equal(getEffectiveness(0.5), 'resisted');
+    assert.equal(getEffectiveness(1), undefined);
+    assert.equal(describeResistances({ fire: -0.5, ice: 0.25, holy: 0 }), 'Fire weak 50%, Ice resist 25%');
+  });
+});
+
+describe('elemental damage in battle', () => {
+  /** Fireball on every action, so the first logged ability is the first hit */
+  const options: BattleOptions = {
+    abilityDefs: DEFAULT_ABILITIES.map((a): AbilityDefinition => (a.id === 'ability_fireball' ? { ...a, energyCost: 0 } : a)),
+    characterAbilityIds: new Map([['mira', ['ability_fireball']]]),
+  };
+  const fight = (resistances?: Resistances) => runBattle(
+    [makeUnit('mira', 'mage', 10)],
+    [new Character({ ...makeDef('bruno', 'tank'), resistances }, 20)],
+    1,
+    options
+  );
+  const firstFireball = (resistances?: Resistances) => fight(resistances).actionLog.find((a) => a.abilityUsed === 'Fireball')!;
+
+  it('scales damage by the target resistance and logs the effectiveness', () => {
+    const neutral = firstFireball();
+    const weak = firstFireball({ fire: -0.5 });
+    const resisted = firstFireball({ fire: 0.5 });
+    assert.equal(neutral.effectiveness, undefined);
+    assert.equal(weak.effectiveness, 'super_effective');
+    assert.match(weak.message, /super effective/);
+    assert.equal(resisted.effectiveness, 'resisted');
+    assert.match(resisted.message, /resisted/);
+    assert.ok(Math.abs(weak.damage! - neutral.damage! * 1.5) <= 2);
+    assert.ok(Math.abs(resisted.damage! - neutral.damage! * 0.5) <= 2);
+  });
+
+  it('deals no damage to immune targets', () => {
+    const result = fight({ fire: 1 });
+    const fireballs = result.actionLog.filter((a) => a.abilityUsed === 'Fireball');
+    assert.ok(fireballs.length > 0 && fireballs.every((a) => a.damage === 0));
+  });
+
+  it('leaves basic attacks physical', () => {
+    const result = runBattle([makeUnit('rex', 'warrior', 10)], [new Character({ ...makeDef('bruno', 'tank'), resistances: { fire: -1 } }, 10)], 1, { abilityTrigger: 'random' });
+    const attacks = result.actionLog.filter((a) => a.actionType === 'attack');
+    assert.ok(attacks.length > 0 && attacks.every((a) => a.effectiveness === undefined));
+  });
+
+  it('reports effectiveness per target on AoE hits', () => {
+    const cleave: AbilityDefinition = { ...DEFAULT_ABILITIES.find((a) => a.id === 'ability_cleave')!, damageType: 'ice', energyCost: 0 };
+    const result = runBattle(
+      [makeUnit('rex', 'warrior', 20)],
+      [
+        new Character({ ...makeDef('t1', 'tank'), resistances: { ice: -0.5 } }, 5),
+        new Character({ ...makeDef('t2', 'tank'), resistances: { ice: 0.5 } }, 5),
+      ],
+      1,
+      { abilityDefs: [cleave], characterAbilityIds: new Map([['rex', [cleave.id]]]) }
+    );
+    const hit = result.actionLog.find((a) => a.abilityUsed === 'Cleave' && a.aoeTargets?.length === 2)!;
+    assert.deepEqual(
+      hit.aoeTargets!.map((t) => [t.id, t.effectiveness]).sort(),
+      [['t1', 'super_effective'], ['t2', 'resisted']]
+    );
+    assert.match(hit.message, /Super effective on T1!.*Resisted by T2\./);
+  });
+});
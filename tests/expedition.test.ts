@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { previewExpedition, resolveExpedition } from '../src/lib/game/expeditionSimulation';
+import { createDefaultExpeditionConfig, type ExpeditionDuration } from '../src/lib/admin/adminTypes';
+import type { ActiveExpedition } from '../src/lib/player/playerStore';
+
+const config = createDefaultExpeditionConfig();
+
+function makeExpedition(teamPower: number, duration: ExpeditionDuration = 4, startedAt = 1_700_000_000_000): ActiveExpedition {
+  return {
+    id: 'exp_test',
+    teamCharacterIds: ['char_001'],
+    duration,
+    startedAt,
+    completesAt: startedAt + duration * 3600 * 1000,
+    teamPower,
+  };
+}
+
+describe('resolveExpedition', () => {
+  it('is deterministic for the same start time', () => {
+    const exp = makeExpedition(600);
+    assert.deepEqual(resolveExpedition(exp, config), resolveExpedition({ ...exp }, config));
+  });
+
+  it('varies with the start time', () => {
+    const outcomes = new Set<string>();
+    for (let i = 0; i < 20; i++) {
+      outcomes.add(JSON.stringify(resolveExpedition(makeExpedition(500, 8, 1_700_000_000_000 + i), config)));
+    }
+    assert.ok(outcomes.size > 1);
+  });
+
+  it('clears no waves with zero power', () => {
+    const result = resolveExpedition(makeExpedition(0), config);
+    assert.equal(result.wavesCleared, 0);
+    assert.equal(result.fullClear, false);
+    assert.equal(result.xpEarned, 0);
+    assert.equal(result.goldEarned, 0);
+  });
+
+  it('scales XP and gold with waves cleared and the tier multiplier', () => {
+    for (const duration of [4, 8, 12, 24] as ExpeditionDuration[]) {
+      for (let i = 0; i < 5; i++) {
+        const result = resolveExpedition(makeExpedition(3000, duration, 1_700_000_000_000 + i), config);
+        const tier = config.durationTiers[duration];
+        assert.equal(result.totalWaves, tier.totalWaves);
+        assert.equal(result.fullClear, result.wavesCleared === tier.totalWaves);
+        assert.equal(result.xpEarned, Math.floor(config.baseXpPerWave * tier.xpMultiplier * result.wavesCleared));
+        assert.equal(result.goldEarned, Math.floor(config.baseGoldPerWave * tier.xpMultiplier * result.wavesCleared));
+      }
+    }
+  });
+
+  it('caps the gacha chance', () => {
+    const result = resolveExpedition(makeExpedition(1_000_000, 24), { ...config, maxGachaChance: 0.2 });
+    assert.equal(result.fullClear, true);
+    assert.equal(result.gachaChance, 0.2);
+  });
+});
+
+describe('previewExpedition', () => {
+  it('never improves with less power', () => {
+    let previous = previewExpedition(0, 8, config);
+    for (const power of [250, 500, 1000, 2000, 4000]) {
+      const preview = previewExpedition(power, 8, config);
+      assert.ok(preview.estimatedWaves >= previous.estimatedWaves);
+      assert.ok(preview.clearChance >= previous.clearChance);
+      assert.ok(preview.estimatedXp >= previous.estimatedXp);
+      previous = preview;
+    }
+  });
+
+  it('predicts nothing for zero power', () => {
+    const preview = previewExpedition(0, 4, config);
+    assert.equal(preview.clearChance, 0);
+    assert.equal(preview.estimatedWaves, 0);
+    assert.equal(preview.estimatedXp, 0);
+  });
+
+  it('keeps the gacha chance within [0, max]', () => {
+    for (const duration of [4, 8, 12, 24] as ExpeditionDuration[]) {
+      const { gachaChance, totalWaves } = previewExpedition(10_000, duration, config);
+      assert.equal(totalWaves, config.durationTiers[duration].totalWaves);
+      assert.ok(gachaChance >= 0 && gachaChance <= config.maxGachaChance);
+    }
+  });
+});
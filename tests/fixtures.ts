@@ -0,0 +1,49 @@
+/**
+ * Shared test fixtures: small hand-built characters and battle helpers
+ */
+
+import { Character } from '../src/lib/game/Character';
+import { AutoBattleSimulation, type BattleOptions } from '../src/lib/game/AutoBattleSimulation';
+import type { BattleResult, CharacterDefinition, CombatAction, Rarity, Role } from '../src/lib/game/types';
+
+export function makeDef(id: string, role: Role, rarity: Rarity = 'common'): CharacterDefinition {
+  return {
+    id,
+    name: id.charAt(0).toUpperCase() + id.slice(1),
+    role,
+    rarity,
+    abilityName: '',
+    abilityDescription: '',
+  };
+}
+
+export function makeUnit(id: string, role: Role, level = 10): Character {
+  return new Character(makeDef(id, role), level);
+}
+
+export function runBattle(
+  playerTeam: Character[],
+  enemyTeam: Character[],
+  seed: number,
+  options?: BattleOptions
+): BattleResult {
+  return new AutoBattleSimulation(playerTeam, enemyTeam, seed, options).simulate();
+}
+
+/** Run the same matchup over a range of seeds (teams are rebuilt for each battle) */
+export function runSeeds(
+  build: () => { playerTeam: Character[]; enemyTeam: Character[]; options?: BattleOptions },
+  seeds = 30
+): BattleResult[] {
+  const results: BattleResult[] = [];
+  for (let seed = 1; seed <= seeds; seed++) {
+    const { playerTeam, enemyTeam, options } = build();
+    results.push(runBattle(playerTeam, enemyTeam, seed, options));
+  }
+  return results;
+}
+
+/** Every action of the given results that used an ability by name */
+export function abilityActions(results: BattleResult[], abilityName: string): CombatAction[] {
+  return results.flatMap((r) => r.actionLog.filter((a) => a.abilityUsed === abilityName));
+}
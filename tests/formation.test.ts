@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  assignFormation,
+  formationToMap,
+  isValidGridPosition,
+  validateFormation,
+  type FormationUnit,
+} from '../src/lib/game/formation';
+import type { Position } from '../src/lib/game/types';
+import { makeUnit, runBattle } from './fixtures';
+
+const team: FormationUnit[] = [
+  { id: 'bruno', name: 'Bruno', role: 'tank' },
+  { id: 'zed', name: 'Zed', role: 'assassin' },
+  { id: 'flynn', name: 'Flynn', role: 'archer' },
+];
+
+describe('formations', () => {
+  it('keeps pinned positions and auto-places the rest on free cells', () => {
+    const placement = assignFormation(team, new Map([['zed', { row: 0, col: 1 }]]));
+    assert.notEqual(typeof placement, 'string');
+    const positions = placement as Map<string, Position>;
+    assert.deepEqual(positions.get('zed'), { row: 0, col: 1 });
+    assert.equal(positions.size, 3);
+    const keys = [...positions.values()].map((p) => `${p.row},${p.col}`);
+    assert.equal(new Set(keys).size, keys.length);
+  });
+
+  it('rejects colliding positions', () => {
+    const error = validateFormation(team, new Map([
+      ['bruno', { row: 1, col: 1 }],
+      ['zed', { row: 1, col: 1 }],
+    ]));
+    assert.match(error!, /collision/);
+  });
+
+  it('rejects positions outside the 3x3 grid', () => {
+    assert.notEqual(validateFormation(team, new Map([['bruno', { row: 3 as 0, col: 0 }]])), null);
+    assert.equal(isValidGridPosition({ row: 2, col: 2 }), true);
+    assert.equal(isValidGridPosition({ row: 1.5, col: 0 }), false);
+    assert.equal(isValidGridPosition(null), false);
+  });
+
+  it('ignores positions for units not in the team', () => {
+    assert.equal(validateFormation(team, new Map([['ghost', { row: 1, col: 1 }]])), null);
+  });
+
+  it('places a boss at (0,0) and its minions on row 3', () => {
+    const placement = assignFormation(team, undefined, new Set(['bruno'])) as Map<string, Position>;
+    assert.deepEqual(placement.get('bruno'), { row: 0, col: 0 });
+    assert.equal(placement.get('zed')!.row, 3);
+    assert.equal(placement.get('flynn')!.row, 3);
+  });
+
+  it('places bosses side by side and caps them at three', () => {
+    const placement = assignFormation(team, undefined, new Set(['bruno', 'zed'])) as Map<string, Position>;
+    assert.deepEqual(placement.get('bruno'), { row: 0, col: 0 });
+    assert.deepEqual(placement.get('zed'), { row: 0, col: 1 });
+    assert.equal(placement.get('flynn')!.row, 3);
+
+    const crowd = [...team, { id: 'rex', name: 'Rex', role: 'warrior' as const }];
+    assert.match(assignFormation(crowd, undefined, new Set(crowd.map((u) => u.id))) as string, /Too many bosses/);
+  });
+
+  it('refuses explicit positions in boss fights', () => {
+    const error = validateFormation(team, new Map([['zed', { row: 0, col: 1 }]]), new Set(['bruno']));
+    assert.match(error!, /boss/);
+  });
+
+  it('makes the simulation throw on invalid positions', () => {
+    const playerTeam = [makeUnit('bruno', 'tank'), makeUnit('zed', 'assassin')];
+    const enemyTeam = [makeUnit('rex', 'warrior')];
+    const positions = formationToMap({ bruno: { row: 0, col: 1 }, zed: { row: 0, col: 1 } });
+    assert.throws(() => runBattle(playerTeam, enemyTeam, 7, { playerPositions: positions }), /Invalid player formation/);
+    assert.ok(runBattle(playerTeam, enemyTeam, 7, { playerPositions: formationToMap({ zed: { row: 0, col: 1 } }) }).actionLog.length > 0);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatCountdown,
+  getPityCount,
+  getPityRarity,
+  getVisibleBanners,
+  isBannerOpen,
+  pull,
+  rollPull,
+  updatePityCounters,
+  type GachaPullResult,
+} from '../src/lib/game/gacha';
+import type { GachaBanner, GachaConfig } from '../src/lib/admin/adminTypes';
+import type { PlayerSave } from '../src/lib/player/playerStore';
+import { makeDef } from './fixtures';
+
+const characters = [
+  makeDef('cora', 'warrior'),
+  makeDef('cid', 'archer'),
+  makeDef('rhea', 'mage', 'rare'),
+  makeDef('eris', 'healer', 'epic'),
+  makeDef('leon', 'tank', 'legendary'),
+  makeDef('vega', 'assassin', 'legendary'),
+];
+
+const config: GachaConfig = {
+  characterPool: characters.map((c) => c.id),
+  rates: { common: 0.6, rare: 0.25, epic: 0.1, legendary: 0.05 },
+  ascensionCosts: [1, 2, 3],
+  pityRules: [{ rarity: 'legendary', pullsRequired: 10 }],
+};
+
+function makeSave(pulls: number, gachaSeed = 42): PlayerSave {
+  return {
+    version: 3,
+    collection: [],
+    daily: { date: '2026-01-01', gachaPullsRemaining: pulls, dungeonAttemptsLeft: 3, dungeonCleared: false },
+    gachaSeed,
+    gachaPullCount: 0,
+    gold: 0,
+  };
+}
+
+/** Pull until the save runs out of pulls */
+function pullAll(save: PlayerSave, banner?: GachaBanner): GachaPullResult[] {
+  const results: GachaPullResult[] = [];
+  while (save.daily.gachaPullsRemaining > 0) {
+    const result = pull(save, config, characters, { banner }) as GachaPullResult;
+    results.push(result);
+    save = result.newSave;
+  }
+  return results;
+}
+
+describe('pull', () => {
+  it('gives the same pulls for the same seed and different ones for another seed', () => {
+    const ids = (results: GachaPullResult[]) => results.map((r) => r.character.id).join();
+    assert.equal(ids(pullAll(makeSave(30))), ids(pullAll(makeSave(30))));
+    assert.notEqual(ids(pullAll(makeSave(30))), ids(pullAll(makeSave(30, 7))));
+  });
+
+  it('consumes a pull and advances the pull counter and pity counters', () => {
+    const save = makeSave(2);
+    const result = pull(save, config, characters) as GachaPullResult;
+    assert.equal(result.pullIndex, 0);
+    assert.equal(result.newSave.gachaPullCount, 1);
+    assert.equal(result.newSave.daily.gachaPullsRemaining, 1);
+    assert.equal(result.newSave.pityCounters?.[result.rarity], 0);
+    assert.equal(result.character.rarity, result.rarity);
+    assert.equal(save.gachaPullCount, 0, 'the input save is not modified');
+  });
+
+  it('re-derives any past pull from the seed, index and pity counters', () => {
+    let save = makeSave(20);
+    for (const result of pullAll(save)) {
+      const audited = rollPull(save.gachaSeed, result.pullIndex, save.pityCounters, config, characters);
+      assert.deepEqual(audited, { character: result.character, rarity: result.rarity, pityTriggered: result.pityTriggered });
+      save = result.newSave;
+    }
+  });
+
+  it('guarantees a legendary when the pity rule is reached', () => {
+    const save = { ...makeSave(1), pityCounters: { legendary: 9 } };
+    const result = pull(save, config, characters) as GachaPullResult;
+    assert.equal(result.pityTriggered, true);
+    assert.equal(result.rarity, 'legendary');
+    assert.equal(result.newSave.pityCounters?.legendary, 0);
+    for (const r of pullAll(makeSave(60))) {
+      if (r.pityTriggered) assert.equal(r.rarity, 'legendary');
+    }
+  });
+
+  it('skips pity rules for rarities missing from the pool', () => {
+    const pool = characters.filter((c) => c.rarity !== 'legendary');
+    assert.equal(getPityRarity({ legendary: 50 }, config, pool), null);
+    assert.equal(getPityRarity({ legendary: 8 }, config, characters), null);
+  });
+
+  it('reports the rarity of the character obtained when the rolled rarity is missing from the pool', () => {
+    const noLegendary = { ...config, characterPool: ['cora', 'rhea'], rates: { common: 0, rare: 0, epic: 0, legendary: 1 } };
+    const save = { ...makeSave(1), pityCounters: { epic: 2, legendary: 3 } };
+    const result = pull(save, noLegendary, characters) as GachaPullResult;
+    assert.equal(result.rarity, result.character.rarity);
+    assert.notEqual(result.rarity, 'legendary');
+    assert.equal(result.newSave.pityCounters?.legendary, 4, 'legendary pity keeps counting');
+  });
+
+  it('reports an empty pool or no pulls left', () => {
+    assert.equal(pull(makeSave(0), config, characters), 'No gacha pulls remaining');
+    assert.equal(pull(makeSave(1), { ...config, characterPool: ['ghost'] }, characters), 'The gacha pool is empty');
+  });
+});
+
+describe('updatePityCounters', () => {
+  it('increments the epic and legendary counters', () => {
+    const save = updatePityCounters(updatePityCounters(makeSave(1), 'common'), 'rare');
+    assert.equal(getPityCount(save, 'epic'), 2);
+    assert.equal(getPityCount(save, 'legendary'), 2);
+  });
+
+  it('resets the counter of the obtained rarity', () => {
+    let save = makeSave(1);
+    for (let i = 0; i < 5; i++) save = updatePityCounters(save, 'common');
+    save = updatePityCounters(save, 'epic');
+    assert.equal(getPityCount(save, 'epic'), 0);
+    assert.equal(getPityCount(save, 'legendary'), 6);
+  });
+});
+
+const banner: GachaBanner = {
+  id: 'leon_fest',
+  name: 'Leon Fest',
+  characterPool: characters.map((c) => c.id),
+  rates: { common: 0, rare: 0, epic: 0, legendary: 1 },
+  featuredIds: ['leon'],
+  featuredRate: 0.5,
+  startsAt: 1000,
+  endsAt: 5000,
+};
+
+describe('banners', () => {
+  it('gives featured characters their share of the rarity', () => {
+    const results = pullAll(makeSave(400), banner);
+    const share = results.filter((r) => r.character.id === 'leon').length / results.length;
+    assert.ok(share > 0.4 && share < 0.6, `featured share ${share}`);
+    const always = pullAll(makeSave(50), { ...banner, featuredRate: 1 });
+    assert.ok(always.every((r) => r.character.id === 'leon'));
+  });
+
+  it('counts pity separately from the standard pool', () => {
+    const save = { ...makeSave(1), pityCounters: { legendary: 4 } };
+    const result = pull(save, config, characters, { banner }) as GachaPullResult;
+    assert.deepEqual(result.newSave.pityCounters, { legendary: 4 });
+    assert.deepEqual(result.newSave.bannerPityCounters, { leon_fest: { epic: 1, legendary: 0 } });
+    assert.equal(result.newSave.gachaPullCount, 1, 'banners share the pull counter');
+  });
+
+  it('only pulls on open banners', () => {
+    assert.equal(isBannerOpen(banner, 999), false);
+    assert.equal(isBannerOpen(banner, 1000), true);
+    assert.equal(isBannerOpen(banner, 5000), false);
+    assert.equal(pull(makeSave(1), config, characters, { banner, now: 6000 }), 'Banner "Leon Fest" is not open');
+    assert.equal(typeof pull(makeSave(1), config, characters, { banner, now: 2000 }), 'object');
+  });
+
+  it('lists open and upcoming banners in start order', () => {
+    const later = { ...banner, id: 'later', startsAt: 3000, endsAt: undefined };
+    const ended = { ...banner, id: 'ended', endsAt: 1500 };
+    assert.deepEqual(getVisibleBanners([later, ended, banner], 2000).map((b) => b.id), ['leon_fest', 'later']);
+  });
+
+  it('formats countdowns', () => {
+    assert.equal(formatCountdown((2 * 24 + 5) * 3600_000 + 59_000), '2d 5h');
+    assert.equal(formatCountdown(3 * 3600_000 + 12 * 60_000), '3h 12m');
+    assert.equal(formatCountdown(4 * 60_000 + 30_000), '4m 30s');
+    assert.equal(formatCountdown(-5), '0m 0s');
+  });
+});
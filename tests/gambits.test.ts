@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character } from '../src/lib/game/Character';
+import { DEFAULT_ABILITIES, type AbilityDefinition } from '../src/lib/game/abilities';
+import {
+  checkGambitConditions,
+  createDefaultGambit,
+  describeGambitCondition,
+  type AbilityGambit,
+  type GambitContext,
+} from '../src/lib/game/gambits';
+import { COMBAT_CONSTANTS, type Role } from '../src/lib/game/types';
+import { makeDef, makeUnit, runBattle, runSeeds } from './fixtures';
+
+const context = (overrides: Partial<GambitContext> = {}): GambitContext => ({
+  selfHpRatio: 1,
+  lowestAllyHpRatio: 1,
+  enemiesAlive: 1,
+  roll: () => 0.5,
+  ...overrides,
+});
+
+/** A unit whose definition carries an ability list */
+function gambitUnit(id: string, role: Role, abilities: AbilityGambit[], level = 10): Character {
+  return new Character({ ...makeDef(id, role), abilities }, level);
+}
+
+const always = (abilityId: string): AbilityGambit => ({ abilityId, conditions: [] });
+
+describe('checkGambitConditions', () => {
+  it('requires every condition', () => {
+    const gambit: AbilityGambit = {
+      abilityId: 'a',
+      conditions: [{ type: 'self_hp_below', value: 0.3 }, { type: 'enemies_alive_at_least', value: 3 }],
+    };
+    assert.equal(checkGambitConditions(gambit, context({ selfHpRatio: 0.2, enemiesAlive: 3 })), true);
+    assert.equal(checkGambitConditions(gambit, context({ selfHpRatio: 0.2, enemiesAlive: 2 })), false);
+    assert.equal(checkGambitConditions(gambit, context({ selfHpRatio: 0.3, enemiesAlive: 3 })), false);
+  });
+
+  it('rolls only when a chance condition is reached', () => {
+    let rolls = 0;
+    const roll = () => { rolls++; return 0.1; };
+    const gambit: AbilityGambit = {
+      abilityId: 'a',
+      conditions: [{ type: 'ally_hp_below', value: 0.5 }, { type: 'chance', value: 0.2 }],
+    };
+    assert.equal(checkGambitConditions(gambit, context({ roll })), false);
+    assert.equal(rolls, 0);
+    assert.equal(checkGambitConditions(gambit, context({ roll, lowestAllyHpRatio: 0.4 })), true);
+    assert.equal(rolls, 1);
+    assert.equal(checkGambitConditions({ abilityId: 'a', conditions: [{ type: 'chance', value: 0 }] }, context({ ignoreChance: true })), true);
+  });
+
+  it('defaults to the legacy trigger chance', () => {
+    assert.deepEqual(createDefaultGambit('x').conditions, [{ type: 'chance', value: COMBAT_CONSTANTS.ABILITY_TRIGGER_CHANCE }]);
+    assert.equal(describeGambitCondition({ type: 'self_hp_below', value: 0.3 }), 'Self HP below 30%');
+  });
+});
+
+describe('gambits in battle', () => {
+  const abilityActions = (actions: { actorId: string; abilityUsed?: string }[], actorId: string) =>
+    actions.filter((a) => a.actorId === actorId && a.abilityUsed).map((a) => a.abilityUsed);
+
+  it('casts an unconditional ability on every action', () => {
+    const r = runBattle([gambitUnit('mira', 'mage', [always('ability_fireball')])], [makeUnit('bruno', 'tank', 20)], 1, { abilityTrigger: 'random' });
+    const own = r.actionLog.filter((a) => a.actorId === 'mira' && a.actionType === 'ability');
+    assert.equal(own.length, r.turnOrder.filter((t) => t.unitId === 'mira').length);
+  });
+
+  it('falls back to the basic attack when no condition holds', () => {
+    const r = runBattle(
+      [gambitUnit('mira', 'mage', [{ abilityId: 'ability_fireball', conditions: [{ type: 'enemies_alive_at_least', value: 2 }] }])],
+      [makeUnit('bruno', 'tank', 20)],
+      1
+    );
+    assert.deepEqual(abilityActions(r.actionLog, 'mira'), []);
+    assert.ok(r.actionLog.some((a) => a.actorId === 'mira' && a.actionType === 'attack'));
+  });
+
+  it('tries abilities in order, skipping those on cooldown', () => {
+    const withCooldown = (id: string): AbilityDefinition => ({ ...DEFAULT_ABILITIES.find((a) => a.id === id)!, cooldown: 2 });
+    const r = runBattle(
+      [gambitUnit('mira', 'mage', [always('ability_fireball'), always('ability_multishot')])],
+      [makeUnit('bruno', 'tank', 30)],
+      1,
+      {
+        abilityDefs: [...DEFAULT_ABILITIES.filter((a) => a.id !== 'ability_fireball' && a.id !== 'ability_multishot'), withCooldown('ability_fireball'), withCooldown('ability_multishot')],
+        abilityTrigger: 'random',
+      }
+    );
+    const used = abilityActions(r.actionLog, 'mira');
+    assert.ok(used.length >= 4);
+    used.forEach((name, i) => assert.equal(name, i % 2 === 0 ? 'Fireball' : 'Multi-shot'));
+  });
+
+  it('only fires boss-only gambits at bosses', () => {
+    const hero = () => gambitUnit('mira', 'mage', [{ abilityId: 'ability_fireball', conditions: [{ type: 'target_is_boss', value: 0 }] }]);
+    const vsGrunt = runBattle([hero()], [makeUnit('bruno', 'tank', 20)], 1);
+    assert.deepEqual(abilityActions(vsGrunt.actionLog, 'mira'), []);
+    const vsBoss = runBattle([hero()], [makeUnit('bruno', 'tank', 20)], 1, { bossIds: new Set(['bruno']) });
+    assert.ok(abilityActions(vsBoss.actionLog, 'mira').length > 0);
+  });
+
+  it('checks enemy counts when the ability fires', () => {
+    const results = runSeeds(() => ({
+      playerTeam: [gambitUnit('rex', 'warrior', [{ abilityId: 'ability_cleave', conditions: [{ type: 'enemies_alive_at_least', value: 3 }] }], 20)],
+      enemyTeam: [makeUnit('t1', 'archer', 5), makeUnit('t2', 'archer', 5), makeUnit('t3', 'archer', 5)],
+    }), 5);
+    for (const r of results) {
+      const firstDeath = r.actionLog.findIndex((a) => a.actionType === 'death');
+      r.actionLog.forEach((a, i) => {
+        if (a.abilityUsed === 'Cleave') assert.ok(firstDeath === -1 || i < firstDeath);
+      });
+    }
+  });
+
+  it('lets characterAbilityIds override the definition list', () => {
+    const r = runBattle(
+      [gambitUnit('mira', 'mage', [always('ability_fireball')])],
+      [makeUnit('bruno', 'tank', 20)],
+      1,
+      { characterAbilityIds: new Map([['mira', ['ability_multishot']]]) }
+    );
+    assert.ok(abilityActions(r.actionLog, 'mira').every((name) => name === 'Multi-shot'));
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character } from '../src/lib/game/Character';
+import { CHARACTER_DEFINITIONS } from '../src/lib/game/characters';
+import { DEFAULT_ABILITIES } from '../src/lib/game/abilities';
+import { DungeonRun } from '../src/lib/game/dungeonRun';
+import { resolveExpedition } from '../src/lib/game/expeditionSimulation';
+import { replayBattle } from '../src/lib/game/replay';
+import { SeededRNG } from '../src/lib/game/rng';
+import {
+  GEAR_RARITY_RULES,
+  applyGearStats,
+  createDefaultGearConfig,
+  formatGearStat,
+  rollGearDrop,
+  rollGearItem,
+  sumGearStats,
+  type GearConfig,
+  type GearItem,
+} from '../src/lib/game/gear';
+import { createDefaultExpeditionConfig } from '../src/lib/admin/adminTypes';
+import { makeDef } from './fixtures';
+
+const config = createDefaultGearConfig();
+
+function item(overrides: Partial<GearItem> = {}): GearItem {
+  return {
+    id: 'g1', baseId: 'b', name: 'Blade', slot: 'weapon', rarity: 'common',
+    mainStat: 'atk', mainValue: 10, affixes: [], ...overrides,
+  };
+}
+
+describe('rollGearItem', () => {
+  it('is deterministic for the same seed', () => {
+    assert.deepEqual(rollGearItem(config, new SeededRNG(7), 'x'), rollGearItem(config, new SeededRNG(7), 'x'));
+  });
+
+  it('follows the rarity rules for main stat and affix count', () => {
+    for (const rarity of ['common', 'rare', 'epic', 'legendary'] as const) {
+      const only: GearConfig = {
+        ...config,
+        itemBases: [{ id: 'b', name: 'Blade', slot: 'weapon', mainStat: 'atk', mainValue: 10 }],
+        rarityRates: { common: 0, rare: 0, epic: 0, legendary: 0, [rarity]: 1 },
+      };
+      const rolled = rollGearItem(only, new SeededRNG(3), 'x')!;
+      assert.equal(rolled.rarity, rarity);
+      assert.equal(rolled.mainValue, Math.round(10 * GEAR_RARITY_RULES[rarity].mainStatMult));
+      assert.equal(rolled.affixes.length, GEAR_RARITY_RULES[rarity].affixCount);
+    }
+  });
+
+  it('rolls distinct affixes allowed on the slot, within range', () => {
+    const legendaryOnly: GearConfig = { ...config, rarityRates: { common: 0, rare: 0, epic: 0, legendary: 1 } };
+    for (let seed = 1; seed <= 50; seed++) {
+      const rolled = rollGearItem(legendaryOnly, new SeededRNG(seed), 'x')!;
+      const stats = rolled.affixes.map((a) => a.stat);
+      assert.equal(new Set(stats).size, stats.length);
+      for (const affix of rolled.affixes) {
+        const def = config.affixes.find((a) => a.stat === affix.stat)!;
+        assert.ok(!def.slots || def.slots.includes(rolled.slot));
+        assert.ok(affix.value >= def.min && affix.value <= def.max);
+      }
+    }
+  });
+
+  it('returns null without item bases', () => {
+    assert.equal(rollGearItem({ ...config, itemBases: [] }, new SeededRNG(1), 'x'), null);
+  });
+
+  it('respects the drop chance', () => {
+    assert.equal(rollGearDrop(config, 1, 0), null);
+    assert.notEqual(rollGearDrop(config, 1, 1), null);
+  });
+});
+
+describe('gear stats', () => {
+  it('sums main stats and affixes', () => {
+    const total = sumGearStats([
+      item({ affixes: [{ stat: 'hpPct', value: 0.05 }] }),
+      item({ id: 'g2', slot: 'armor', mainStat: 'hpPct', mainValue: 0.1, affixes: [{ stat: 'atk', value: 3 }] }),
+    ]);
+    assert.equal(total.atk, 13);
+    assert.equal(total.hpPct, 0.15);
+    assert.equal(total.def, 0);
+  });
+
+  it('applies percentages before flat bonuses', () => {
+    const stats = applyGearStats({ hp: 1000, atk: 100, def: 50, spd: 10 }, { hpPct: 0.1, hp: 5, atk: 7, spd: 2 });
+    assert.deepEqual(stats, { hp: 1105, atk: 107, def: 50, spd: 12 });
+    assert.equal(formatGearStat('hpPct', 0.1), '+10% HP');
+    assert.equal(formatGearStat('atk', 7), '+7 ATK');
+  });
+
+  it('flows into the combat state', () => {
+    const def = makeDef('rex', 'warrior');
+    const bare = new Character(def, 10);
+    const geared = new Character(def, 10, 0, undefined, undefined, { atk: 20, defPct: 0.5, spd: 1 });
+    const state = geared.createCombatState('player', { row: 0, col: 0 });
+    assert.equal(state.atk, bare.atk + 20);
+    assert.equal(state.def, Math.floor(bare.def * 1.5));
+    assert.equal(state.spd, bare.spd + 1);
+    assert.equal(state.maxHp, bare.hp);
+  });
+});
+
+describe('gear drops', () => {
+  const dungeon = {
+    id: 'd', name: 'D', description: '',
+    rooms: [{
+      id: 'boss', name: 'Boss', roomNumber: 6, isBoss: true,
+      enemies: [{ enemyTemplateId: 'grunt' }], difficultyMult: 1, xpReward: 10, goldReward: 5,
+    }],
+  };
+  const content = {
+    characters: CHARACTER_DEFINITIONS,
+    enemies: [{ id: 'grunt', name: 'Grunt', role: 'warrior' as const, rarity: 'common' as const, level: 1, ascension: 0, abilities: [] }],
+    abilities: DEFAULT_ABILITIES,
+  };
+  const team = CHARACTER_DEFINITIONS.slice(0, 3).map((c) => ({ characterId: c.id, level: 20, ascension: 0, gear: { atk: 10 } }));
+
+  it('drops gear from cleared rooms when configured', () => {
+    const withGear = new DungeonRun({ content: { ...content, gearConfig: config }, dungeon, team, seed: 5 });
+    withGear.runToEnd();
+    const result = withGear.roomResults[0];
+    assert.equal(result.result.winner, 'player');
+    assert.ok(result.rewards.gear, 'boss rooms always drop with the default config');
+
+    const without = new DungeonRun({ content, dungeon, team, seed: 5 });
+    without.runToEnd();
+    assert.equal(without.roomResults[0].rewards.gear, undefined);
+  });
+
+  it('keeps member gear in room replays', () => {
+    const run = new DungeonRun({ content, dungeon, team, seed: 5 });
+    run.runToEnd();
+    const { replay } = run.roomResults[0];
+    assert.deepEqual(replay.playerTeam[0].gear, { atk: 10 });
+    const replayed = replayBattle(replay);
+    assert.notEqual(typeof replayed, 'string', replayed as string);
+  });
+
+  it('finds gear on expeditions without changing the other rewards', () => {
+    const expedition = {
+      id: 'exp_gear', teamCharacterIds: ['a'], duration: 24 as const,
+      startedAt: 1_700_000_000_000, completesAt: 0, teamPower: 100_000,
+    };
+    const expeditionConfig = createDefaultExpeditionConfig();
+    const always: GearConfig = { ...config, expeditionDropChancePerWave: 1 };
+    const plain = resolveExpedition(expedition, expeditionConfig);
+    const geared = resolveExpedition(expedition, expeditionConfig, always);
+    assert.deepEqual({ ...geared, gearFound: [] }, plain);
+    assert.equal(geared.gearFound!.length, geared.wavesCleared);
+    assert.equal(new Set(geared.gearFound!.map((g) => g.id)).size, geared.wavesCleared);
+  });
+});
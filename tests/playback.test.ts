@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  PLAYBACK_BASE_INTERVAL,
+  findNextDeath,
+  getPlaybackInterval,
+  getTimelineMarkers,
+  parsePlaybackSpeed,
+} from '../src/lib/game/playback';
+import type { CombatAction } from '../src/lib/game/types';
+import { makeUnit, runBattle } from './fixtures';
+
+const action = (turn: number, actionType: CombatAction['actionType'], isCritical?: boolean): CombatAction => ({
+  turn,
+  tick: 0,
+  actorId: 'a',
+  actorName: 'A',
+  actionType,
+  message: '',
+  ...(isCritical && { isCritical }),
+});
+
+const log = [
+  action(1, 'attack'),
+  action(1, 'attack', true),
+  action(2, 'attack'),
+  action(2, 'death'),
+  action(3, 'heal'),
+  action(3, 'death'),
+];
+
+describe('playback', () => {
+  it('maps speed presets to intervals and parses stored speeds', () => {
+    assert.equal(getPlaybackInterval(1), PLAYBACK_BASE_INTERVAL);
+    assert.equal(getPlaybackInterval(4), PLAYBACK_BASE_INTERVAL / 4);
+    assert.equal(parsePlaybackSpeed('2'), 2);
+    assert.equal(parsePlaybackSpeed('3'), 1);
+    assert.equal(parsePlaybackSpeed(null), 1);
+  });
+
+  it('marks turns, crits and deaths in log order', () => {
+    assert.deepEqual(getTimelineMarkers(log), [
+      { index: 0, kind: 'turn' },
+      { index: 1, kind: 'crit' },
+      { index: 2, kind: 'turn' },
+      { index: 3, kind: 'death' },
+      { index: 4, kind: 'turn' },
+      { index: 5, kind: 'death' },
+    ]);
+    assert.deepEqual(getTimelineMarkers([]), []);
+  });
+
+  it('finds the next death after a position', () => {
+    assert.equal(findNextDeath(log, -1), 3);
+    assert.equal(findNextDeath(log, 3), 5);
+    assert.equal(findNextDeath(log, 5), -1);
+  });
+
+  it('marks every death of a battle', () => {
+    const result = runBattle([makeUnit('rex', 'warrior'), makeUnit('lia', 'healer')], [makeUnit('zed', 'assassin')], 3);
+    const deaths = getTimelineMarkers(result.actionLog).filter((m) => m.kind === 'death');
+    assert.equal(deaths.length, result.actionLog.filter((a) => a.actionType === 'death').length);
+    assert.ok(deaths.length > 0);
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MAX_INVENTORY_SIZE,
+  addCharacterToCollection,
+  addGearToInventory,
+  ascendCharacter,
+  awardXp,
+  equipGear,
+  getEquippedGearStats,
+  getGearOwner,
+  getTeamPreset,
+  getTowerProgress,
+  getXpForLevel,
+  hasRoomAwardedXp,
+  markRoomXpAwarded,
+  markTowerStageCleared,
+  salvageGear,
+  saveTeamPreset,
+  unequipGear,
+  type OwnedCharacter,
+  type PlayerSave,
+} from '../src/lib/player/playerStore';
+import { MAX_TEAM_PRESETS, MAX_TEAM_SIZE } from '../src/lib/player/saveSchema';
+import { GEAR_SALVAGE_GOLD, type GearItem } from '../src/lib/game/gear';
+
+function makeSave(collection: Partial<OwnedCharacter>[] = []): PlayerSave {
+  return {
+    version: 1,
+    collection: collection.map((c) => ({
+      characterId: 'char_001',
+      level: 1,
+      ascension: 0,
+      duplicates: 0,
+      xp: 0,
+      ...c,
+    })),
+    daily: { date: '2026-01-01', gachaPullsRemaining: 1, dungeonAttemptsLeft: 3, dungeonCleared: false },
+    gachaSeed: 1,
+    gachaPullCount: 0,
+    gold: 0,
+  };
+}
+
+const owned = (save: PlayerSave, id: string) => save.collection.find((c) => c.characterId === id)!;
+
+describe('awardXp', () => {
+  it('splits XP evenly between the given characters', () => {
+    const save = makeSave([{ characterId: 'a' }, { characterId: 'b' }, { characterId: 'c' }]);
+    const next = awardXp(save, ['a', 'b'], 9, [100]);
+    assert.equal(owned(next, 'a').xp, 4);
+    assert.equal(owned(next, 'b').xp, 4);
+    assert.equal(owned(next, 'c').xp, 0);
+  });
+
+  it('levels up through several thresholds, keeping the remainder', () => {
+    const next = awardXp(makeSave([{ characterId: 'a' }]), ['a'], 40, [10, 25, 50]);
+    assert.equal(owned(next, 'a').level, 3);
+    assert.equal(owned(next, 'a').xp, 5);
+  });
+
+  it('uses the default thresholds when none are configured', () => {
+    const next = awardXp(makeSave([{ characterId: 'a' }]), ['a'], 10);
+    assert.equal(owned(next, 'a').level, 2);
+    assert.equal(getXpForLevel(1), 10);
+  });
+
+  it('stops levelling at max level and keeps accumulating XP', () => {
+    const next = awardXp(makeSave([{ characterId: 'a', level: 3, xp: 0 }]), ['a'], 500, [10, 20]);
+    assert.equal(owned(next, 'a').level, 3);
+    assert.equal(owned(next, 'a').xp, 500);
+    assert.equal(getXpForLevel(3, [10, 20]), null);
+  });
+
+  it('ignores empty awards and does not mutate the input', () => {
+    const save = makeSave([{ characterId: 'a' }, { characterId: 'b' }]);
+    const snapshot = structuredClone(save);
+    assert.equal(awardXp(save, [], 100), save);
+    assert.equal(awardXp(save, ['a'], 0), save);
+    assert.equal(awardXp(save, ['a', 'b'], 1), save);
+    awardXp(save, ['a'], 1000);
+    assert.deepEqual(save, snapshot);
+  });
+});
+
+describe('ascendCharacter', () => {
+  const costs = [1, 2, 3];
+
+  it('spends duplicates to raise the ascension tier', () => {
+    const next = ascendCharacter(makeSave([{ characterId: 'a', duplicates: 3 }]), 'a', costs)!;
+    assert.equal(owned(next, 'a').ascension, 1);
+    assert.equal(owned(next, 'a').duplicates, 2);
+    const again = ascendCharacter(next, 'a', costs)!;
+    assert.equal(owned(again, 'a').ascension, 2);
+    assert.equal(owned(again, 'a').duplicates, 0);
+  });
+
+  it('returns null without enough duplicates, at max tier, or for unowned characters', () => {
+    assert.equal(ascendCharacter(makeSave([{ characterId: 'a', ascension: 1, duplicates: 1 }]), 'a', costs), null);
+    assert.equal(ascendCharacter(makeSave([{ characterId: 'a', ascension: 3, duplicates: 99 }]), 'a', costs), null);
+    assert.equal(ascendCharacter(makeSave(), 'a', costs), null);
+  });
+});
+
+describe('addCharacterToCollection', () => {
+  it('adds new characters at level 1 and counts duplicates afterwards', () => {
+    let save = addCharacterToCollection(makeSave(), 'a');
+    assert.deepEqual(owned(save, 'a'), { characterId: 'a', level: 1, ascension: 0, duplicates: 0, xp: 0 });
+    save = addCharacterToCollection(save, 'a');
+    assert.equal(save.collection.length, 1);
+    assert.equal(owned(save, 'a').duplicates, 1);
+  });
+});
+
+describe('tower progress', () => {
+  it('tracks the highest cleared stage per tower and never goes backwards', () => {
+    let save = makeSave();
+    assert.equal(getTowerProgress(save, 't1'), undefined);
+    save = markTowerStageCleared(save, 't1', 2);
+    save = markTowerStageCleared(save, 't2', 1);
+    assert.equal(markTowerStageCleared(save, 't1', 1), save);
+    save = markTowerStageCleared(save, 't1', 3);
+    assert.equal(getTowerProgress(save, 't1')!.highestStageCleared, 3);
+    assert.equal(getTowerProgress(save, 't2')!.highestStageCleared, 1);
+  });
+});
+
+describe('team presets', () => {
+  it('saves a preset, trimming the team and dropping positions of removed characters', () => {
+    const ids = Array.from({ length: MAX_TEAM_SIZE + 2 }, (_, i) => `c${i}`);
+    const save = saveTeamPreset(makeSave(), 1, 'Main', ids, {
+      c0: { row: 0, col: 0 },
+      [`c${MAX_TEAM_SIZE + 1}`]: { row: 1, col: 1 },
+    });
+    assert.equal(save.teams!.length, 2);
+    assert.equal(getTeamPreset(save, 0), undefined);
+    const preset = getTeamPreset(save, 1)!;
+    assert.equal(preset.characterIds.length, MAX_TEAM_SIZE);
+    assert.deepEqual(preset.formation, { c0: { row: 0, col: 0 } });
+  });
+
+  it('ignores out-of-range slots', () => {
+    const save = makeSave();
+    assert.equal(saveTeamPreset(save, MAX_TEAM_PRESETS, 'X', ['a']), save);
+    assert.equal(saveTeamPreset(save, -1, 'X', ['a']), save);
+  });
+});
+
+describe('dungeon room XP tracking', () => {
+  it('records each room once', () => {
+    let save = markRoomXpAwarded(makeSave(), 2);
+    assert.equal(hasRoomAwardedXp(save, 2), true);
+    assert.equal(hasRoomAwardedXp(save, 1), false);
+    assert.equal(markRoomXpAwarded(save, 2), save);
+    save = markRoomXpAwarded(save, 0);
+    assert.deepEqual(save.daily.xpAwardedRoomIndices, [2, 0]);
+  });
+});
+
+describe('gear', () => {
+  const sword: GearItem = { id: 'sword', baseId: 'b', name: 'Sword', slot: 'weapon', rarity: 'rare', mainStat: 'atk', mainValue: 10, affixes: [] };
+  const ring: GearItem = { ...sword, id: 'ring', slot: 'accessory', mainStat: 'hpPct', mainValue: 0.05 };
+  const geared = () => addGearToInventory(
+    makeSave([{ characterId: 'a' }, { characterId: 'b' }]),
+    [sword, ring]
+  );
+
+  it('renames duplicate IDs and respects the inventory cap', () => {
+    const save = addGearToInventory(geared(), [sword]);
+    assert.deepEqual(save.inventory!.map((i) => i.id), ['sword', 'ring', 'sword_2']);
+    const full = addGearToInventory(makeSave(), Array.from({ length: MAX_INVENTORY_SIZE + 5 }, (_, i) => ({ ...sword, id: `g${i}` })));
+    assert.equal(full.inventory!.length, MAX_INVENTORY_SIZE);
+  });
+
+  it('equips into the item slot and moves items between characters', () => {
+    let save = equipGear(geared(), 'a', 'sword')!;
+    save = equipGear(save, 'a', 'ring')!;
+    assert.deepEqual(owned(save, 'a').equipment, { weapon: 'sword', accessory: 'ring' });
+    assert.deepEqual(getEquippedGearStats(save, 'a'), { hp: 0, atk: 10, def: 0, spd: 0, hpPct: 0.05, atkPct: 0, defPct: 0 });
+
+    save = equipGear(save, 'b', 'sword')!;
+    assert.equal(getGearOwner(save, 'sword'), 'b');
+    assert.deepEqual(owned(save, 'a').equipment, { accessory: 'ring' });
+    assert.equal(equipGear(save, 'a', 'missing'), null);
+    assert.equal(equipGear(save, 'nobody', 'sword'), null);
+  });
+
+  it('unequips and salvages items for gold', () => {
+    let save = equipGear(geared(), 'a', 'sword')!;
+    save = unequipGear(save, 'a', 'weapon');
+    assert.equal(getEquippedGearStats(save, 'a'), undefined);
+
+    save = equipGear(save, 'a', 'sword')!;
+    save = salvageGear(save, 'sword');
+    assert.deepEqual(save.inventory!.map((i) => i.id), ['ring']);
+    assert.deepEqual(owned(save, 'a').equipment, {});
+    assert.equal(save.gold, GEAR_SALVAGE_GOLD.rare);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AutoBattleSimulation } from '../src/lib/game/AutoBattleSimulation';
+import { DEFAULT_ABILITIES, type AbilityDefinition, type AbilityTargeting } from '../src/lib/game/abilities';
+import {
+  frontDepth,
+  getColumnUnits,
+  getFrontRowUnits,
+  getReachableUnits,
+  type PositionedUnit,
+} from '../src/lib/game/positioning';
+import type { BattleResult, Position } from '../src/lib/game/types';
+import { makeUnit, runSeeds } from './fixtures';
+
+const at = (id: string, row: Position['row'], col: Position['col'], isBoss?: boolean) =>
+  ({ id, position: { row, col }, isBoss });
+const ids = (units: { id: string }[]) => units.map((u) => u.id);
+
+/** Index of a unit's death in the log (log length if it survived) */
+function deathIndex(result: BattleResult, id: string): number {
+  const i = result.actionLog.findIndex((a) => a.actionType === 'death' && a.actorId === id);
+  return i === -1 ? result.actionLog.length : i;
+}
+
+describe('positional rules', () => {
+  const line = [at('front', 0, 0), at('mid', 1, 1), at('back', 2, 2)];
+
+  it('shields back rows from short reach while the front line lives', () => {
+    assert.deepEqual(ids(getReachableUnits(line, 0)), ['front']);
+    assert.deepEqual(ids(getReachableUnits(line, 1)), ['front', 'mid']);
+    assert.deepEqual(ids(getReachableUnits(line, 2)), ['front', 'mid', 'back']);
+  });
+
+  it('moves the front line back when the front row falls', () => {
+    const rest = line.slice(1);
+    assert.equal(frontDepth(rest), 1);
+    assert.deepEqual(ids(getReachableUnits(rest, 0)), ['mid']);
+    assert.equal(frontDepth([] as PositionedUnit[]), null);
+  });
+
+  it('puts boss-fight minions in front of the boss', () => {
+    const bossFight = [at('boss', 0, 0, true), at('minion', 3, 1)];
+    assert.deepEqual(ids(getReachableUnits(bossFight, 0)), ['minion']);
+    assert.deepEqual(ids(getReachableUnits(bossFight, 1)), ['boss', 'minion']);
+    assert.deepEqual(ids(getFrontRowUnits([at('boss', 0, 0, true)])), ['boss']);
+  });
+
+  it('selects columns front to back, with bosses in every column', () => {
+    const units = [at('back', 2, 1), at('boss', 0, 0, true), at('minion', 3, 1), at('other', 3, 2)];
+    assert.deepEqual(ids(getColumnUnits(units, 1)), ['minion', 'boss', 'back']);
+    assert.deepEqual(ids(getColumnUnits(units, 2)), ['other', 'boss']);
+  });
+});
+
+describe('positional combat', () => {
+  const enemyPositions = new Map<string, Position>([
+    ['t1', { row: 0, col: 1 }],
+    ['w1', { row: 0, col: 2 }],
+    ['m1', { row: 2, col: 1 }],
+  ]);
+  const build = (playerRole: 'warrior' | 'mage', targeting?: AbilityTargeting) => () => {
+    const ability: AbilityDefinition = {
+      id: 'ability_test', name: 'Test', description: '', allowedRoles: [playerRole],
+      powerMultiplier: 0.5, targeting: targeting ?? 'single_closest', targetCount: 3,
+      ignoreDefense: false, healThreshold: 0,
+    };
+    return {
+      playerTeam: [makeUnit('hero', playerRole, 30)],
+      enemyTeam: [makeUnit('t1', 'tank', 5), makeUnit('w1', 'warrior', 5), makeUnit('m1', 'mage', 5)],
+      options: {
+        enemyPositions,
+        abilityDefs: [...DEFAULT_ABILITIES, ability],
+        characterAbilityIds: new Map([['hero', ['ability_test']]]),
+      },
+    };
+  };
+
+  it('keeps melee units on the front row until it falls', () => {
+    for (const r of runSeeds(build('warrior'), 10)) {
+      const frontFalls = Math.max(deathIndex(r, 't1'), deathIndex(r, 'w1'));
+      r.actionLog.slice(0, frontFalls).forEach((a) => {
+        if (a.actorId === 'hero') assert.notEqual(a.targetId, 'm1');
+      });
+    }
+  });
+
+  it('pierces a column past the front line', () => {
+    const casts = runSeeds(build('mage', 'aoe_column'), 20)
+      .flatMap((r) => r.actionLog.filter((a) => a.abilityUsed === 'Test'));
+    assert.ok(casts.length > 0);
+    assert.ok(casts.some((a) => a.aoeTargets!.some((t) => t.id === 'm1')));
+    for (const a of casts) {
+      const hit = a.aoeTargets!.map((t) => t.id);
+      assert.ok(!(hit.includes('w1') && hit.includes('t1')), `hit ${hit.join(',')}`);
+    }
+  });
+
+  it('sweeps only the front row', () => {
+    const casts = runSeeds(build('mage', 'aoe_row'), 20)
+      .flatMap((r) => r.actionLog.filter((a) => a.abilityUsed === 'Test'));
+    assert.ok(casts.length > 0);
+    assert.ok(casts.some((a) => a.aoeTargets!.length === 2));
+    for (const a of casts) {
+      const hit = a.aoeTargets!.map((t) => t.id);
+      // The mage only gets swept once the front row is gone
+      assert.ok(!hit.includes('m1') || hit.length === 1, `hit ${hit.join(',')}`);
+    }
+  });
+
+  it('makes melee units fight through boss minions first', () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const r = new AutoBattleSimulation(
+        [makeUnit('hero', 'warrior', 30)],
+        [makeUnit('boss', 'tank', 10), makeUnit('minion', 'archer', 5)],
+        seed,
+        { bossIds: new Set(['boss']) }
+      ).simulate();
+      r.actionLog.slice(0, deathIndex(r, 'minion')).forEach((a) => {
+        if (a.actorId === 'hero') assert.notEqual(a.targetId, 'boss');
+      });
+    }
+  });
+});
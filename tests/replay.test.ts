@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AutoBattleSimulation } from '../src/lib/game/AutoBattleSimulation';
+import { Character } from '../src/lib/game/Character';
+import { CHARACTER_DEFINITIONS } from '../src/lib/game/characters';
+import { DEFAULT_ABILITIES } from '../src/lib/game/abilities';
+import {
+  computeContentHash,
+  createBattleReplay,
+  parseBattleReplay,
+  replayBattle,
+  type BattleReplay,
+} from '../src/lib/game/replay';
+import { runBattle } from './fixtures';
+
+function buildTeams() {
+  const def = (id: string) => CHARACTER_DEFINITIONS.find((c) => c.id === id)!;
+  return {
+    playerTeam: ['char_001', 'char_003', 'char_004'].map((id) => new Character(def(id), 10)),
+    enemyTeam: ['char_002', 'char_005', 'char_008'].map((id) => new Character(def(id), 10)),
+  };
+}
+
+function recordReplay(seed = 12345): BattleReplay {
+  const { playerTeam, enemyTeam } = buildTeams();
+  const result = runBattle(playerTeam, enemyTeam, seed);
+  return createBattleReplay({ playerTeam, enemyTeam, seed }, result, 'test-content');
+}
+
+describe('battle replays', () => {
+  it('round-trips through JSON and re-simulates the same log', () => {
+    const replay = recordReplay();
+    const parsed = parseBattleReplay(JSON.stringify(replay));
+    assert.notEqual(typeof parsed, 'string');
+
+    const replayed = replayBattle(parsed as BattleReplay, 'test-content');
+    assert.notEqual(typeof replayed, 'string');
+
+    const { playerTeam, enemyTeam } = buildTeams();
+    const original = runBattle(playerTeam, enemyTeam, 12345);
+    assert.deepEqual((replayed as Exclude<typeof replayed, string>).result.actionLog, original.actionLog);
+  });
+
+  it('reports changed content as a mismatch', () => {
+    const result = replayBattle(recordReplay(), 'other-content');
+    assert.equal(typeof result, 'string');
+    assert.match(result as string, /content changed/);
+  });
+
+  it('skips the content check when no hash is given', () => {
+    assert.notEqual(typeof replayBattle(recordReplay()), 'string');
+  });
+
+  it('detects a tampered expected log', () => {
+    const replay = recordReplay();
+    const tampered = { ...replay, expected: { ...replay.expected, turns: replay.expected.turns + 1 } };
+    assert.match(replayBattle(tampered) as string, /diverged/);
+  });
+
+  it('replays the abilities queued in manual mode', () => {
+    const { playerTeam, enemyTeam } = buildTeams();
+    const setup = { playerTeam, enemyTeam, seed: 9, options: { manualAbilities: true } };
+    const sim = new AutoBattleSimulation(playerTeam, enemyTeam, setup.seed, setup.options);
+    while (sim.step()) for (const unit of playerTeam) sim.queueAbility(unit.id);
+    const result = sim.getResult();
+    assert.ok(result.manualInputs!.length > 0);
+
+    const replay = JSON.parse(JSON.stringify(createBattleReplay(setup, result, 'test-content')));
+    assert.deepEqual(replay.options.manualInputs, result.manualInputs);
+    assert.notEqual(typeof replayBattle(replay, 'test-content'), 'string');
+    const withoutInputs = { ...replay, options: { ...replay.options, manualInputs: undefined } };
+    assert.match(replayBattle(withoutInputs) as string, /diverged/);
+  });
+
+  it('rejects malformed replay files', () => {
+    assert.equal(typeof parseBattleReplay('not json'), 'string');
+    assert.equal(typeof parseBattleReplay('{"format":"something-else"}'), 'string');
+  });
+
+  it('hashes content deterministically', () => {
+    const content = { characters: CHARACTER_DEFINITIONS, enemies: [], abilities: DEFAULT_ABILITIES };
+    assert.equal(computeContentHash(content), computeContentHash({ ...content }));
+    assert.notEqual(
+      computeContentHash(content),
+      computeContentHash({ ...content, abilities: DEFAULT_ABILITIES.slice(1) })
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SeededRNG, hashString, mulberry32 } from '../src/lib/game/rng';
+
+describe('SeededRNG', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = new SeededRNG(12345);
+    const b = new SeededRNG(12345);
+    const seqA = Array.from({ length: 20 }, () => a.random());
+    const seqB = Array.from({ length: 20 }, () => b.random());
+    assert.deepEqual(seqA, seqB);
+  });
+
+  it('produces different sequences for different seeds', () => {
+    const a = new SeededRNG(1);
+    const b = new SeededRNG(2);
+    assert.notDeepEqual(
+      Array.from({ length: 5 }, () => a.random()),
+      Array.from({ length: 5 }, () => b.random())
+    );
+  });
+
+  it('matches the underlying mulberry32 generator', () => {
+    const raw = mulberry32(99);
+    const rng = new SeededRNG(99);
+    for (let i = 0; i < 10; i++) assert.equal(rng.random(), raw());
+  });
+
+  it('keeps random() within [0, 1)', () => {
+    const rng = new SeededRNG(7);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng.random();
+      assert.ok(v >= 0 && v < 1, `${v} out of range`);
+    }
+  });
+
+  it('returns inclusive integers from randomInt and hits both bounds', () => {
+    const rng = new SeededRNG(42);
+    const seen = new Set<number>();
+    for (let i = 0; i < 500; i++) {
+      const v = rng.randomInt(3, 6);
+      assert.ok(Number.isInteger(v) && v >= 3 && v <= 6, `${v} out of range`);
+      seen.add(v);
+    }
+    assert.deepEqual([...seen].sort(), [3, 4, 5, 6]);
+  });
+
+  it('keeps randomFloat within [min, max)', () => {
+    const rng = new SeededRNG(5);
+    for (let i = 0; i < 500; i++) {
+      const v = rng.randomFloat(0.9, 1.1);
+      assert.ok(v >= 0.9 && v < 1.1, `${v} out of range`);
+    }
+  });
+
+  it('never passes chance(0) and always passes chance(1)', () => {
+    const rng = new SeededRNG(11);
+    for (let i = 0; i < 200; i++) {
+      assert.equal(rng.chance(0), false);
+      assert.equal(rng.chance(1), true);
+    }
+  });
+
+  it('picks from the array and returns undefined for an empty one', () => {
+    const rng = new SeededRNG(3);
+    const items = ['a', 'b', 'c'];
+    for (let i = 0; i < 50; i++) assert.ok(items.includes(rng.pick(items)!));
+    assert.equal(rng.pick([]), undefined);
+  });
+
+  it('shuffles in place into a permutation, deterministically', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = new SeededRNG(8).shuffle([...items]);
+    assert.deepEqual([...shuffled].sort((a, b) => a - b), items);
+    assert.deepEqual(new SeededRNG(8).shuffle([...items]), shuffled);
+
+    const arr = [1, 2, 3];
+    assert.equal(new SeededRNG(1).shuffle(arr), arr);
+  });
+});
+
+describe('hashString', () => {
+  it('is deterministic', () => {
+    assert.equal(hashString('dungeon:2026-01-01:1'), hashString('dungeon:2026-01-01:1'));
+  });
+
+  it('differs for different inputs and seeds', () => {
+    assert.notEqual(hashString('a'), hashString('b'));
+    assert.notEqual(hashString('a', 1), hashString('a', 2));
+  });
+
+  it('returns a safe non-negative integer', () => {
+    for (const input of ['', 'x', 'a much longer string with unicode é✓']) {
+      const h = hashString(input);
+      assert.ok(Number.isSafeInteger(h) && h >= 0);
+    }
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CURRENT_PLAYER_VERSION,
+  PLAYER_SAVE_MIGRATIONS,
+  migratePlayerSave,
+  type PlayerSaveMigrationResult,
+} from '../src/lib/player/saveMigration';
+import { exportSyncCode, importSyncCode, parsePlayerSaveJson } from '../src/lib/player/playerStore';
+import { MAX_TEAM_PRESETS } from '../src/lib/player/saveSchema';
+import { COMBAT_CONSTANTS } from '../src/lib/game/types';
+
+function cleanSave() {
+  return {
+    version: CURRENT_PLAYER_VERSION,
+    collection: [{ characterId: 'char_001', level: 5, ascension: 1, duplicates: 2, xp: 7, equipment: { weapon: 'gear_1' } }] as Record<string, unknown>[],
+    daily: { date: '2026-01-01', gachaPullsRemaining: 1, dungeonAttemptsLeft: 3, dungeonCleared: false },
+    gold: 120,
+    gachaSeed: 12345,
+    gachaPullCount: 4,
+    expeditions: [{
+      id: 'exp_1', teamCharacterIds: ['char_001'], duration: 8,
+      startedAt: 1000, completesAt: 1000 + 8 * 3600 * 1000, teamPower: 900,
+    }],
+    pityCounters: { epic: 3, legendary: 12 },
+    teams: [{ name: 'Main', characterIds: ['char_001'], formation: { char_001: { row: 0, col: 1 } } }],
+    towerProgress: [{ towerId: 'tower_1', highestStageCleared: 2 }],
+    inventory: [
+      { id: 'gear_1', baseId: 'b', name: 'Sword', slot: 'weapon', rarity: 'rare', mainStat: 'atk', mainValue: 10, affixes: [{ stat: 'hpPct', value: 0.05 }] },
+    ] as unknown[],
+  };
+}
+
+function migrate(raw: unknown): PlayerSaveMigrationResult {
+  const result = migratePlayerSave(raw);
+  assert.notEqual(typeof result, 'string', result as string);
+  return result as PlayerSaveMigrationResult;
+}
+
+describe('migratePlayerSave', () => {
+  it('has one step per version up to the current one', () => {
+    assert.deepEqual(
+      PLAYER_SAVE_MIGRATIONS.map((s) => s.from),
+      Array.from({ length: CURRENT_PLAYER_VERSION - 1 }, (_, i) => i + 1)
+    );
+  });
+
+  it('leaves a clean, current save unchanged', () => {
+    const raw = cleanSave();
+    const result = migrate(raw);
+    assert.deepEqual(result.changes, []);
+    assert.deepEqual(result.save, raw);
+  });
+
+  it('converts the v1 daily gacha flag into a pull counter', () => {
+    const raw = { ...cleanSave(), version: 1, daily: { date: '2026-01-01', gachaPulled: true, dungeonAttemptsLeft: 3, dungeonCleared: false } };
+    const { save, changes, fromVersion } = migrate(raw);
+    assert.equal(fromVersion, 1);
+    assert.equal(save.version, CURRENT_PLAYER_VERSION);
+    assert.equal(save.daily.gachaPullsRemaining, 0);
+    assert.equal('gachaPulled' in save.daily, false);
+    assert.match(changes[0], /^v1→v2/);
+  });
+
+  it('gives v2 saves a fresh random gacha seed', () => {
+    const v2: Record<string, unknown> = { ...cleanSave(), version: 2 };
+    delete v2.gachaSeed;
+    delete v2.gachaPullCount;
+    const first = migrate(v2);
+    assert.equal(first.save.gachaPullCount, 0);
+    assert.ok(Number.isInteger(first.save.gachaSeed) && first.save.gachaSeed >= 0 && first.save.gachaSeed < 2 ** 32);
+    assert.match(first.changes[0], /^v2→v3/);
+    const seeds = new Set(Array.from({ length: 5 }, () => migrate(v2).save.gachaSeed));
+    assert.ok(seeds.size > 1, 'identical saves do not share a seed');
+  });
+
+  it('fills fields missing from old saves', () => {
+    const { save } = migrate({ version: 1, collection: [{ characterId: 'a', level: 3 }], daily: { date: '2026-01-01' } });
+    assert.deepEqual(save.collection[0], { characterId: 'a', level: 3, ascension: 0, duplicates: 0, xp: 0 });
+    assert.equal(save.gold, 0);
+    assert.deepEqual(save.daily, { date: '2026-01-01', gachaPullsRemaining: 1, dungeonAttemptsLeft: 3, dungeonCleared: false });
+  });
+
+  it('repairs out-of-range collection numbers and drops invalid entries', () => {
+    const raw = cleanSave();
+    raw.collection = [
+      { characterId: 'a', level: 0, ascension: 99, duplicates: -4, xp: 2.5 },
+      { level: 3 } as never,
+      'garbage' as never,
+    ];
+    const { save, changes } = migrate(raw);
+    assert.deepEqual(save.collection, [
+      { characterId: 'a', level: 1, ascension: COMBAT_CONSTANTS.MAX_ASCENSION, duplicates: 0, xp: 2 },
+    ]);
+    assert.equal(changes.length, 6);
+    assert.ok(changes.includes('collection[0].level : 0 → 1'));
+  });
+
+  it('replaces an invalid gacha seed and pull counter', () => {
+    const { save, changes } = migrate({ ...cleanSave(), gachaSeed: -3, gachaPullCount: 'x' });
+    assert.ok(Number.isInteger(save.gachaSeed) && save.gachaSeed >= 0);
+    assert.equal(save.gachaPullCount, 0);
+    assert.equal(changes.length, 2);
+  });
+
+  it('drops corrupt banner pity counters', () => {
+    const { save, changes } = migrate({ ...cleanSave(), bannerPityCounters: { fest: { epic: 2, legendary: -1 }, old: 'x' } });
+    assert.deepEqual(save.bannerPityCounters, { fest: { epic: 2 }, old: {} });
+    assert.equal(changes.length, 2);
+  });
+
+  it('merges a character listed twice', () => {
+    const raw = cleanSave();
+    raw.collection = [
+      { characterId: 'a', level: 2, ascension: 0, duplicates: 1, xp: 0 },
+      { characterId: 'a', level: 9, ascension: 1, duplicates: 0, xp: 4 },
+    ];
+    const { save } = migrate(raw);
+    assert.deepEqual(save.collection, [{ characterId: 'a', level: 9, ascension: 1, duplicates: 2, xp: 4 }]);
+  });
+
+  it('drops corrupt expeditions, pity counters, tower progress and team entries', () => {
+    const raw = {
+      ...cleanSave(),
+      expeditions: [...cleanSave().expeditions, { id: 'exp_2', duration: 5 }],
+      pityCounters: { epic: 3, legendary: -1, rare: 'x' },
+      towerProgress: [{ towerId: 'tower_1', highestStageCleared: 2 }, { towerId: 'tower_1', highestStageCleared: 4 }, { nope: true }],
+      teams: [
+        { name: 'Main', characterIds: ['char_001', 42, 'char_001'], formation: { char_001: { row: 5, col: 0 }, ghost: { row: 0, col: 0 } } },
+        null,
+        { name: 'A', characterIds: [] },
+        { name: 'B', characterIds: [] },
+      ],
+    };
+    const { save } = migrate(raw);
+    assert.deepEqual(save.expeditions, cleanSave().expeditions);
+    assert.deepEqual(save.pityCounters, { epic: 3 });
+    assert.deepEqual(save.towerProgress, [{ towerId: 'tower_1', highestStageCleared: 4 }]);
+    assert.equal(save.teams!.length, MAX_TEAM_PRESETS);
+    assert.deepEqual(save.teams![0], { name: 'Main', characterIds: ['char_001'] });
+    assert.deepEqual(save.teams![1], { name: '', characterIds: [] });
+  });
+
+  it('drops corrupt gear and equipment that points at missing or mismatched items', () => {
+    const raw = cleanSave();
+    const sword = raw.inventory[0] as Record<string, unknown>;
+    raw.inventory = [sword, { ...sword }, { ...sword, id: 'gear_2', slot: 'hat' }, { ...sword, id: 'gear_3', slot: 'armor' }];
+    raw.collection = [
+      { characterId: 'a', level: 1, ascension: 0, duplicates: 0, xp: 0, equipment: { weapon: 'gear_1', armor: 'gear_1', accessory: 'nope' } },
+      { characterId: 'b', level: 1, ascension: 0, duplicates: 0, xp: 0, equipment: { weapon: 'gear_1', armor: 'gear_3' } },
+    ];
+    const { save, changes } = migrate(raw);
+    assert.deepEqual(save.inventory!.map((i) => i.id), ['gear_1', 'gear_3']);
+    assert.deepEqual(save.collection[0].equipment, { weapon: 'gear_1' });
+    assert.deepEqual(save.collection[1].equipment, { armor: 'gear_3' });
+    assert.ok(changes.includes('inventory : objets invalides retirés'));
+    assert.equal(changes.length, 3);
+  });
+
+  it('replaces non-list optional fields', () => {
+    const { save } = migrate({ ...cleanSave(), expeditions: 'x', teams: {}, towerProgress: 3, inventory: 'x', daily: null });
+    assert.deepEqual(save.expeditions, []);
+    assert.deepEqual(save.inventory, []);
+    assert.deepEqual(save.collection[0].equipment, {});
+    assert.deepEqual(save.teams, []);
+    assert.deepEqual(save.towerProgress, []);
+    assert.equal(save.daily.date, '');
+  });
+
+  it('does not modify its input', () => {
+    const raw = { ...cleanSave(), version: 1, collection: [{ characterId: 'a', level: -1 }] };
+    const snapshot = structuredClone(raw);
+    migrate(raw);
+    assert.deepEqual(raw, snapshot);
+  });
+
+  it('rejects non-saves and newer versions', () => {
+    assert.equal(typeof migratePlayerSave(null), 'string');
+    assert.equal(typeof migratePlayerSave({ version: 1 }), 'string');
+    assert.match(migratePlayerSave({ ...cleanSave(), version: CURRENT_PLAYER_VERSION + 1 }) as string, /plus récente/);
+    assert.match(migratePlayerSave({ ...cleanSave(), version: 1.5 }) as string, /invalide/);
+  });
+});
+
+describe('save import', () => {
+  it('round-trips through a sync code', () => {
+    const raw = cleanSave();
+    const result = importSyncCode(exportSyncCode(raw as never)) as PlayerSaveMigrationResult;
+    assert.deepEqual(result.save, raw);
+    assert.deepEqual(result.changes, []);
+  });
+
+  it('migrates and repairs imported JSON', () => {
+    const result = parsePlayerSaveJson(JSON.stringify({ version: 1, collection: [{ characterId: 'a', level: 2 }], daily: {} }));
+    assert.notEqual(typeof result, 'string');
+    assert.ok((result as PlayerSaveMigrationResult).changes.length > 0);
+  });
+
+  it('reports unreadable input', () => {
+    assert.equal(importSyncCode('   '), 'Code vide');
+    assert.equal(importSyncCode('%%%'), 'Code de synchronisation invalide');
+    assert.equal(parsePlayerSaveJson('{'), 'JSON invalide');
+    assert.equal(parsePlayerSaveJson('{"collection": 1}'), 'Format de sauvegarde invalide');
+  });
+});
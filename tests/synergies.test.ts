@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character } from '../src/lib/game/Character';
+import { applyActionToDisplay, createDisplayUnits } from '../src/lib/game/battleDisplay';
+import { createBattleReplay, replayBattle } from '../src/lib/game/replay';
+import { getUnitStatesAt } from '../src/lib/game/battleLog';
+import {
+  applySynergyStats,
+  createDefaultSynergies,
+  describeSynergyTier,
+  getActiveSynergies,
+  getNextSynergyTier,
+  getSynergyBonuses,
+  getSynergyTier,
+  parseFactionTags,
+  type SynergyDefinition,
+} from '../src/lib/game/synergies';
+import type { Role } from '../src/lib/game/types';
+import { makeDef, makeUnit, runBattle } from './fixtures';
+
+const warband: SynergyDefinition = {
+  id: 'warband', name: 'Warband', type: 'role', key: 'warrior', appliesTo: 'members',
+  tiers: [{ count: 3, stat: 'atk', value: 0.2 }, { count: 2, stat: 'atk', value: 0.1 }],
+};
+
+const undead: SynergyDefinition = {
+  id: 'undead', name: 'Undead', type: 'faction', key: 'Undead', appliesTo: 'team',
+  tiers: [{ count: 2, stat: 'lifesteal', value: 0.5 }],
+};
+
+const bulwark: SynergyDefinition = {
+  id: 'bulwark', name: 'Bulwark', type: 'role', key: 'warrior', appliesTo: 'team',
+  tiers: [{ count: 2, stat: 'hp', value: 0.5 }],
+};
+
+/** A unit whose definition carries faction tags */
+function factionUnit(id: string, role: Role, factions: string[], level = 10): Character {
+  return new Character({ ...makeDef(id, role), factions }, level);
+}
+
+describe('synergy activation', () => {
+  it('picks the highest tier reached and the next one', () => {
+    assert.equal(getSynergyTier(warband, 1), undefined);
+    assert.equal(getSynergyTier(warband, 2)?.value, 0.1);
+    assert.equal(getSynergyTier(warband, 4)?.value, 0.2);
+    assert.equal(getNextSynergyTier(warband, 2)?.count, 3);
+    assert.equal(getNextSynergyTier(warband, 3), undefined);
+  });
+
+  it('boosts members or the whole team', () => {
+    const team = [
+      { id: 'a', role: 'warrior' as Role },
+      { id: 'b', role: 'warrior' as Role, factions: ['Undead'] },
+      { id: 'c', role: 'mage' as Role, factions: ['Undead'] },
+    ];
+    const active = getActiveSynergies(team, [warband, undead]);
+    assert.deepEqual(active.map((s) => [s.synergyId, s.count, s.unitIds]), [
+      ['warband', 2, ['a', 'b']],
+      ['undead', 2, ['a', 'b', 'c']],
+    ]);
+    const bonuses = getSynergyBonuses(active);
+    assert.deepEqual(bonuses.get('b'), { atk: 0.1, lifesteal: 0.5 });
+    assert.deepEqual(bonuses.get('c'), { lifesteal: 0.5 });
+    assert.deepEqual(applySynergyStats({ hp: 100, atk: 15, def: 10, spd: 9 }, bonuses.get('a')), { hp: 100, atk: 16, def: 10, spd: 9 });
+  });
+
+  it('describes tiers and parses faction tags', () => {
+    assert.equal(describeSynergyTier({ count: 2, stat: 'atk', value: 0.1 }), '+10% ATK');
+    assert.equal(describeSynergyTier({ count: 3, stat: 'lifesteal', value: 0.15 }), '15% Lifesteal');
+    assert.deepEqual(parseFactionTags(' Undead, Beast,,Undead '), ['Undead', 'Beast']);
+    assert.equal(parseFactionTags(' , '), undefined);
+  });
+});
+
+describe('synergies in battle', () => {
+  it('reports active synergies only when configured', () => {
+    const team = () => [makeUnit('rex', 'warrior'), makeUnit('aria', 'warrior'), makeUnit('bruno', 'tank')];
+    const plain = runBattle(team(), [makeUnit('flynn', 'archer')], 1);
+    assert.equal(plain.synergies, undefined);
+    assert.equal(
+      JSON.stringify(runBattle(team(), [makeUnit('flynn', 'archer')], 1, { synergies: [] }).actionLog),
+      JSON.stringify(plain.actionLog),
+      'no active synergy leaves the battle unchanged'
+    );
+
+    const result = runBattle(team(), [makeUnit('flynn', 'archer')], 1, { synergies: createDefaultSynergies() });
+    assert.deepEqual(result.synergies?.player.map((s) => s.name), ['Warband']);
+    assert.deepEqual(result.synergies?.enemy, []);
+  });
+
+  it('shows boosted stats on the display units', () => {
+    const setup = {
+      playerTeam: [makeUnit('rex', 'warrior'), makeUnit('aria', 'warrior')],
+      enemyTeam: [makeUnit('bruno', 'tank')],
+      seed: 1,
+      options: { synergies: [warband] },
+    };
+    const [rex, , bruno] = createDisplayUnits(setup);
+    assert.equal(rex.atk, Math.floor(setup.playerTeam[0].atk * 1.1));
+    assert.equal(bruno.atk, setup.enemyTeam[0].atk);
+  });
+
+  it('scales carried-over HP by the current HP bonus', () => {
+    const rex = makeUnit('rex', 'warrior');
+    const setup = {
+      playerTeam: [rex, makeUnit('aria', 'warrior')],
+      enemyTeam: [makeUnit('bruno', 'tank')],
+      seed: 1,
+      options: { synergies: [bulwark], playerHpOverrides: new Map([['rex', { currentHp: 40, maxHp: rex.hp }]]) },
+    };
+    const maxHp = Math.floor(rex.hp * 1.5);
+    const expected = { currentHp: Math.floor((40 * maxHp) / rex.hp), maxHp };
+
+    const start = getUnitStatesAt(runBattle(setup.playerTeam, setup.enemyTeam, setup.seed, setup.options), 0);
+    const simulated = start.find((u) => u.characterId === 'rex')!;
+    assert.deepEqual({ currentHp: simulated.currentHp, maxHp: simulated.maxHp }, expected);
+    const displayed = createDisplayUnits(setup).find((u) => u.id === 'rex')!;
+    assert.deepEqual({ currentHp: displayed.currentHp, maxHp: displayed.maxHp }, expected);
+  });
+
+  it('heals attackers with lifesteal, mirrored by the display', () => {
+    const setup = {
+      playerTeam: [factionUnit('rex', 'warrior', ['Undead']), factionUnit('mira', 'mage', ['Undead'])],
+      enemyTeam: [makeUnit('bruno', 'tank', 12), makeUnit('aria', 'warrior', 12)],
+      seed: 2,
+      options: { synergies: [undead] },
+    };
+    const result = runBattle(setup.playerTeam, setup.enemyTeam, setup.seed, setup.options);
+    const drains = result.actionLog.filter((a) => a.lifesteal);
+    assert.ok(drains.length > 0);
+    assert.ok(drains.every((a) => a.actorId === 'rex' || a.actorId === 'mira'));
+
+    let units = createDisplayUnits(setup);
+    for (const action of result.actionLog) {
+      if (action.lifesteal) {
+        const actor = units.find((u) => u.id === action.actorId)!;
+        const dealt = action.aoeTargets?.reduce((sum, t) => sum + t.damage, 0) ?? action.damage!;
+        assert.equal(action.lifesteal, Math.min(Math.floor(dealt * 0.5), actor.maxHp - actor.currentHp));
+      }
+      units = applyActionToDisplay(units, action);
+    }
+
+    const replayed = replayBattle(createBattleReplay(setup, result, 'test'));
+    assert.notEqual(typeof replayed, 'string', replayed as string);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Character } from '../src/lib/game/Character';
+import { finalDisplayUnits } from '../src/lib/game/battleDisplay';
+import { createBattleReplay, replayBattle } from '../src/lib/game/replay';
+import {
+  describeTrait,
+  getTraitEffectsForTrigger,
+  isTraitCombinationValid,
+  type PassiveTrait,
+} from '../src/lib/game/traits';
+import type { CombatAction, Role } from '../src/lib/game/types';
+import { makeDef, makeUnit, runBattle } from './fixtures';
+
+/** A unit whose definition carries passive traits */
+function traitUnit(id: string, role: Role, traits: PassiveTrait[], level = 10): Character {
+  return new Character({ ...makeDef(id, role), traits }, level);
+}
+
+const trait = (overrides: Partial<PassiveTrait> & Pick<PassiveTrait, 'trigger' | 'effect'>): PassiveTrait => ({
+  id: 'trait',
+  name: 'Trait',
+  value: 0.3,
+  ...overrides,
+});
+
+const traitActions = (log: CombatAction[], actorId: string) =>
+  log.filter((a) => a.actionType === 'trait' && a.actorId === actorId);
+
+describe('trait definitions', () => {
+  it('restricts revive to on_death and reflect to on_hit', () => {
+    assert.equal(isTraitCombinationValid('on_death', 'revive'), true);
+    assert.equal(isTraitCombinationValid('on_low_hp', 'revive'), false);
+    assert.equal(isTraitCombinationValid('on_death', 'heal'), false);
+    assert.equal(isTraitCombinationValid('on_kill', 'reflect'), false);
+    assert.deepEqual(getTraitEffectsForTrigger('on_hit'), ['stat_boost', 'heal', 'extra_attack', 'reflect']);
+  });
+
+  it('describes traits', () => {
+    assert.equal(describeTrait(trait({ trigger: 'on_kill', effect: 'stat_boost', value: 0.2 })), 'On kill: ATK +20% (3 turns)');
+    assert.equal(describeTrait(trait({ trigger: 'on_low_hp', effect: 'heal', threshold: 0.5 })), 'Below 50% HP: heal 30% max HP, once');
+    assert.equal(describeTrait(trait({ trigger: 'on_hit', effect: 'reflect', chance: 0.5 })), 'On hit: reflect 30% damage (50% chance)');
+  });
+});
+
+describe('traits in battle', () => {
+  it('boosts stats at battle start', () => {
+    const rex = traitUnit('rex', 'warrior', [trait({ name: 'Battle Cry', trigger: 'battle_start', effect: 'stat_boost', stat: 'spd' })]);
+    const result = runBattle([rex], [makeUnit('bruno', 'tank')], 1);
+    const [first, second] = result.actionLog;
+    assert.equal(first.actionType, 'trait');
+    assert.equal(first.trait, 'Battle Cry');
+    assert.equal(first.tick, 0);
+    assert.equal(second.actionType, 'effect_apply');
+    assert.equal(second.statusEffect, 'spd_up');
+    assert.equal(result.turnOrder[0].unitId, 'rex', 'the boost applies before the first turn');
+  });
+
+  it('reflects damage back at the attacker', () => {
+    const thorns = trait({ name: 'Thorns', trigger: 'on_hit', effect: 'reflect', value: 0.5 });
+    const result = runBattle([makeUnit('rex', 'warrior')], [traitUnit('bruno', 'tank', [thorns])], 1);
+    const reflections = traitActions(result.actionLog, 'bruno');
+    assert.ok(reflections.length > 0);
+    for (const reflection of reflections) {
+      const hit = result.actionLog[result.actionLog.indexOf(reflection) - 1];
+      const damage = hit.aoeTargets?.find((t) => t.id === 'bruno')?.damage ?? hit.damage!;
+      assert.equal(hit.actorId, 'rex');
+      assert.equal(reflection.targetId, 'rex');
+      assert.equal(reflection.damage, Math.max(1, Math.floor(damage * 0.5)));
+    }
+  });
+
+  it('revives once, then dies for good', () => {
+    const undying = trait({ name: 'Undying', trigger: 'on_death', effect: 'revive', value: 0.5 });
+    const victim = traitUnit('flynn', 'archer', [undying], 1);
+    const result = runBattle([makeUnit('rex', 'warrior', 30)], [victim], 1);
+    const revives = traitActions(result.actionLog, 'flynn');
+    assert.equal(revives.length, 1);
+    assert.equal(revives[0].healing, Math.floor(victim.hp * 0.5));
+    const deaths = result.actionLog.filter((a) => a.actionType === 'death' && a.actorId === 'flynn');
+    assert.equal(deaths.length, 1);
+    assert.ok(result.actionLog.indexOf(deaths[0]) > result.actionLog.indexOf(revives[0]));
+    assert.equal(result.winner, 'player');
+  });
+
+  it('does not loop when both sides counter-attack on hit', () => {
+    const counter = trait({ name: 'Counter', trigger: 'on_hit', effect: 'extra_attack', value: 0.5 });
+    const result = runBattle([traitUnit('rex', 'warrior', [counter])], [traitUnit('aria', 'warrior', [counter])], 1);
+    const counters = result.actionLog.filter((a) => a.trait === 'Counter');
+    const hits = result.actionLog.filter((a) => a.actionType === 'attack' || a.actionType === 'ability');
+    assert.ok(counters.length > 0);
+    assert.ok(counters.length <= hits.length, 'one counter at most per attack');
+  });
+
+  it('fires kill and ally death triggers', () => {
+    const bloodlust = trait({ name: 'Bloodlust', trigger: 'on_kill', effect: 'heal' });
+    const vengeance = trait({ name: 'Vengeance', trigger: 'on_ally_death', effect: 'stat_boost' });
+    const result = runBattle(
+      [traitUnit('rex', 'warrior', [bloodlust], 30)],
+      [makeUnit('flynn', 'archer', 1), traitUnit('bruno', 'tank', [vengeance], 1)],
+      1
+    );
+    const firstDeath = result.actionLog.findIndex((a) => a.actionType === 'death');
+    const next = result.actionLog.slice(firstDeath + 1).filter((a) => a.actionType === 'trait');
+    assert.ok(next.some((a) => a.trait === 'Bloodlust' && a.actorId === 'rex'));
+    if (result.actionLog[firstDeath].actorId === 'flynn') {
+      assert.equal(next[0].trait, 'Vengeance', 'ally death traits fire before the killer\'s');
+    }
+  });
+
+  it('fires low HP traits once below the threshold', () => {
+    const lastStand = trait({ name: 'Last Stand', trigger: 'on_low_hp', effect: 'heal', threshold: 0.5 });
+    const result = runBattle([makeUnit('rex', 'warrior', 30)], [traitUnit('bruno', 'tank', [lastStand], 20)], 1);
+    const heals = traitActions(result.actionLog, 'bruno');
+    assert.equal(heals.length, 1);
+    assert.ok(heals[0].healing! > 0);
+  });
+
+  it('respects chance and trigger limits', () => {
+    const regen = trait({ name: 'Regen', trigger: 'turn_start', effect: 'heal', value: 0.05, maxTriggers: 2 });
+    const result = runBattle([traitUnit('bruno', 'tank', [regen])], [makeUnit('rex', 'warrior')], 1);
+    assert.equal(traitActions(result.actionLog, 'bruno').length, 2);
+
+    const never = trait({ name: 'Rarely', trigger: 'turn_start', effect: 'heal', chance: 0.000001 });
+    const unlucky = runBattle([traitUnit('bruno', 'tank', [never])], [makeUnit('rex', 'warrior')], 1);
+    assert.equal(traitActions(unlucky.actionLog, 'bruno').length, 0);
+  });
+
+  it('replays and displays trait battles', () => {
+    const undying = trait({ name: 'Undying', trigger: 'on_death', effect: 'revive', value: 0.5 });
+    const setup = {
+      playerTeam: [makeUnit('rex', 'warrior', 30)],
+      enemyTeam: [traitUnit('flynn', 'archer', [undying], 1)],
+      seed: 3,
+    };
+    const result = runBattle(setup.playerTeam, setup.enemyTeam, setup.seed);
+    const replay = createBattleReplay(setup, result, 'test');
+    const replayed = replayBattle(replay);
+    assert.notEqual(typeof replayed, 'string', replayed as string);
+
+    const revive = result.actionLog.findIndex((a) => a.traitEffect === 'revive');
+    assert.ok(revive > 0);
+    const display = finalDisplayUnits(setup, result.actionLog.slice(0, revive + 1));
+    const flynn = display.find((u) => u.id === 'flynn')!;
+    assert.equal(flynn.isAlive, true);
+    assert.equal(flynn.currentHp, result.actionLog[revive].healing);
+  });
+});